@@ -6,9 +6,18 @@ import { FileUpload } from './components/FileUpload';
 import { Dashboard } from './components/Dashboard';
 import { FileHistory } from './components/FileHistory';
 import { Guide } from './components/Guide';
+import { MappingProfiles } from './components/MappingProfiles';
+import { ReconciliationRules } from './components/ReconciliationRules';
+import { PaymentTypes } from './components/PaymentTypes';
+import { ReconciliationRuns } from './components/ReconciliationRuns';
+import { BookingPayouts } from './components/BookingPayouts';
+import { BookingCommissionReport } from './components/BookingCommissionReport';
+import { NexiSettlements } from './components/NexiSettlements';
+import { ProviderPayouts } from './components/ProviderPayouts';
+import { UnmatchedPayments } from './components/UnmatchedPayments';
 
 function App() {
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'history' | 'guide'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'payouts' | 'unmatched' | 'history' | 'mappings' | 'rules' | 'guide'>('dashboard');
   const [refreshKey, setRefreshKey] = useState(0);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
@@ -81,6 +90,24 @@ function App() {
                 >
                   Dashboard
                 </button>
+                <button
+                  onClick={() => setActiveTab('payouts')}
+                  className={`${activeTab === 'payouts'
+                    ? 'border-blue-500 text-gray-900'
+                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                    } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}
+                >
+                  Auszahlungen
+                </button>
+                <button
+                  onClick={() => setActiveTab('unmatched')}
+                  className={`${activeTab === 'unmatched'
+                    ? 'border-blue-500 text-gray-900'
+                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                    } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}
+                >
+                  Offene Zahlungen
+                </button>
                 <button
                   onClick={() => setActiveTab('history')}
                   className={`${activeTab === 'history'
@@ -90,6 +117,24 @@ function App() {
                 >
                   File History
                 </button>
+                <button
+                  onClick={() => setActiveTab('mappings')}
+                  className={`${activeTab === 'mappings'
+                    ? 'border-blue-500 text-gray-900'
+                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                    } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}
+                >
+                  Spaltenzuordnung
+                </button>
+                <button
+                  onClick={() => setActiveTab('rules')}
+                  className={`${activeTab === 'rules'
+                    ? 'border-blue-500 text-gray-900'
+                    : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'
+                    } inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}
+                >
+                  Abgleichsregeln
+                </button>
                 <button
                   onClick={() => setActiveTab('guide')}
                   className={`${activeTab === 'guide'
@@ -118,10 +163,31 @@ function App() {
         {activeTab === 'dashboard' && (
           <div className="space-y-6">
             <FileUpload onUploadComplete={handleUploadComplete} />
-            <Dashboard />
+            <Dashboard userName={session.user.email || ''} />
+          </div>
+        )}
+        {activeTab === 'payouts' && (
+          <div className="space-y-6">
+            <BookingCommissionReport key={refreshKey} />
+            <BookingPayouts key={refreshKey} />
+            <NexiSettlements key={refreshKey} />
+            <ProviderPayouts key={refreshKey} />
+          </div>
+        )}
+        {activeTab === 'unmatched' && <UnmatchedPayments key={refreshKey} userName={session.user.email || ''} />}
+        {activeTab === 'history' && (
+          <div className="space-y-6">
+            <FileHistory key={refreshKey} />
+            <ReconciliationRuns key={refreshKey} />
+          </div>
+        )}
+        {activeTab === 'mappings' && <MappingProfiles />}
+        {activeTab === 'rules' && (
+          <div className="space-y-6">
+            <PaymentTypes />
+            <ReconciliationRules />
           </div>
         )}
-        {activeTab === 'history' && <FileHistory key={refreshKey} />}
         {activeTab === 'guide' && <Guide />}
       </main>
     </div>
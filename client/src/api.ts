@@ -12,6 +12,41 @@ export const api = {
         return res.json();
     },
 
+    async previewUpload(files: File[], encoding?: string, type?: string) {
+        const formData = new FormData();
+        files.forEach(file => formData.append('files', file));
+
+        const encodingParam = encoding ? `&encoding=${encodeURIComponent(encoding)}` : '';
+        const typeParam = type ? `&type=${encodeURIComponent(type)}` : '';
+        const res = await fetch(`${API_URL}/upload?preview=true${encodingParam}${typeParam}`, {
+            method: 'POST',
+            body: formData
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Preview failed');
+        }
+        return res.json();
+    },
+
+    async commitUpload(files: { stagedFile: string; originalName: string; encoding?: string; type?: string }[]) {
+        const res = await fetch(`${API_URL}/upload/commit`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ files })
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Import failed');
+        }
+        return res.json();
+    },
+
+    async discardUpload(stagedFile: string) {
+        const res = await fetch(`${API_URL}/upload/staged/${encodeURIComponent(stagedFile)}`, { method: 'DELETE' });
+        return res.json();
+    },
+
     async reconcile() {
         const res = await fetch(`${API_URL}/reconcile`, {
             method: 'POST'
@@ -23,6 +58,92 @@ export const api = {
         return res.json();
     },
 
+    async acceptSuggestion(id: number, user: string) {
+        const res = await fetch(`${API_URL}/suggestions/${id}/accept`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ user })
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to accept suggestion');
+        }
+        return res.json();
+    },
+
+    async searchUnmatchedPayments(params: { type: string; amount?: string; from?: string; to?: string; q?: string }) {
+        const qs = new URLSearchParams(Object.entries(params).filter(([, v]) => v) as [string, string][]);
+        const res = await fetch(`${API_URL}/payments/unmatched?${qs}`);
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to search payments');
+        }
+        return res.json();
+    },
+
+    async createManualMatch(invoiceId: number, type: string, paymentId: number, user: string) {
+        const res = await fetch(`${API_URL}/invoices/${invoiceId}/matches`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ type, paymentId, user })
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to create match');
+        }
+        return res.json();
+    },
+
+    async removeMatch(id: number) {
+        const res = await fetch(`${API_URL}/matches/${id}`, { method: 'DELETE' });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to remove match');
+        }
+        return res.json();
+    },
+
+    async getUnmatchedPaymentSummary() {
+        const res = await fetch(`${API_URL}/unmatched-payments/summary`);
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to fetch unmatched payments');
+        }
+        return res.json();
+    },
+
+    async getUnmatchedPayments(params: { source: string; month?: string; status?: string; q?: string }) {
+        const qs = new URLSearchParams(Object.entries(params).filter(([, v]) => v) as [string, string][]);
+        const res = await fetch(`${API_URL}/unmatched-payments?${qs}`);
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to fetch unmatched payments');
+        }
+        return res.json();
+    },
+
+    async flagPayment(source: string, id: number, flag: string, note: string | null, user: string) {
+        const res = await fetch(`${API_URL}/unmatched-payments/${source}/${id}/flag`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ flag, note, user })
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to flag payment');
+        }
+        return res.json();
+    },
+
+    async unflagPayment(source: string, id: number) {
+        const res = await fetch(`${API_URL}/unmatched-payments/${source}/${id}/flag`, { method: 'DELETE' });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to remove flag');
+        }
+        return res.json();
+    },
+
     async getInvoices(months?: string[]) {
         const qs = months && months.length > 0 ? `?months=${months.join(',')}` : '';
         const res = await fetch(`${API_URL}/invoices${qs}`);
@@ -65,12 +186,75 @@ export const api = {
         return res.json();
     },
 
+    async getBookingPayouts() {
+        const res = await fetch(`${API_URL}/booking-payouts`);
+        if (!res.ok) throw new Error('Failed to fetch booking payouts');
+        return res.json();
+    },
+
+    async getNexiSettlements() {
+        const res = await fetch(`${API_URL}/nexi-settlements`);
+        if (!res.ok) throw new Error('Failed to fetch Nexi settlements');
+        return res.json();
+    },
+
+    async getProviderPayouts() {
+        const res = await fetch(`${API_URL}/provider-payouts`);
+        if (!res.ok) throw new Error('Failed to fetch provider payouts');
+        return res.json();
+    },
+
+    async getBookingCommissionReport(year: number) {
+        const res = await fetch(`${API_URL}/reports/booking-commission?year=${year}`);
+        if (!res.ok) throw new Error('Failed to fetch commission report');
+        return res.json();
+    },
+
+    async getFileTypes() {
+        const res = await fetch(`${API_URL}/file-types`);
+        if (!res.ok) throw new Error('Failed to fetch file types');
+        return res.json();
+    },
+
+    async getInboxStatus() {
+        const res = await fetch(`${API_URL}/inbox`);
+        if (!res.ok) throw new Error('Failed to fetch inbox status');
+        return res.json();
+    },
+
+    async scanInbox() {
+        const res = await fetch(`${API_URL}/inbox/scan`, { method: 'POST' });
+        if (!res.ok) throw new Error('Inbox scan failed');
+        return res.json();
+    },
+
     async getFiles() {
         const res = await fetch(`${API_URL}/files`);
         if (!res.ok) throw new Error('Failed to fetch files');
         return res.json();
     },
 
+    async getFileErrors(fileId: number) {
+        const res = await fetch(`${API_URL}/files/${fileId}/errors`);
+        if (!res.ok) throw new Error('Failed to fetch import errors');
+        return res.json();
+    },
+
+    async previewRollback(fileId: number) {
+        const res = await fetch(`${API_URL}/files/${fileId}/rollback`);
+        if (!res.ok) throw new Error('Failed to preview rollback');
+        return res.json();
+    },
+
+    async rollbackFile(fileId: number) {
+        const res = await fetch(`${API_URL}/files/${fileId}`, { method: 'DELETE' });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Rollback failed');
+        }
+        return res.json();
+    },
+
     async deleteMonth(month: string) {
         // month format: YYYY-MM
         const res = await fetch(`${API_URL}/invoices/by-month?month=${month}`, { method: 'DELETE' });
@@ -88,5 +272,95 @@ export const api = {
         const res = await fetch(`${API_URL}/backup`);
         if (!res.ok) throw new Error('Failed to download backup');
         return res.json();
+    },
+
+    async getMappingProfiles() {
+        const res = await fetch(`${API_URL}/mapping-profiles`);
+        if (!res.ok) throw new Error('Failed to fetch mapping profiles');
+        return res.json();
+    },
+
+    async saveMappingProfile(profile: { id?: number; name: string; source: string; fields: Record<string, string[]> }) {
+        const res = await fetch(`${API_URL}/mapping-profiles${profile.id ? `/${profile.id}` : ''}`, {
+            method: profile.id ? 'PUT' : 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(profile)
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to save mapping profile');
+        }
+        return res.json();
+    },
+
+    async deleteMappingProfile(id: number) {
+        const res = await fetch(`${API_URL}/mapping-profiles/${id}`, { method: 'DELETE' });
+        if (!res.ok) throw new Error('Failed to delete mapping profile');
+        return res.json();
+    },
+
+    async getReconciliationRules() {
+        const res = await fetch(`${API_URL}/reconciliation-rules`);
+        if (!res.ok) throw new Error('Failed to fetch reconciliation rules');
+        return res.json();
+    },
+
+    async saveReconciliationRules(rules: unknown) {
+        const res = await fetch(`${API_URL}/reconciliation-rules`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(rules)
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to save reconciliation rules');
+        }
+        return res.json();
+    },
+
+    async resetReconciliationRules() {
+        const res = await fetch(`${API_URL}/reconciliation-rules`, { method: 'DELETE' });
+        if (!res.ok) throw new Error('Failed to reset reconciliation rules');
+        return res.json();
+    },
+
+    async getReconciliationRuns() {
+        const res = await fetch(`${API_URL}/reconciliation-runs`);
+        if (!res.ok) throw new Error('Failed to fetch reconciliation runs');
+        return res.json();
+    },
+
+    async getReconciliationRunMatches(id: number) {
+        const res = await fetch(`${API_URL}/reconciliation-runs/${id}/matches`);
+        if (!res.ok) throw new Error('Failed to fetch run matches');
+        return res.json();
+    },
+
+    async revertReconciliationRun(id: number) {
+        const res = await fetch(`${API_URL}/reconciliation-runs/${id}/revert`, { method: 'POST' });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to revert reconciliation run');
+        }
+        return res.json();
+    },
+
+    async getPaymentTypes() {
+        const res = await fetch(`${API_URL}/payment-types`);
+        if (!res.ok) throw new Error('Failed to fetch payment types');
+        return res.json();
+    },
+
+    async setPaymentTypeChannel(id: number, channel: string | null) {
+        const res = await fetch(`${API_URL}/payment-types/${id}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ channel })
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            throw new Error(err.error || 'Failed to save payment type mapping');
+        }
+        return res.json();
     }
 };
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api';
+
+interface CommissionMonth {
+    month: string;
+    reservations: number;
+    grossAmount: number;
+    commission: number;
+    paymentCharge: number;
+    netAmount: number;
+}
+
+const formatAmount = (amount: number) => amount.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' €';
+
+// OTA fees per month (by check-out date, as Booking.com invoices its commission)
+export const BookingCommissionReport: React.FC = () => {
+    const [year, setYear] = useState(new Date().getFullYear());
+    const [months, setMonths] = useState<CommissionMonth[] | null>(null);
+
+    useEffect(() => {
+        api.getBookingCommissionReport(year).then(res => setMonths(res.months)).catch(console.error);
+    }, [year]);
+
+    const total = (months || []).reduce((sum, m) => ({
+        reservations: sum.reservations + m.reservations,
+        grossAmount: sum.grossAmount + m.grossAmount,
+        commission: sum.commission + m.commission,
+        paymentCharge: sum.paymentCharge + m.paymentCharge,
+        netAmount: sum.netAmount + m.netAmount
+    }), { reservations: 0, grossAmount: 0, commission: 0, paymentCharge: 0, netAmount: 0 });
+
+    return (
+        <div className="card">
+            <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '1rem' }}>
+                <h3 style={{ margin: 0 }}>Booking.com Provisionsbericht</h3>
+                <select value={year} onChange={(e) => setYear(parseInt(e.target.value))}>
+                    {[0, 1, 2].map(offset => {
+                        const y = new Date().getFullYear() - offset;
+                        return <option key={y} value={y}>{y}</option>;
+                    })}
+                </select>
+            </div>
+            {!months && <div>Loading...</div>}
+            {months && months.length === 0 && <div>Keine Booking.com-Reservierungen in {year}.</div>}
+            {months && months.length > 0 && (
+                <div className="table-container">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>Monat (Abreise)</th>
+                                <th>Reservierungen</th>
+                                <th>Brutto</th>
+                                <th>Provision</th>
+                                <th>Zahlungsgebühr</th>
+                                <th>Netto</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {months.map(m => (
+                                <tr key={m.month}>
+                                    <td>{m.month}</td>
+                                    <td>{m.reservations}</td>
+                                    <td>{formatAmount(m.grossAmount)}</td>
+                                    <td>{formatAmount(m.commission)}</td>
+                                    <td>{formatAmount(m.paymentCharge)}</td>
+                                    <td>{formatAmount(m.netAmount)}</td>
+                                </tr>
+                            ))}
+                            <tr style={{ fontWeight: 'bold' }}>
+                                <td>Summe</td>
+                                <td>{total.reservations}</td>
+                                <td>{formatAmount(total.grossAmount)}</td>
+                                <td>{formatAmount(total.commission)}</td>
+                                <td>{formatAmount(total.paymentCharge)}</td>
+                                <td>{formatAmount(total.netAmount)}</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
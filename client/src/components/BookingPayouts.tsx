@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api';
+
+interface PayoutReservation {
+    id: number;
+    referenceNumber: string;
+    checkInDate: string;
+    amount: number;
+    grossAmount: number | null;
+    commission: number | null;
+    paymentCharge: number | null;
+    matches: { invoice: { invoiceNumber: string } }[];
+}
+
+interface BookingPayout {
+    id: number;
+    payoutId: string;
+    payoutDate: string;
+    reservationCount: number;
+    grossAmount: number;
+    commission: number;
+    paymentCharge: number;
+    netAmount: number;
+    matchConfidence: number | null;
+    bankTransaction: { id: number; bookingDate: string; amount: number; description: string | null } | null;
+    bookingPayments: PayoutReservation[];
+}
+
+const formatAmount = (amount: number) => amount.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' €';
+const formatDate = (date: string) => new Date(date).toLocaleDateString('de-DE');
+
+// Booking.com payouts: every reservation is paid out with one payout, every payout should arrive as one bank transfer
+export const BookingPayouts: React.FC = () => {
+    const [payouts, setPayouts] = useState<BookingPayout[] | null>(null);
+    const [expanded, setExpanded] = useState<number | null>(null);
+    const [visibleCount, setVisibleCount] = useState(20);
+
+    useEffect(() => {
+        api.getBookingPayouts().then(setPayouts).catch(console.error);
+    }, []);
+
+    if (!payouts) return <div className="card">Loading...</div>;
+
+    const openCount = payouts.filter(p => !p.bankTransaction).length;
+
+    return (
+        <div className="card">
+            <h3>Booking.com Auszahlungen</h3>
+            <p style={{ fontSize: '0.9rem', color: '#6b7280', marginBottom: '1rem' }}>
+                {payouts.length} Auszahlungen, davon {openCount} ohne zugeordnete Bankbuchung. Der Abgleich läuft zusammen mit dem Rechnungsabgleich im Dashboard.
+            </p>
+            <div className="table-container">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Auszahlung</th>
+                            <th>Datum</th>
+                            <th>Reservierungen</th>
+                            <th>Brutto</th>
+                            <th>Provision</th>
+                            <th>Zahlungsgebühr</th>
+                            <th>Netto</th>
+                            <th>Bank</th>
+                            <th>Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {payouts.slice(0, visibleCount).map(payout => {
+                            const invoiced = payout.bookingPayments.filter(b => b.matches.length > 0).length;
+                            const difference = payout.bankTransaction ? payout.bankTransaction.amount - payout.netAmount : 0;
+                            return (
+                                <React.Fragment key={payout.id}>
+                                    <tr onClick={() => setExpanded(expanded === payout.id ? null : payout.id)} style={{ cursor: 'pointer' }}>
+                                        <td>{expanded === payout.id ? '▾' : '▸'} {payout.payoutId}</td>
+                                        <td>{formatDate(payout.payoutDate)}</td>
+                                        <td>
+                                            {payout.reservationCount}
+                                            <small style={{ color: invoiced === payout.reservationCount ? '#166534' : '#b45309', marginLeft: '0.5rem' }}>
+                                                ({invoiced} mit Rechnung)
+                                            </small>
+                                        </td>
+                                        <td>{payout.grossAmount ? formatAmount(payout.grossAmount) : '-'}</td>
+                                        <td>{payout.commission ? formatAmount(payout.commission) : '-'}</td>
+                                        <td>{payout.paymentCharge ? formatAmount(payout.paymentCharge) : '-'}</td>
+                                        <td>{formatAmount(payout.netAmount)}</td>
+                                        <td>
+                                            {payout.bankTransaction ? (
+                                                <>
+                                                    {formatDate(payout.bankTransaction.bookingDate)}: {formatAmount(payout.bankTransaction.amount)}
+                                                    {Math.abs(difference) > 0.01 && (
+                                                        <div><small style={{ color: '#991b1b' }}>Differenz {formatAmount(difference)}</small></div>
+                                                    )}
+                                                </>
+                                            ) : '-'}
+                                        </td>
+                                        <td>
+                                            <span className="status-badge" style={{
+                                                background: payout.bankTransaction ? '#dcfce7' : '#fef3c7',
+                                                color: payout.bankTransaction ? '#166534' : '#92400e'
+                                            }}>
+                                                {payout.bankTransaction ? (payout.matchConfidence === 1 ? 'Ausgezahlt (Referenz)' : 'Ausgezahlt (Betrag)') : 'Offen'}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                    {expanded === payout.id && (
+                                        <tr>
+                                            <td colSpan={9} style={{ background: '#f9fafb' }}>
+                                                <table style={{ fontSize: '0.85rem' }}>
+                                                    <thead>
+                                                        <tr>
+                                                            <th>Referenz</th>
+                                                            <th>Check-in</th>
+                                                            <th>Brutto</th>
+                                                            <th>Provision</th>
+                                                            <th>Zahlungsgebühr</th>
+                                                            <th>Auszahlung</th>
+                                                            <th>Rechnung</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {payout.bookingPayments.map(b => (
+                                                            <tr key={b.id}>
+                                                                <td>{b.referenceNumber}</td>
+                                                                <td>{formatDate(b.checkInDate)}</td>
+                                                                <td>{formatAmount(b.grossAmount ?? b.amount)}</td>
+                                                                <td>{b.commission !== null ? formatAmount(b.commission) : '-'}</td>
+                                                                <td>{b.paymentCharge !== null ? formatAmount(b.paymentCharge) : '-'}</td>
+                                                                <td>{formatAmount(b.amount)}</td>
+                                                                <td style={{ color: b.matches.length ? 'inherit' : '#b45309' }}>
+                                                                    {b.matches.length ? b.matches.map(m => m.invoice.invoiceNumber).join(', ') : 'keine Rechnung zugeordnet'}
+                                                                </td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            {visibleCount < payouts.length && (
+                <div style={{ textAlign: 'center', marginTop: '1rem' }}>
+                    <button className="btn" onClick={() => setVisibleCount(prev => prev + 20)}>
+                        Load More ({payouts.length - visibleCount} remaining)
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
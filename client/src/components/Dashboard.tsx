@@ -2,6 +2,9 @@ import React, { useEffect, useState, useMemo, useCallback } from 'react';
 import { api } from '../api';
 import { Toast } from './Toast';
 import type { ToastProps } from './Toast';
+import { MatchSuggestions } from './MatchSuggestions';
+import type { MatchSuggestion } from './MatchSuggestions';
+import { ManualMatchDialog } from './ManualMatchDialog';
 
 interface Invoice {
     id: number;
@@ -17,8 +20,22 @@ interface Invoice {
     dunningStatus?: string;
     dunningMethod?: string;
     dunningDate?: string;
+    invoiceType?: string;
+    originalInvoice?: { id: number; invoiceNumber: string; amount: number } | null;
+    creditNotes?: { id: number; invoiceNumber: string; amount: number }[];
+    changes?: { id: number; field: string; oldValue: string | null; newValue: string | null; changedAt: string }[];
+    suggestions?: MatchSuggestion[];
 }
 
+const CHANGE_LABELS: Record<string, string> = { invoiceDate: 'Datum', paymentType: 'Zahlungsart', recipient: 'Empfänger', amount: 'Betrag' };
+
+// Amount still expected: invoice total less credit notes and partial payments
+const openAmount = (inv: Invoice): number => {
+    const credits = (inv.creditNotes || []).reduce((sum, c) => sum + c.amount, 0);
+    const paid = (inv.matches || []).filter(m => !m.creditNote).reduce((sum, m) => sum + (m.amount || 0), 0);
+    return Math.round((inv.amount + credits - paid) * 100) / 100;
+};
+
 type SortField = 'date' | 'number' | 'recipient' | 'type' | 'amount' | 'status';
 type SortDirection = 'asc' | 'desc';
 
@@ -39,7 +56,8 @@ const monthNameToYYYYMM = (monthName: string): string => {
     return month && year ? `${year}-${month}` : '';
 };
 
-export const Dashboard: React.FC = () => {
+// userName: signed-in user, recorded with matches made by hand
+export const Dashboard: React.FC<{ userName: string }> = ({ userName }) => {
     const [invoices, setInvoices] = useState<Invoice[]>([]);
     const [loading, setLoading] = useState(false);
     const [reconciling, setReconciling] = useState(false);
@@ -51,6 +69,7 @@ export const Dashboard: React.FC = () => {
     const [showDeleteModal, setShowDeleteModal] = useState(false);
     const [selectedMonthsToDelete, setSelectedMonthsToDelete] = useState<Set<string>>(new Set());
     const [deleting, setDeleting] = useState(false);
+    const [matchingInvoice, setMatchingInvoice] = useState<Invoice | null>(null);
 
     const [fullyLoadedMonths, setFullyLoadedMonths] = useState<Set<string>>(() => {
         const defaultLoaded = new Set<string>();
@@ -62,11 +81,11 @@ export const Dashboard: React.FC = () => {
         return defaultLoaded;
     });
 
-    const showToast = (message: string, type: 'success' | 'error' | 'info') => {
+    const showToast = useCallback((message: string, type: 'success' | 'error' | 'info') => {
         setToast({ message, type });
-    };
+    }, []);
 
-    const fetchInvoices = async (monthsToLoad?: Set<string>) => {
+    const fetchInvoices = useCallback(async (monthsToLoad?: Set<string>) => {
         setLoading(true);
         setError(null);
         try {
@@ -85,7 +104,7 @@ export const Dashboard: React.FC = () => {
         } finally {
             setLoading(false);
         }
-    };
+    }, [fullyLoadedMonths]);
 
     const fetchImportStatus = async () => {
         try {
@@ -105,7 +124,7 @@ export const Dashboard: React.FC = () => {
         setReconciling(true);
         try {
             const res = await api.reconcile();
-            showToast(`Abgleich abgeschlossen! ${res.matches} Rechnungen zugeordnet.`, 'success');
+            showToast(`Abgleich abgeschlossen! ${res.matches} Rechnungen zugeordnet${res.payouts ? `, ${res.payouts} Booking.com-Auszahlungen mit Bank abgeglichen` : ''}${res.settlements ? `, ${res.settlements} Nexi-Abrechnungen mit Bank abgeglichen` : ''}${res.bulkTransfers ? `, davon ${res.bulkTransfers} Sammelüberweisungen` : ''}${res.partiallyPaid ? `, ${res.partiallyPaid} Rechnungen teilweise bezahlt` : ''}${res.suggested ? `, ${res.suggested} Rechnungen mit Vorschlägen` : ''}${res.providerPayouts ? `, ${res.providerPayouts} PayPal/Stripe/SumUp-Auszahlungen mit Bank abgeglichen` : ''}.`, 'success');
             fetchInvoices();
         } catch (e) {
             showToast('Abgleich fehlgeschlagen', 'error');
@@ -147,6 +166,24 @@ export const Dashboard: React.FC = () => {
         }
     }, [showToast]);
 
+    const handleAcceptSuggestion = useCallback(async (id: number) => {
+        try {
+            await api.acceptSuggestion(id, userName);
+            showToast('Vorschlag übernommen', 'success');
+            fetchInvoices();
+        } catch (e) {
+            showToast(e instanceof Error ? e.message : 'Vorschlag konnte nicht übernommen werden', 'error');
+        }
+    }, [fetchInvoices, showToast, userName]);
+
+    const handleManualMatch = useCallback((inv: Invoice) => setMatchingInvoice(inv), []);
+
+    const handleManualMatchChanged = (message: string) => {
+        setMatchingInvoice(null);
+        showToast(message, 'success');
+        fetchInvoices();
+    };
+
     const sortInvoices = useCallback((invoicesToSort: Invoice[]): Invoice[] => {
         return [...invoicesToSort].sort((a, b) => {
             let aVal: any, bVal: any;
@@ -300,22 +337,40 @@ export const Dashboard: React.FC = () => {
     // Memoize the sorted list used for the "Search Results" view
     const sortedFilteredInvoices = useMemo(() => sortInvoices(filteredInvoices), [filteredInvoices, sortInvoices]);
 
-    const getMatchDetails = (inv: Invoice): string => {
-        if (!inv.matches || inv.matches.length === 0) return '';
-        const match = inv.matches[0];
-
+    const describeMatch = (match: NonNullable<Invoice['matches']>[number]): string => {
+        if (match.creditNote) {
+            return `Gutschrift ${match.creditNote.invoiceNumber}: ${match.creditNote.amount.toFixed(2)}€`;
+        }
         if (match.bookingPayment) {
             return `Booking.com: ${match.bookingPayment.amount.toFixed(2)}€ (Ref: ${match.bookingPayment.referenceNumber})`;
         }
+        if (match.otaPayment) {
+            const channel = match.otaPayment.channel === 'AIRBNB' ? 'Airbnb' : 'Expedia';
+            return `${channel}: ${(match.otaPayment.grossAmount ?? match.otaPayment.amount).toFixed(2)}€ (Ref: ${match.otaPayment.referenceNumber})`;
+        }
+        if (match.providerPayment) {
+            const provider = { PAYPAL: 'PayPal', STRIPE: 'Stripe', SUMUP: 'SumUp' }[match.providerPayment.provider as string] || match.providerPayment.provider;
+            return `${provider}: ${match.providerPayment.grossAmount.toFixed(2)}€ (${match.providerPayment.transactionId})`;
+        }
         if (match.cardPayment) {
             return `Card (${match.cardPayment.cardType}): ${match.cardPayment.amount.toFixed(2)}€ (${new Date(match.cardPayment.transactionDate).toLocaleDateString()})`;
         }
+        if (match.bankTransaction && match.matchType === 'BULK') {
+            return `Sammelüberweisung ${match.bankTransaction.amount.toFixed(2)}€ (${match.bankTransaction.senderReceiver}), davon ${match.amount.toFixed(2)}€`;
+        }
         if (match.bankTransaction) {
             return `Bank: ${match.bankTransaction.amount.toFixed(2)}€ (${match.bankTransaction.senderReceiver})`;
         }
         return "Matched";
     };
 
+    // Split payments and credit notes have several matches, all of them are listed
+    const getMatchDetails = (inv: Invoice): string => {
+        if (!inv.matches || inv.matches.length === 0) return '';
+        const details = inv.matches.map(m => describeMatch(m) + (m.createdBy ? ` (${m.createdBy})` : '')).join(' + ');
+        return inv.matches.every(m => m.creditNote) && Math.abs(openAmount(inv)) < 0.01 ? `Storniert (${details})` : details;
+    };
+
     const SortIcon: React.FC<{ field: SortField }> = ({ field }) => {
         if (sortField !== field) return <span style={{ opacity: 0.3 }}>↕</span>;
         return <span>{sortDirection === 'asc' ? '↑' : '↓'}</span>;
@@ -530,6 +585,8 @@ export const Dashboard: React.FC = () => {
                                         onToggleManual={toggleManual}
                                         onCommentChange={handleCommentChange}
                                         onDunningUpdate={handleDunningUpdate}
+                                        onAcceptSuggestion={handleAcceptSuggestion}
+                                        onManualMatch={handleManualMatch}
                                         getMatchDetails={getMatchDetails}
                                     />
                                 ))}
@@ -593,6 +650,8 @@ export const Dashboard: React.FC = () => {
                                             onToggleManual={toggleManual}
                                             onCommentChange={handleCommentChange}
                                             onDunningUpdate={handleDunningUpdate}
+                                            onAcceptSuggestion={handleAcceptSuggestion}
+                                            onManualMatch={handleManualMatch}
                                             getMatchDetails={getMatchDetails}
                                         />
                                     ))}
@@ -603,6 +662,16 @@ export const Dashboard: React.FC = () => {
                 )
             )}
 
+            {matchingInvoice && (
+                <ManualMatchDialog
+                    invoice={{ ...matchingInvoice, openAmount: openAmount(matchingInvoice) }}
+                    matches={(matchingInvoice.matches || []).map(m => ({ id: m.id, matchType: m.matchType, createdBy: m.createdBy, description: describeMatch(m) }))}
+                    userName={userName}
+                    onClose={() => setMatchingInvoice(null)}
+                    onChanged={handleManualMatchChanged}
+                />
+            )}
+
             {/* Reconciliation Blocking Overlay */}
             {reconciling && (
                 <div style={{
@@ -685,13 +754,16 @@ interface InvoiceRowProps {
     onToggleManual: (id: number, currentStatus: boolean) => void;
     onCommentChange: (id: number, comment: string) => void;
     onDunningUpdate: (id: number, status: string, method: string, date: string) => void;
+    onAcceptSuggestion: (id: number) => void;
+    onManualMatch: (inv: Invoice) => void;
     getMatchDetails: (inv: Invoice) => string;
 }
 
-const InvoiceRow: React.FC<InvoiceRowProps> = React.memo(({ inv, onToggleManual, onCommentChange, onDunningUpdate, getMatchDetails }) => {
+const InvoiceRow: React.FC<InvoiceRowProps> = React.memo(({ inv, onToggleManual, onCommentChange, onDunningUpdate, onAcceptSuggestion, onManualMatch, getMatchDetails }) => {
     // Optimistic UI State
     const [optimisticManualStatus, setOptimisticManualStatus] = useState(inv.manualStatus);
     const [optimisticIsReconciled, setOptimisticIsReconciled] = useState(inv.isReconciled);
+    const [showSuggestions, setShowSuggestions] = useState(false);
 
     // Sync with props when they change (e.g. after refresh or initial load)
     useEffect(() => {
@@ -711,6 +783,9 @@ const InvoiceRow: React.FC<InvoiceRowProps> = React.memo(({ inv, onToggleManual,
         });
     };
 
+    // Partially paid: some payments are matched, the remainder is still open
+    const isPartial = !optimisticIsReconciled && !!inv.matches && inv.matches.length > 0;
+
     // Determine Row Color using Optimistic State
     let rowColor = 'transparent';
     let textColor = 'inherit';
@@ -731,76 +806,128 @@ const InvoiceRow: React.FC<InvoiceRowProps> = React.memo(({ inv, onToggleManual,
         rowColor = '#d1d5db'; // Gray
     }
 
+    const suggestions = !optimisticIsReconciled && !optimisticManualStatus ? inv.suggestions || [] : [];
+
     return (
-        <tr style={{ backgroundColor: rowColor, color: textColor }}>
-            <td>{new Date(inv.invoiceDate).toLocaleDateString('de-DE')}</td>
-            <td>{inv.invoiceNumber}</td>
-            <td>{inv.recipient}</td>
-            <td>{inv.paymentType}</td>
-            <td>{inv.amount.toFixed(2)} €</td>
-            <td>
-                <div className="tooltip-container">
-                    <span className={`status-badge ${optimisticIsReconciled ? 'status-matched' : optimisticManualStatus ? 'status-manual' : 'status-open'}`}>
-                        {optimisticIsReconciled ? (inv.matches && inv.matches.length > 0 ? 'Matched' : 'Manual') : 'Open'}
-                    </span>
-                    {(optimisticIsReconciled || optimisticManualStatus) && (
-                        <div className="tooltip">
-                            {inv.matches && inv.matches.length > 0 ? getMatchDetails(inv) : 'Manuell zugeordnet'}
+        <>
+            <tr style={{ backgroundColor: rowColor, color: textColor }}>
+                <td>{new Date(inv.invoiceDate).toLocaleDateString('de-DE')}</td>
+                <td>
+                    {inv.invoiceNumber}
+                    {inv.originalInvoice && (
+                        <div><small style={{ color: '#6b7280' }}>Gutschrift zu {inv.originalInvoice.invoiceNumber}</small></div>
+                    )}
+                    {inv.creditNotes && inv.creditNotes.length > 0 && (
+                        <div><small style={{ color: '#6b7280' }}>
+                            Gutschrift {inv.creditNotes.map(c => c.invoiceNumber).join(', ')}
+                        </small></div>
+                    )}
+                    {inv.changes && inv.changes.length > 0 && (
+                        <div className="tooltip-container">
+                            <small style={{ color: '#b45309', cursor: 'help' }}>geändert ({inv.changes.length})</small>
+                            <div className="tooltip">
+                                {inv.changes.map(c => (
+                                    <div key={c.id}>
+                                        {new Date(c.changedAt).toLocaleDateString('de-DE')}: {CHANGE_LABELS[c.field] || c.field} {c.oldValue || '-'} → {c.newValue || '-'}
+                                    </div>
+                                ))}
+                            </div>
                         </div>
                     )}
-                </div>
-            </td>
-            <td>
-                <input
-                    type="checkbox"
-                    checked={optimisticIsReconciled || optimisticManualStatus}
-                    onChange={handleToggle}
-                />
-            </td>
-            <td>
-                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                </td>
+                <td>{inv.recipient}</td>
+                <td>{inv.paymentType}</td>
+                <td>
+                    {inv.amount.toFixed(2)} €
+                    {!optimisticIsReconciled && Math.abs(openAmount(inv) - inv.amount) >= 0.01 && (
+                        <div><small style={{ color: '#b45309' }}>offen {openAmount(inv).toFixed(2)} €</small></div>
+                    )}
+                </td>
+                <td>
+                    <div className="tooltip-container">
+                        <span className={`status-badge ${optimisticIsReconciled ? 'status-matched' : optimisticManualStatus || isPartial ? 'status-manual' : 'status-open'}`}>
+                            {optimisticIsReconciled ? (inv.matches && inv.matches.length > 0 ? 'Matched' : 'Manual') : isPartial ? 'Partial' : 'Open'}
+                        </span>
+                        {(optimisticIsReconciled || optimisticManualStatus || isPartial) && (
+                            <div className="tooltip">
+                                {inv.matches && inv.matches.length > 0 ? getMatchDetails(inv) : 'Manuell zugeordnet'}
+                            </div>
+                        )}
+                    </div>
+                    {suggestions.length > 0 && (
+                        <div>
+                            <small style={{ color: '#2563eb', cursor: 'pointer' }} onClick={() => setShowSuggestions(!showSuggestions)}>
+                                {showSuggestions ? '▾' : '▸'} {suggestions.length} Vorschläge ({Math.round(suggestions[0].score * 100)}%)
+                            </small>
+                        </div>
+                    )}
+                    {inv.invoiceType !== 'CREDIT_NOTE' && (
+                        <div>
+                            <small style={{ color: '#2563eb', cursor: 'pointer' }} onClick={() => onManualMatch(inv)}>
+                                {inv.matches && inv.matches.length > 0 ? 'Zuordnung…' : 'Zahlung zuordnen…'}
+                            </small>
+                        </div>
+                    )}
+                </td>
+                <td>
                     <input
-                        type="text"
-                        value={inv.comment || ''}
-                        onChange={(e) => onCommentChange(inv.id, e.target.value)}
-                        placeholder="Kommentar..."
-                        style={{ width: '100%', padding: '0.25rem', border: '1px solid var(--border)', borderRadius: '4px', fontSize: '0.8rem', color: 'black' }}
+                        type="checkbox"
+                        checked={optimisticIsReconciled || optimisticManualStatus}
+                        onChange={handleToggle}
                     />
-                    {/* Dunning / Reminder Controls */}
-                    <div style={{ display: 'flex', gap: '0.25rem' }}>
-                        <select
-                            value={inv.dunningStatus || ''}
-                            onChange={(e) => onDunningUpdate(inv.id, e.target.value, inv.dunningMethod || 'Email', inv.dunningDate || new Date().toISOString())}
-                            style={{ fontSize: '0.75rem', padding: '0.1rem', borderRadius: '3px', border: '1px solid #ccc', maxWidth: '80px', color: 'black' }}
-                        >
-                            <option value="">- Status -</option>
-                            <option value="Prüfen">Prüfen</option>
-                            <option value="Reminder">Erinnerung</option>
-                            <option value="Warning 1">Mahnung 1</option>
-                            <option value="Warning 2">Mahnung 2</option>
-                            <option value="Inkasso">Inkasso</option>
-                        </select>
-                        {inv.dunningStatus && (
-                            <>
-                                <select
-                                    value={inv.dunningMethod || 'Email'}
-                                    onChange={(e) => onDunningUpdate(inv.id, inv.dunningStatus!, e.target.value, inv.dunningDate!)}
-                                    style={{ fontSize: '0.75rem', padding: '0.1rem', borderRadius: '3px', border: '1px solid #ccc', maxWidth: '60px', color: 'black' }}
-                                >
-                                    <option value="Email">Email</option>
-                                    <option value="Post">Post</option>
-                                </select>
-                                <input
-                                    type="date"
-                                    value={inv.dunningDate ? new Date(inv.dunningDate).toISOString().split('T')[0] : ''}
-                                    onChange={(e) => onDunningUpdate(inv.id, inv.dunningStatus!, inv.dunningMethod!, e.target.value)}
-                                    style={{ fontSize: '0.75rem', padding: '0.1rem', borderRadius: '3px', border: '1px solid #ccc', width: '80px', color: 'black' }}
-                                />
-                            </>
-                        )}
+                </td>
+                <td>
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+                        <input
+                            type="text"
+                            value={inv.comment || ''}
+                            onChange={(e) => onCommentChange(inv.id, e.target.value)}
+                            placeholder="Kommentar..."
+                            style={{ width: '100%', padding: '0.25rem', border: '1px solid var(--border)', borderRadius: '4px', fontSize: '0.8rem', color: 'black' }}
+                        />
+                        {/* Dunning / Reminder Controls */}
+                        <div style={{ display: 'flex', gap: '0.25rem' }}>
+                            <select
+                                value={inv.dunningStatus || ''}
+                                onChange={(e) => onDunningUpdate(inv.id, e.target.value, inv.dunningMethod || 'Email', inv.dunningDate || new Date().toISOString())}
+                                style={{ fontSize: '0.75rem', padding: '0.1rem', borderRadius: '3px', border: '1px solid #ccc', maxWidth: '80px', color: 'black' }}
+                            >
+                                <option value="">- Status -</option>
+                                <option value="Prüfen">Prüfen</option>
+                                <option value="Reminder">Erinnerung</option>
+                                <option value="Warning 1">Mahnung 1</option>
+                                <option value="Warning 2">Mahnung 2</option>
+                                <option value="Inkasso">Inkasso</option>
+                            </select>
+                            {inv.dunningStatus && (
+                                <>
+                                    <select
+                                        value={inv.dunningMethod || 'Email'}
+                                        onChange={(e) => onDunningUpdate(inv.id, inv.dunningStatus!, e.target.value, inv.dunningDate!)}
+                                        style={{ fontSize: '0.75rem', padding: '0.1rem', borderRadius: '3px', border: '1px solid #ccc', maxWidth: '60px', color: 'black' }}
+                                    >
+                                        <option value="Email">Email</option>
+                                        <option value="Post">Post</option>
+                                    </select>
+                                    <input
+                                        type="date"
+                                        value={inv.dunningDate ? new Date(inv.dunningDate).toISOString().split('T')[0] : ''}
+                                        onChange={(e) => onDunningUpdate(inv.id, inv.dunningStatus!, inv.dunningMethod!, e.target.value)}
+                                        style={{ fontSize: '0.75rem', padding: '0.1rem', borderRadius: '3px', border: '1px solid #ccc', width: '80px', color: 'black' }}
+                                    />
+                                </>
+                            )}
+                        </div>
                     </div>
-                </div>
-            </td>
-        </tr>
+                </td>
+            </tr>
+            {showSuggestions && suggestions.length > 0 && (
+                <tr>
+                    <td colSpan={8} style={{ background: '#f9fafb' }}>
+                        <MatchSuggestions suggestions={suggestions} onAccept={onAcceptSuggestion} />
+                    </td>
+                </tr>
+            )}
+        </>
     );
 });
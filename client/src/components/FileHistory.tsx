@@ -1,5 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import { api } from '../api';
+import { ImportErrorReport } from './ImportErrorReport';
+import { RollbackDialog } from './RollbackDialog';
 
 interface ImportedFile {
     id: number;
@@ -11,16 +13,44 @@ interface ImportedFile {
     dateRangeStart: string | null;
     dateRangeEnd: string | null;
     logs?: string;
+    rowErrorCount?: number;
+}
+
+interface InboxStatus {
+    enabled: boolean;
+    inboxDir: string | null;
+    lastScan: string | null;
+    recent: { file: string; status: 'archived' | 'failed'; message: string; date: string }[];
 }
 
 export const FileHistory: React.FC = () => {
     const [files, setFiles] = useState<ImportedFile[]>([]);
     const [visibleCount, setVisibleCount] = useState(5);
+    const [errorFile, setErrorFile] = useState<ImportedFile | null>(null);
+    const [rollbackFile, setRollbackFile] = useState<ImportedFile | null>(null);
+    const [inbox, setInbox] = useState<InboxStatus | null>(null);
+    const [scanning, setScanning] = useState(false);
+
+    const loadFiles = () => api.getFiles().then(setFiles).catch(console.error);
 
     useEffect(() => {
-        api.getFiles().then(setFiles).catch(console.error);
+        loadFiles();
+        api.getInboxStatus().then(setInbox).catch(console.error);
     }, []);
 
+    const scanInbox = async () => {
+        setScanning(true);
+        try {
+            setInbox(await api.scanInbox());
+            loadFiles();
+        } catch (err) {
+            console.error('Inbox scan error:', err);
+            alert('Inbox scan failed.');
+        } finally {
+            setScanning(false);
+        }
+    };
+
     const showLogs = (logs?: string) => {
         if (!logs) return alert("No logs available.");
         try {
@@ -40,6 +70,22 @@ export const FileHistory: React.FC = () => {
     return (
         <div className="card" style={{ marginTop: '2rem' }}>
             <h3>Upload History</h3>
+            {inbox?.enabled && (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '1rem', fontSize: '0.85rem', color: 'var(--text-secondary)' }}>
+                    <span>
+                        Inbox folder <code>{inbox.inboxDir}</code>
+                        {inbox.lastScan && <> · last checked {new Date(inbox.lastScan).toLocaleTimeString()}</>}
+                        {inbox.recent.filter(r => r.status === 'failed').length > 0 && (
+                            <span style={{ color: '#991b1b' }} title={inbox.recent.filter(r => r.status === 'failed').map(r => `${r.file}: ${r.message}`).join('\n')}>
+                                {' '}· {inbox.recent.filter(r => r.status === 'failed').length} recently failed
+                            </span>
+                        )}
+                    </span>
+                    <button className="btn" onClick={scanInbox} disabled={scanning} style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem' }}>
+                        {scanning ? 'Checking...' : 'Check Inbox Now'}
+                    </button>
+                </div>
+            )}
             <div className="table-container">
                 <table>
                     <thead>
@@ -67,7 +113,12 @@ export const FileHistory: React.FC = () => {
                                         {file.type}
                                     </span>
                                 </td>
-                                <td>{file.recordCount}</td>
+                                <td>
+                                    {file.recordCount}
+                                    {!!file.rowErrorCount && (
+                                        <div><small style={{ color: '#b45309' }}>{file.rowErrorCount} skipped</small></div>
+                                    )}
+                                </td>
                                 <td>
                                     {file.dateRangeStart ? new Date(file.dateRangeStart).toLocaleDateString() : '-'}
                                     {' - '}
@@ -75,9 +126,19 @@ export const FileHistory: React.FC = () => {
                                 </td>
                                 <td>{new Date(file.importDate).toLocaleString()}</td>
                                 <td>
-                                    <button className="btn" onClick={() => showLogs(file.logs)} style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem' }}>
-                                        View Logs
-                                    </button>
+                                    <div style={{ display: 'flex', gap: '0.25rem' }}>
+                                        <button className="btn" onClick={() => showLogs(file.logs)} style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem' }}>
+                                            View Logs
+                                        </button>
+                                        {!!file.rowErrorCount && (
+                                            <button className="btn" onClick={() => setErrorFile(file)} style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem', backgroundColor: '#fef3c7', color: '#92400e' }}>
+                                                Skipped Rows ({file.rowErrorCount})
+                                            </button>
+                                        )}
+                                        <button className="btn" onClick={() => setRollbackFile(file)} style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem', backgroundColor: '#fee2e2', color: '#991b1b' }}>
+                                            Roll Back
+                                        </button>
+                                    </div>
                                 </td>
                             </tr>
                         ))}
@@ -91,6 +152,24 @@ export const FileHistory: React.FC = () => {
                     </button>
                 </div>
             )}
+            {errorFile && (
+                <ImportErrorReport
+                    fileId={errorFile.id}
+                    fileName={errorFile.originalName}
+                    onClose={() => setErrorFile(null)}
+                />
+            )}
+            {rollbackFile && (
+                <RollbackDialog
+                    fileId={rollbackFile.id}
+                    fileName={rollbackFile.originalName}
+                    onClose={() => setRollbackFile(null)}
+                    onRolledBack={() => {
+                        setRollbackFile(null);
+                        loadFiles();
+                    }}
+                />
+            )}
         </div>
     );
 };
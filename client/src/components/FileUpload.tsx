@@ -1,20 +1,42 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { api } from '../api';
 import { Toast } from './Toast';
 import type { ToastProps } from './Toast';
+import { ImportPreview } from './ImportPreview';
+import type { StagedPreview } from './ImportPreview';
 
 interface FileUploadProps {
     onUploadComplete?: () => void;
 }
 
+// Character sets the server can decode; empty = automatic detection (BOM / UTF-8 / Windows-1252)
+const ENCODINGS = [
+    { value: '', label: 'Automatisch erkennen' },
+    { value: 'utf-8', label: 'UTF-8' },
+    { value: 'windows-1252', label: 'Windows-1252 (ANSI)' },
+    { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+    { value: 'iso-8859-15', label: 'ISO-8859-15' },
+    { value: 'utf-16le', label: 'UTF-16' }
+];
+
 export const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
     const [uploading, setUploading] = useState(false);
     const [toast, setToast] = useState<Omit<ToastProps, 'onClose'> | null>(null);
+    const [previews, setPreviews] = useState<StagedPreview[] | null>(null);
+    const [committing, setCommitting] = useState(false);
+    const [encoding, setEncoding] = useState('');
+    const [fileTypes, setFileTypes] = useState<{ type: string; label: string }[]>([]);
+    const [fileType, setFileType] = useState('');
+
+    useEffect(() => {
+        api.getFileTypes().then(setFileTypes).catch(console.error);
+    }, []);
 
     const showToast = (message: string, type: 'success' | 'error' | 'info') => {
         setToast({ message, type });
     };
 
+    // Step 1: upload and parse only (dry run), then show the preview
     const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const files = e.target.files;
         if (!files || files.length === 0) return;
@@ -22,11 +44,8 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
         setUploading(true);
         try {
             const fileArray = Array.from(files);
-            const res = await api.uploadFiles(fileArray);
-            showToast(`Upload abgeschlossen! ${res.results.length} Datei(en) verarbeitet.`, 'success');
-            if (onUploadComplete) {
-                onUploadComplete();
-            }
+            const res = await api.previewUpload(fileArray, encoding || undefined, fileType || undefined);
+            setPreviews(res.previews);
         } catch (err) {
             console.error('Upload error:', err);
             showToast('Upload fehlgeschlagen', 'error');
@@ -36,6 +55,37 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
         }
     };
 
+    // Step 2: commit the confirmed files, discard the rest
+    const handleConfirm = async (importable: StagedPreview[]) => {
+        if (!previews) return;
+        setCommitting(true);
+        try {
+            const res = await api.commitUpload(importable.map(p => ({ stagedFile: p.stagedFile!, originalName: p.originalName, encoding: encoding || undefined, type: fileType || undefined })));
+            await Promise.all(previews
+                .filter(p => p.stagedFile && !importable.includes(p))
+                .map(p => api.discardUpload(p.stagedFile!)));
+            const duplicates = res.results.reduce((sum: number, r: { duplicates?: number }) => sum + (r.duplicates || 0), 0);
+            const skipped = res.results.reduce((sum: number, r: { skipped?: number }) => sum + (r.skipped || 0), 0);
+            showToast(`Upload abgeschlossen! ${res.results.length} Datei(en) verarbeitet.${duplicates ? ` ${duplicates} doppelte Zeilen übersprungen.` : ''}${skipped ? ` ${skipped} fehlerhafte Zeilen (siehe Upload History).` : ''}`, 'success');
+            setPreviews(null);
+            if (onUploadComplete) {
+                onUploadComplete();
+            }
+        } catch (err) {
+            console.error('Import error:', err);
+            showToast('Import fehlgeschlagen', 'error');
+        } finally {
+            setCommitting(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!previews) return;
+        await Promise.all(previews.filter(p => p.stagedFile).map(p => api.discardUpload(p.stagedFile!)));
+        setPreviews(null);
+        showToast('Import abgebrochen, es wurde nichts gespeichert.', 'info');
+    };
+
     return (
         <>
             {/* Blocking overlay during upload */}
@@ -61,7 +111,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
                         borderRadius: '50%',
                         animation: 'spin 0.8s linear infinite'
                     }} />
-                    <div>Dateien werden hochgeladen...</div>
+                    <div>Dateien werden hochgeladen und geprüft...</div>
                     <div style={{ fontSize: '0.9rem', opacity: 0.8, fontWeight: 'normal' }}>
                         Bitte warten und nicht wegklicken.
                     </div>
@@ -70,9 +120,31 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onUploadComplete }) => {
 
             <div className="card">
                 <h2>Upload Files</h2>
-                <input type="file" multiple accept=".csv" onChange={handleUpload} disabled={uploading} />
+                <input type="file" multiple accept=".csv,.xlsx,.xls,.xml,.sta,.mt940,.txt" onChange={handleUpload} disabled={uploading} />
+                <label style={{ display: 'block', marginTop: '0.75rem', fontSize: '0.85rem', color: '#6b7280' }}>
+                    Zeichensatz:{' '}
+                    <select value={encoding} onChange={(e) => setEncoding(e.target.value)} disabled={uploading}>
+                        {ENCODINGS.map(enc => <option key={enc.value} value={enc.value}>{enc.label}</option>)}
+                    </select>
+                </label>
+                <label style={{ display: 'block', marginTop: '0.5rem', fontSize: '0.85rem', color: '#6b7280' }}>
+                    Dateityp:{' '}
+                    <select value={fileType} onChange={(e) => setFileType(e.target.value)} disabled={uploading}>
+                        <option value="">Automatisch erkennen</option>
+                        {fileTypes.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+                    </select>
+                </label>
                 {toast && <Toast {...toast} onClose={() => setToast(null)} />}
             </div>
+
+            {previews && (
+                <ImportPreview
+                    previews={previews}
+                    committing={committing}
+                    onConfirm={handleConfirm}
+                    onCancel={handleCancel}
+                />
+            )}
         </>
     );
 };
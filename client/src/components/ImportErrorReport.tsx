@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api';
+
+interface ImportRowError {
+    id: number;
+    row: number;
+    field: string | null;
+    reason: string;
+    raw: string[] | null;
+}
+
+interface ImportErrorReportProps {
+    fileId: number;
+    fileName: string;
+    onClose: () => void;
+}
+
+// Lists the rows of an imported file that were skipped or failed to parse
+export const ImportErrorReport: React.FC<ImportErrorReportProps> = ({ fileId, fileName, onClose }) => {
+    const [errors, setErrors] = useState<ImportRowError[] | null>(null);
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        api.getFileErrors(fileId).then(setErrors).catch(err => {
+            console.error(err);
+            setFailed(true);
+        });
+    }, [fileId]);
+
+    return (
+        <div style={{
+            position: 'fixed', inset: 0,
+            backgroundColor: 'rgba(0,0,0,0.5)',
+            zIndex: 9998,
+            display: 'flex', alignItems: 'center', justifyContent: 'center'
+        }}>
+            <div className="card" style={{ width: '90vw', maxWidth: '1000px', maxHeight: '85vh', overflowY: 'auto', padding: '1.5rem' }}>
+                <h3 style={{ marginBottom: '0.5rem' }}>Skipped Rows</h3>
+                <p style={{ marginBottom: '1rem', fontSize: '0.9rem', color: '#6b7280' }}>{fileName}</p>
+
+                {failed && <div style={{ color: '#991b1b' }}>Failed to load the error report.</div>}
+                {!errors && !failed && <div>Loading...</div>}
+                {errors && errors.length === 0 && <div>No rows were skipped.</div>}
+                {errors && errors.length > 0 && (
+                    <div className="table-container">
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th>Row</th>
+                                    <th>Field</th>
+                                    <th>Reason</th>
+                                    <th>Raw Data</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {errors.map(e => (
+                                    <tr key={e.id}>
+                                        <td>{e.row}</td>
+                                        <td>{e.field || '-'}</td>
+                                        <td>{e.reason}</td>
+                                        <td style={{ fontSize: '0.75rem', color: '#6b7280', wordBreak: 'break-all' }}>{e.raw ? e.raw.join(' | ') : '-'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '1rem' }}>
+                    <button className="btn" onClick={onClose}>Close</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,158 @@
+import React from 'react';
+
+export interface SkippedRow {
+    row: number;
+    field?: string;
+    reason: string;
+    raw?: string[];
+}
+
+export interface StagedPreview {
+    stagedFile?: string;
+    originalName: string;
+    status: 'staged' | 'error';
+    error?: string;
+    type?: string;
+    count?: number;
+    duplicates?: number;
+    encoding?: string;
+    logs?: string[];
+    dateRangeStart?: string;
+    dateRangeEnd?: string;
+    preview?: {
+        header: string[];
+        columnMapping: Record<string, number>;
+        rows: Record<string, unknown>[];
+        skipped: SkippedRow[];
+    };
+}
+
+interface ImportPreviewProps {
+    previews: StagedPreview[];
+    committing: boolean;
+    onConfirm: (importable: StagedPreview[]) => void;
+    onCancel: () => void;
+}
+
+const formatCell = (value: unknown): string => {
+    if (value === null || value === undefined) return '-';
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+        return new Date(value).toLocaleDateString('de-DE');
+    }
+    if (typeof value === 'number') return value.toFixed(2);
+    return String(value);
+};
+
+const isImportable = (p: StagedPreview) => p.status === 'staged' && p.type !== 'UNKNOWN' && (p.count ?? 0) > 0;
+
+export const ImportPreview: React.FC<ImportPreviewProps> = ({ previews, committing, onConfirm, onCancel }) => {
+    const importable = previews.filter(isImportable);
+
+    return (
+        <div style={{
+            position: 'fixed', inset: 0,
+            backgroundColor: 'rgba(0,0,0,0.5)',
+            zIndex: 9998,
+            display: 'flex', alignItems: 'center', justifyContent: 'center'
+        }}>
+            <div className="card" style={{ width: '90vw', maxWidth: '1100px', maxHeight: '85vh', overflowY: 'auto', padding: '1.5rem' }}>
+                <h3 style={{ marginBottom: '1rem' }}>Import-Vorschau</h3>
+                <p style={{ marginBottom: '1rem', fontSize: '0.9rem', color: '#6b7280' }}>
+                    Die Dateien wurden nur gelesen, es wurde noch nichts gespeichert. Bitte Zuordnung und Zeilen prüfen und den Import bestätigen.
+                </p>
+
+                {previews.map(p => (
+                    <div key={p.stagedFile || p.originalName} style={{ borderTop: '1px solid var(--border)', paddingTop: '1rem', marginBottom: '1.5rem' }}>
+                        <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', marginBottom: '0.5rem' }}>
+                            <strong>{p.originalName}</strong>
+                            {p.type && (
+                                <span className="status-badge" style={{
+                                    background: p.type === 'UNKNOWN' ? '#fef2f2' : '#e0f2fe',
+                                    color: p.type === 'UNKNOWN' ? '#991b1b' : '#0369a1'
+                                }}>
+                                    {p.type}
+                                </span>
+                            )}
+                            {p.status === 'staged' && (
+                                <span style={{ fontSize: '0.85rem', color: '#6b7280' }}>
+                                    {p.count} neue Zeilen
+                                    {!!p.duplicates && ` · ${p.duplicates} Duplikate (bereits importiert)`}
+                                    {p.encoding && ` · Zeichensatz: ${p.encoding}`}
+                                    {p.dateRangeStart && ` · ${new Date(p.dateRangeStart).toLocaleDateString('de-DE')} - ${p.dateRangeEnd ? new Date(p.dateRangeEnd).toLocaleDateString('de-DE') : '-'}`}
+                                </span>
+                            )}
+                        </div>
+
+                        {p.status === 'error' && (
+                            <div style={{ color: '#991b1b', fontSize: '0.9rem' }}>
+                                Fehler: {p.error}
+                                {(p.error?.includes('Ambiguous file') || p.error?.includes('known export')) && <div>Tipp: Dateityp beim Upload manuell auswählen.</div>}
+                            </div>
+                        )}
+                        {p.logs?.filter(l => l.startsWith('Detection:') || l.startsWith('Type forced:')).map(l => (
+                            <div key={l} style={{ fontSize: '0.8rem', color: '#6b7280', marginBottom: '0.5rem' }}>{l}</div>
+                        ))}
+                        {p.type === 'UNKNOWN' && (
+                            <div style={{ color: '#991b1b', fontSize: '0.9rem' }}>Dateityp nicht erkannt – diese Datei wird nicht importiert.</div>
+                        )}
+
+                        {p.preview && (
+                            <>
+                                {p.preview.header.length > 0 && <div style={{ fontSize: '0.8rem', marginBottom: '0.5rem' }}>
+                                    <strong>Spaltenzuordnung: </strong>
+                                    {Object.entries(p.preview.columnMapping).map(([field, idx]) => (
+                                        <span key={field} style={{ marginRight: '1rem', color: idx === -1 ? '#991b1b' : 'inherit' }}>
+                                            {field} → {idx === -1 ? 'nicht gefunden' : (p.preview!.header[idx] || `Spalte ${idx + 1}`)}
+                                        </span>
+                                    ))}
+                                </div>}
+
+                                {p.preview.rows.length > 0 && (
+                                    <div className="table-container" style={{ marginBottom: '0.5rem' }}>
+                                        <table>
+                                            <thead>
+                                                <tr>
+                                                    {Object.keys(p.preview.rows[0]).map(key => <th key={key}>{key}</th>)}
+                                                </tr>
+                                            </thead>
+                                            <tbody>
+                                                {p.preview.rows.map((row, i) => (
+                                                    <tr key={i}>
+                                                        {Object.keys(p.preview!.rows[0]).map(key => <td key={key}>{formatCell(row[key])}</td>)}
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                    </div>
+                                )}
+
+                                {p.preview.skipped.length > 0 && (
+                                    <details style={{ fontSize: '0.8rem' }}>
+                                        <summary style={{ cursor: 'pointer', color: '#b45309' }}>
+                                            {p.preview.skipped.length} Zeile(n) übersprungen
+                                        </summary>
+                                        <ul style={{ marginTop: '0.5rem' }}>
+                                            {p.preview.skipped.map(s => (
+                                                <li key={s.row}>
+                                                    Zeile {s.row}{s.field && ` (${s.field})`}: {s.reason}
+                                                    {s.raw && <span style={{ color: '#6b7280' }}> ({s.raw.join(' | ')})</span>}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </details>
+                                )}
+                            </>
+                        )}
+                    </div>
+                ))}
+
+                <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end' }}>
+                    <button className="btn" onClick={onCancel} disabled={committing}>Abbrechen</button>
+                    <button className="btn btn-primary" onClick={() => onConfirm(importable)} disabled={importable.length === 0 || committing}>
+                        {committing ? 'Importiere...' : `${importable.length} Datei(en) importieren`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api';
+
+interface UnmatchedPayment {
+    type: string;
+    id: number;
+    date: string;
+    amount: number;
+    description: string;
+}
+
+export interface ExistingMatch {
+    id: number;
+    matchType: string;
+    createdBy: string | null;
+    description: string;
+}
+
+interface ManualMatchDialogProps {
+    invoice: { id: number; invoiceNumber: string; recipient: string; invoiceDate: string; openAmount: number };
+    matches: ExistingMatch[];
+    userName: string;
+    onClose: () => void;
+    onChanged: (message: string) => void;
+}
+
+const PAYMENT_TYPES: [string, string][] = [['bank', 'Banküberweisung'], ['card', 'Karte (Nexi)'], ['booking', 'Booking.com']];
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+const shiftDays = (date: string, days: number) => {
+    const d = new Date(date);
+    d.setDate(d.getDate() + days);
+    return toDateInput(d);
+};
+// The open amount, from a month before the invoice to two months after (transfers arrive late)
+const defaultAmount = (openAmount: number) => openAmount > 0 ? openAmount.toFixed(2) : '';
+const defaultFrom = (invoiceDate: string) => shiftDays(invoiceDate, -30);
+const defaultTo = (invoiceDate: string) => shiftDays(invoiceDate, 60);
+
+// Link an invoice to an unmatched payment by hand, or remove one of its matches
+export const ManualMatchDialog: React.FC<ManualMatchDialogProps> = ({ invoice, matches, userName, onClose, onChanged }) => {
+    const [type, setType] = useState('bank');
+    const [amount, setAmount] = useState(defaultAmount(invoice.openAmount));
+    const [from, setFrom] = useState(defaultFrom(invoice.invoiceDate));
+    const [to, setTo] = useState(defaultTo(invoice.invoiceDate));
+    const [text, setText] = useState('');
+    const [payments, setPayments] = useState<UnmatchedPayment[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const search = async (searchType = type) => {
+        setError(null);
+        try {
+            setPayments(await api.searchUnmatchedPayments({ type: searchType, amount, from, to, q: text }));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Suche fehlgeschlagen');
+        }
+    };
+
+    useEffect(() => {
+        api.searchUnmatchedPayments({ type: 'bank', amount: defaultAmount(invoice.openAmount), from: defaultFrom(invoice.invoiceDate), to: defaultTo(invoice.invoiceDate) })
+            .then(setPayments)
+            .catch(e => setError(e instanceof Error ? e.message : 'Suche fehlgeschlagen'));
+    }, [invoice.openAmount, invoice.invoiceDate]);
+
+    const handleMatch = async (payment: UnmatchedPayment) => {
+        setBusy(true);
+        try {
+            const result = await api.createManualMatch(invoice.id, payment.type, payment.id, userName);
+            onChanged(result.reconciled ? `${invoice.invoiceNumber} zugeordnet` : `${invoice.invoiceNumber}: Teilzahlung zugeordnet, Rest bleibt offen`);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Zuordnung fehlgeschlagen');
+            setBusy(false);
+        }
+    };
+
+    const handleUnmatch = async (match: ExistingMatch) => {
+        if (!confirm(`Zuordnung "${match.description}" lösen? Die Rechnung ist danach wieder offen.`)) return;
+        setBusy(true);
+        try {
+            await api.removeMatch(match.id);
+            onChanged(`Zuordnung von ${invoice.invoiceNumber} gelöst`);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Lösen fehlgeschlagen');
+            setBusy(false);
+        }
+    };
+
+    const inputStyle: React.CSSProperties = { padding: '0.3rem', border: '1px solid var(--border)', borderRadius: '4px', color: 'black' };
+    const paymentMatches = matches.filter(m => m.matchType !== 'CREDIT_NOTE');
+
+    return (
+        <div style={{
+            position: 'fixed', inset: 0,
+            backgroundColor: 'rgba(0,0,0,0.5)',
+            zIndex: 9998,
+            display: 'flex', alignItems: 'center', justifyContent: 'center'
+        }}>
+            <div className="card" style={{ width: '90vw', maxWidth: '900px', maxHeight: '85vh', overflowY: 'auto', padding: '1.5rem' }}>
+                <h3 style={{ marginBottom: '0.5rem' }}>Zahlung zuordnen</h3>
+                <p style={{ marginBottom: '1rem', fontSize: '0.9rem', color: '#6b7280' }}>
+                    {invoice.invoiceNumber} · {invoice.recipient} · {new Date(invoice.invoiceDate).toLocaleDateString('de-DE')} · offen {invoice.openAmount.toFixed(2)} €
+                </p>
+
+                {error && <div style={{ color: '#991b1b', marginBottom: '1rem' }}>{error}</div>}
+
+                {paymentMatches.length > 0 && (
+                    <div style={{ marginBottom: '1rem' }}>
+                        <strong style={{ fontSize: '0.9rem' }}>Zugeordnete Zahlungen</strong>
+                        {paymentMatches.map(m => (
+                            <div key={m.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem', fontSize: '0.85rem', padding: '0.25rem 0' }}>
+                                <span>
+                                    {m.description}
+                                    <small style={{ color: '#6b7280' }}> · {m.matchType}{m.createdBy ? ` von ${m.createdBy}` : ''}</small>
+                                </span>
+                                <button className="btn" disabled={busy} onClick={() => handleUnmatch(m)} style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem', backgroundColor: '#fee2e2', color: '#991b1b' }}>
+                                    Lösen
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                <form
+                    onSubmit={(e) => { e.preventDefault(); search(); }}
+                    style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'flex-end', marginBottom: '1rem', fontSize: '0.85rem' }}
+                >
+                    <label>
+                        Zahlungsart<br />
+                        <select value={type} onChange={(e) => { setType(e.target.value); search(e.target.value); }} style={inputStyle}>
+                            {PAYMENT_TYPES.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        Betrag (€)<br />
+                        <input type="number" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} style={{ ...inputStyle, width: '100px' }} />
+                    </label>
+                    <label>
+                        Von<br />
+                        <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} style={inputStyle} />
+                    </label>
+                    <label>
+                        Bis<br />
+                        <input type="date" value={to} onChange={(e) => setTo(e.target.value)} style={inputStyle} />
+                    </label>
+                    <label style={{ flex: 1 }}>
+                        Text (Name, Verwendungszweck, Referenz)<br />
+                        <input type="text" value={text} onChange={(e) => setText(e.target.value)} style={{ ...inputStyle, width: '100%' }} />
+                    </label>
+                    <button type="submit" className="btn">Suchen</button>
+                </form>
+
+                {payments === null && !error && <div>Loading...</div>}
+                {payments && payments.length === 0 && (
+                    <p style={{ fontSize: '0.9rem', color: '#6b7280' }}>Keine offenen Zahlungen gefunden. Betrag leeren oder Zeitraum erweitern.</p>
+                )}
+                {payments && payments.length > 0 && (
+                    <div className="table-container">
+                        <table style={{ fontSize: '0.85rem' }}>
+                            <thead>
+                                <tr>
+                                    <th>Datum</th>
+                                    <th>Betrag</th>
+                                    <th>Details</th>
+                                    <th></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {payments.map(p => (
+                                    <tr key={`${p.type}-${p.id}`}>
+                                        <td>{new Date(p.date).toLocaleDateString('de-DE')}</td>
+                                        <td>{p.amount.toFixed(2)} €</td>
+                                        <td>{p.description}</td>
+                                        <td>
+                                            <button className="btn btn-primary" disabled={busy} onClick={() => handleMatch(p)} style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem' }}>
+                                                Zuordnen
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '1rem' }}>
+                    <button className="btn" onClick={onClose}>Schließen</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api';
+import { Toast } from './Toast';
+import type { ToastProps } from './Toast';
+
+interface FieldDefinition {
+    field: string;
+    label: string;
+    required: boolean;
+}
+
+interface MappingProfile {
+    id?: number;
+    name: string;
+    source: string;
+    fields: Record<string, string[]>;
+}
+
+// Profile being edited, header names kept as raw text until saved
+interface ProfileDraft {
+    id?: number;
+    name: string;
+    source: string;
+    fieldText: Record<string, string>;
+}
+
+interface MappingData {
+    fields: Record<string, FieldDefinition[]>;
+    defaults: Record<string, Record<string, string[]>>;
+    profiles: MappingProfile[];
+}
+
+// Header names are edited as a comma separated list
+const toText = (aliases?: string[]) => (aliases || []).join(', ');
+const toList = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+
+export const MappingProfiles: React.FC = () => {
+    const [data, setData] = useState<MappingData | null>(null);
+    const [editing, setEditing] = useState<ProfileDraft | null>(null);
+    const [toast, setToast] = useState<Omit<ToastProps, 'onClose'> | null>(null);
+
+    const load = () => api.getMappingProfiles().then(setData).catch(console.error);
+
+    useEffect(() => {
+        load();
+    }, []);
+
+    const startEdit = (profile: MappingProfile) => {
+        const fieldText: Record<string, string> = {};
+        Object.entries(profile.fields).forEach(([field, aliases]) => { fieldText[field] = toText(aliases); });
+        setEditing({ id: profile.id, name: profile.name, source: profile.source, fieldText });
+    };
+
+    const startNew = (source: string) => {
+        if (!data) return;
+        startEdit({ name: '', source, fields: data.defaults[source] });
+    };
+
+    const handleSave = async () => {
+        if (!editing) return;
+        const fields: Record<string, string[]> = {};
+        Object.entries(editing.fieldText).forEach(([field, text]) => { fields[field] = toList(text); });
+        try {
+            await api.saveMappingProfile({ id: editing.id, name: editing.name, source: editing.source, fields });
+            setToast({ message: 'Profil gespeichert', type: 'success' });
+            setEditing(null);
+            load();
+        } catch (e) {
+            setToast({ message: e instanceof Error ? e.message : 'Speichern fehlgeschlagen', type: 'error' });
+        }
+    };
+
+    const handleDelete = async (profile: MappingProfile) => {
+        if (!profile.id || !confirm(`Profil "${profile.name}" löschen?`)) return;
+        try {
+            await api.deleteMappingProfile(profile.id);
+            load();
+        } catch {
+            setToast({ message: 'Löschen fehlgeschlagen', type: 'error' });
+        }
+    };
+
+    if (!data) return <div className="card">Loading...</div>;
+
+    return (
+        <div className="card">
+            <h3>Spaltenzuordnung (Mapping-Profile)</h3>
+            <p style={{ fontSize: '0.9rem', color: '#6b7280', marginBottom: '1rem' }}>
+                Beim Import wird anhand der Kopfzeile automatisch das erste passende Profil gewählt. Das Standard-Profil wird immer zuletzt versucht.
+                Nicht angegebene Felder verwenden die Standard-Spaltennamen.
+            </p>
+
+            {Object.keys(data.fields).map(source => (
+                <div key={source} style={{ marginBottom: '1.5rem' }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '1rem', marginBottom: '0.5rem' }}>
+                        <h4 style={{ margin: 0 }}>{source}</h4>
+                        <button className="btn" onClick={() => startNew(source)} style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem' }}>
+                            + Neues Profil
+                        </button>
+                    </div>
+                    <div className="table-container">
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th>Profil</th>
+                                    {data.fields[source].map(def => (
+                                        <th key={def.field}>{def.label}{def.required && ' *'}</th>
+                                    ))}
+                                    <th>Actions</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {[...data.profiles.filter(p => p.source === source), { name: 'Standard', source, fields: data.defaults[source] }].map(profile => (
+                                    <tr key={profile.id ?? 'default'}>
+                                        <td>{profile.name}</td>
+                                        {data.fields[source].map(def => (
+                                            <td key={def.field} style={{ fontSize: '0.8rem' }}>{toText(profile.fields[def.field]) || '-'}</td>
+                                        ))}
+                                        <td>
+                                            {profile.id && (
+                                                <div style={{ display: 'flex', gap: '0.25rem' }}>
+                                                    <button className="btn" onClick={() => startEdit(profile)} style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem' }}>Bearbeiten</button>
+                                                    <button className="btn" onClick={() => handleDelete(profile)} style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem', backgroundColor: '#fee2e2', color: '#991b1b' }}>Löschen</button>
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            ))}
+
+            {editing && (
+                <div style={{
+                    position: 'fixed', inset: 0,
+                    backgroundColor: 'rgba(0,0,0,0.5)',
+                    zIndex: 9998,
+                    display: 'flex', alignItems: 'center', justifyContent: 'center'
+                }}>
+                    <div className="card" style={{ minWidth: '420px', maxWidth: '640px', padding: '1.5rem' }}>
+                        <h3 style={{ marginBottom: '1rem' }}>{editing.id ? 'Profil bearbeiten' : 'Neues Profil'} ({editing.source})</h3>
+                        <label style={{ display: 'block', marginBottom: '0.75rem' }}>
+                            Name
+                            <input
+                                type="text"
+                                value={editing.name}
+                                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                                style={{ width: '100%', padding: '0.4rem', border: '1px solid var(--border)', borderRadius: '4px' }}
+                            />
+                        </label>
+                        {data.fields[editing.source].map(def => (
+                            <label key={def.field} style={{ display: 'block', marginBottom: '0.75rem', fontSize: '0.9rem' }}>
+                                {def.label}{def.required && ' *'} <small style={{ color: '#6b7280' }}>(Spaltennamen, durch Komma getrennt)</small>
+                                <input
+                                    type="text"
+                                    value={editing.fieldText[def.field] || ''}
+                                    onChange={(e) => setEditing({ ...editing, fieldText: { ...editing.fieldText, [def.field]: e.target.value } })}
+                                    style={{ width: '100%', padding: '0.4rem', border: '1px solid var(--border)', borderRadius: '4px' }}
+                                />
+                            </label>
+                        ))}
+                        <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end' }}>
+                            <button className="btn" onClick={() => setEditing(null)}>Abbrechen</button>
+                            <button className="btn btn-primary" onClick={handleSave} disabled={!editing.name}>Speichern</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+        </div>
+    );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+
+export interface MatchSuggestion {
+    id: number;
+    rank: number;
+    score: number;
+    factors: { factor: string; score: number; points: number; detail: string }[];
+    bookingPayment: { referenceNumber: string; amount: number; grossAmount: number | null; payoutDate: string } | null;
+    otaPayment: { channel: string; referenceNumber: string; amount: number; grossAmount: number | null; payoutDate: string } | null;
+    providerPayment: { provider: string; transactionId: string; grossAmount: number; transactionDate: string; customer: string | null } | null;
+    cardPayment: { cardType: string; amount: number; transactionDate: string } | null;
+    bankTransaction: { amount: number; bookingDate: string; senderReceiver: string | null; description: string | null } | null;
+}
+
+const FACTOR_LABELS: Record<string, string> = { amount: 'Betrag', date: 'Datum', name: 'Name', reference: 'Referenz' };
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('de-DE');
+
+const describePayment = (s: MatchSuggestion): string => {
+    if (s.bookingPayment) {
+        return `Booking.com ${(s.bookingPayment.grossAmount ?? s.bookingPayment.amount).toFixed(2)}€, ${formatDate(s.bookingPayment.payoutDate)} (Ref: ${s.bookingPayment.referenceNumber})`;
+    }
+    if (s.otaPayment) {
+        const channel = s.otaPayment.channel === 'AIRBNB' ? 'Airbnb' : 'Expedia';
+        return `${channel} ${(s.otaPayment.grossAmount ?? s.otaPayment.amount).toFixed(2)}€, ${formatDate(s.otaPayment.payoutDate)} (Ref: ${s.otaPayment.referenceNumber})`;
+    }
+    if (s.providerPayment) {
+        return `${s.providerPayment.provider} ${s.providerPayment.grossAmount.toFixed(2)}€, ${formatDate(s.providerPayment.transactionDate)} ${s.providerPayment.customer || ''} (${s.providerPayment.transactionId})`;
+    }
+    if (s.cardPayment) {
+        return `Card (${s.cardPayment.cardType}) ${s.cardPayment.amount.toFixed(2)}€, ${formatDate(s.cardPayment.transactionDate)}`;
+    }
+    if (s.bankTransaction) {
+        return `Bank ${s.bankTransaction.amount.toFixed(2)}€, ${formatDate(s.bankTransaction.bookingDate)} ${s.bankTransaction.senderReceiver || ''} ${s.bankTransaction.description ? `"${s.bankTransaction.description}"` : ''}`;
+    }
+    return 'Zahlung';
+};
+
+// Candidate payments the reconciliation did not take on its own (amount off or score below the
+// threshold), best first, with the factors that make up their score
+export const MatchSuggestions: React.FC<{ suggestions: MatchSuggestion[]; onAccept: (id: number) => void }> = ({ suggestions, onAccept }) => (
+    <table style={{ fontSize: '0.85rem' }}>
+        <thead>
+            <tr>
+                <th>Zahlung</th>
+                <th>Score</th>
+                <th>Begründung</th>
+                <th></th>
+            </tr>
+        </thead>
+        <tbody>
+            {suggestions.map(s => (
+                <tr key={s.id}>
+                    <td>{describePayment(s)}</td>
+                    <td>
+                        <span className="status-badge" style={{
+                            background: s.score >= 0.8 ? '#dcfce7' : s.score >= 0.6 ? '#fef3c7' : '#fee2e2',
+                            color: s.score >= 0.8 ? '#166534' : s.score >= 0.6 ? '#92400e' : '#991b1b'
+                        }}>
+                            {Math.round(s.score * 100)}%
+                        </span>
+                    </td>
+                    <td>
+                        {s.factors.map(f => (
+                            <div key={f.factor}>
+                                <small>{FACTOR_LABELS[f.factor] || f.factor}: {f.detail} <span style={{ color: '#6b7280' }}>(+{Math.round(f.points * 100)})</span></small>
+                            </div>
+                        ))}
+                    </td>
+                    <td>
+                        <button className="btn" style={{ fontSize: '0.8rem', padding: '0.25rem 0.5rem' }} onClick={() => onAccept(s.id)}>
+                            Übernehmen
+                        </button>
+                    </td>
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api';
+
+interface SettlementTransaction {
+    id: number;
+    transactionDate: string;
+    transactionTime: string | null;
+    cardType: string;
+    terminalId: string | null;
+    authCode: string | null;
+    amount: number;
+    grossAmount: number | null;
+    fee: number | null;
+    matches: { invoice: { invoiceNumber: string } }[];
+}
+
+interface NexiSettlement {
+    id: number;
+    settlementId: string;
+    settlementDate: string;
+    payoutDate: string | null;
+    transactionCount: number;
+    grossAmount: number;
+    fees: number;
+    feeVat: number;
+    netAmount: number;
+    matchConfidence: number | null;
+    bankTransaction: { id: number; bookingDate: string; amount: number; description: string | null } | null;
+    cardPayments: SettlementTransaction[];
+}
+
+const formatAmount = (amount: number) => amount.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' €';
+const formatDate = (date: string) => new Date(date).toLocaleDateString('de-DE');
+
+// Nexi settlements: card transactions are paid out in batches (girocard daily, credit cards weekly), each batch as one bank credit
+export const NexiSettlements: React.FC = () => {
+    const [settlements, setSettlements] = useState<NexiSettlement[] | null>(null);
+    const [expanded, setExpanded] = useState<number | null>(null);
+    const [visibleCount, setVisibleCount] = useState(20);
+
+    useEffect(() => {
+        api.getNexiSettlements().then(setSettlements).catch(console.error);
+    }, []);
+
+    if (!settlements) return <div className="card">Loading...</div>;
+
+    const openCount = settlements.filter(s => !s.bankTransaction).length;
+
+    return (
+        <div className="card">
+            <h3>Nexi Abrechnungen</h3>
+            <p style={{ fontSize: '0.9rem', color: '#6b7280', marginBottom: '1rem' }}>
+                {settlements.length} Abrechnungen, davon {openCount} ohne zugeordnete Bankbuchung. Kartenumsätze ohne Zahlungsnummer sind noch nicht abgerechnet und erscheinen nach dem nächsten Nexi-Import.
+            </p>
+            <div className="table-container">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Zahlungsnummer</th>
+                            <th>Letzte Transaktion</th>
+                            <th>Transaktionen</th>
+                            <th>Brutto</th>
+                            <th>Entgelt</th>
+                            <th>MwSt. Entgelt</th>
+                            <th>Netto</th>
+                            <th>Bank</th>
+                            <th>Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {settlements.slice(0, visibleCount).map(settlement => {
+                            const invoiced = settlement.cardPayments.filter(c => c.matches.length > 0).length;
+                            const difference = settlement.bankTransaction ? settlement.bankTransaction.amount - settlement.netAmount : 0;
+                            return (
+                                <React.Fragment key={settlement.id}>
+                                    <tr onClick={() => setExpanded(expanded === settlement.id ? null : settlement.id)} style={{ cursor: 'pointer' }}>
+                                        <td>{expanded === settlement.id ? '▾' : '▸'} {settlement.settlementId}</td>
+                                        <td>{formatDate(settlement.settlementDate)}</td>
+                                        <td>
+                                            {settlement.transactionCount}
+                                            <small style={{ color: invoiced === settlement.transactionCount ? '#166534' : '#b45309', marginLeft: '0.5rem' }}>
+                                                ({invoiced} mit Rechnung)
+                                            </small>
+                                        </td>
+                                        <td>{formatAmount(settlement.grossAmount)}</td>
+                                        <td>{settlement.fees ? formatAmount(settlement.fees) : '-'}</td>
+                                        <td>{settlement.feeVat ? formatAmount(settlement.feeVat) : '-'}</td>
+                                        <td>{formatAmount(settlement.netAmount)}</td>
+                                        <td>
+                                            {settlement.bankTransaction ? (
+                                                <>
+                                                    {formatDate(settlement.bankTransaction.bookingDate)}: {formatAmount(settlement.bankTransaction.amount)}
+                                                    {Math.abs(difference) > 0.01 && (
+                                                        <div><small style={{ color: '#991b1b' }}>Differenz {formatAmount(difference)}</small></div>
+                                                    )}
+                                                </>
+                                            ) : '-'}
+                                        </td>
+                                        <td>
+                                            <span className="status-badge" style={{
+                                                background: settlement.bankTransaction ? '#dcfce7' : '#fef3c7',
+                                                color: settlement.bankTransaction ? '#166534' : '#92400e'
+                                            }}>
+                                                {settlement.bankTransaction ? (settlement.matchConfidence === 1 ? 'Gutgeschrieben (Referenz)' : 'Gutgeschrieben (Betrag)') : 'Offen'}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                    {expanded === settlement.id && (
+                                        <tr>
+                                            <td colSpan={9} style={{ background: '#f9fafb' }}>
+                                                <table style={{ fontSize: '0.85rem' }}>
+                                                    <thead>
+                                                        <tr>
+                                                            <th>Datum</th>
+                                                            <th>Karte</th>
+                                                            <th>Terminal</th>
+                                                            <th>Autorisierung</th>
+                                                            <th>Brutto</th>
+                                                            <th>Entgelt</th>
+                                                            <th>Rechnung</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {settlement.cardPayments.map(c => (
+                                                            <tr key={c.id}>
+                                                                <td>{formatDate(c.transactionDate)} {c.transactionTime || ''}</td>
+                                                                <td>{c.cardType}</td>
+                                                                <td>{c.terminalId || '-'}</td>
+                                                                <td>{c.authCode || '-'}</td>
+                                                                <td>{formatAmount(c.grossAmount || c.amount)}</td>
+                                                                <td>{c.fee !== null ? formatAmount(c.fee) : '-'}</td>
+                                                                <td style={{ color: c.matches.length ? 'inherit' : '#b45309' }}>
+                                                                    {c.matches.length ? c.matches.map(m => m.invoice.invoiceNumber).join(', ') : 'keine Rechnung zugeordnet'}
+                                                                </td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            {visibleCount < settlements.length && (
+                <div style={{ textAlign: 'center', marginTop: '1rem' }}>
+                    <button className="btn" onClick={() => setVisibleCount(prev => prev + 20)}>
+                        Load More ({settlements.length - visibleCount} remaining)
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api';
+import { Toast } from './Toast';
+import type { ToastProps } from './Toast';
+
+interface PaymentType {
+    id: number;
+    paymentType: string;
+    channel: string | null;
+    invoiceCount: number;
+    openCount: number;
+}
+
+const CHANNEL_LABELS: Record<string, string> = {
+    BOOKING: 'Booking.com', AIRBNB: 'Airbnb', EXPEDIA: 'Expedia', PAYPAL: 'PayPal', STRIPE: 'Stripe', SUMUP: 'SumUp',
+    CARD: 'Karte (Nexi)', BANK: 'Banküberweisung', CASH: 'Bar', VOUCHER: 'Gutschein', NONE: 'Kein Abgleich'
+};
+
+// Which settlement channel each Ibelsa payment type is reconciled through. New types are added by the import.
+export const PaymentTypes: React.FC = () => {
+    const [channels, setChannels] = useState<string[]>([]);
+    const [paymentTypes, setPaymentTypes] = useState<PaymentType[]>([]);
+    const [toast, setToast] = useState<Omit<ToastProps, 'onClose'> | null>(null);
+
+    useEffect(() => {
+        api.getPaymentTypes().then(data => {
+            setChannels(data.channels);
+            setPaymentTypes(data.paymentTypes);
+        }).catch(console.error);
+    }, []);
+
+    const handleChange = async (type: PaymentType, channel: string | null) => {
+        try {
+            await api.setPaymentTypeChannel(type.id, channel);
+            setPaymentTypes(paymentTypes.map(t => t.id === type.id ? { ...t, channel } : t));
+            setToast({ message: `"${type.paymentType}" gespeichert, gilt ab dem nächsten Abgleich`, type: 'success' });
+        } catch (e) {
+            setToast({ message: e instanceof Error ? e.message : 'Speichern fehlgeschlagen', type: 'error' });
+        }
+    };
+
+    const unmapped = paymentTypes.filter(t => t.channel === null);
+
+    return (
+        <div className="card">
+            <h3>Zahlungsarten</h3>
+            <p style={{ fontSize: '0.9rem', color: '#6b7280', marginBottom: '1rem' }}>
+                Rechnungen werden nur mit den Zahlungen des zugeordneten Kanals abgeglichen. Bar und Gutschein gelten ohne Zahlung als bezahlt. Neue Zahlungsarten werden beim Import anhand der Stichwörter unten vorbelegt.
+            </p>
+            {unmapped.length > 0 && (
+                <div style={{ background: '#fef3c7', color: '#92400e', padding: '0.75rem', borderRadius: '4px', marginBottom: '1rem', fontSize: '0.9rem' }}>
+                    {unmapped.length} Zahlungsart{unmapped.length === 1 ? '' : 'en'} ohne Zuordnung, deren Rechnungen werden nicht abgeglichen: {unmapped.map(t => t.paymentType).join(', ')}
+                </div>
+            )}
+            {paymentTypes.length === 0 ? (
+                <p style={{ fontSize: '0.9rem', color: '#6b7280' }}>Noch keine Ibelsa-Rechnungen importiert.</p>
+            ) : (
+                <div className="table-container">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>Zahlungsart</th>
+                                <th>Rechnungen</th>
+                                <th>Offen</th>
+                                <th>Kanal</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {paymentTypes.map(type => (
+                                <tr key={type.id} style={type.channel === null ? { background: '#fffbeb' } : undefined}>
+                                    <td>{type.paymentType}</td>
+                                    <td>{type.invoiceCount}</td>
+                                    <td>{type.openCount}</td>
+                                    <td>
+                                        <select value={type.channel ?? ''} onChange={(e) => handleChange(type, e.target.value || null)}
+                                            style={{ padding: '0.3rem', border: '1px solid var(--border)', borderRadius: '4px', color: 'black' }}>
+                                            <option value="">Nicht zugeordnet</option>
+                                            {channels.map(c => <option key={c} value={c}>{CHANNEL_LABELS[c] || c}</option>)}
+                                        </select>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+        </div>
+    );
+};
@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api';
+
+interface PayoutPayment {
+    id: number;
+    transactionId: string;
+    transactionDate: string;
+    customer: string | null;
+    reference: string | null;
+    grossAmount: number;
+    fee: number | null;
+    netAmount: number;
+    matches: { invoice: { invoiceNumber: string } }[];
+}
+
+interface ProviderPayout {
+    id: number;
+    provider: string;
+    payoutId: string;
+    payoutDate: string;
+    currency: string;
+    transactionCount: number;
+    amount: number;
+    matchConfidence: number | null;
+    bankTransaction: { id: number; bookingDate: string; amount: number; description: string | null } | null;
+    payments: PayoutPayment[];
+}
+
+const PROVIDER_LABELS: Record<string, string> = { PAYPAL: 'PayPal', STRIPE: 'Stripe', SUMUP: 'SumUp' };
+
+const formatAmount = (amount: number) => amount.toLocaleString('de-DE', { minimumFractionDigits: 2, maximumFractionDigits: 2 }) + ' €';
+const formatDate = (date: string) => new Date(date).toLocaleDateString('de-DE');
+
+// PayPal, Stripe and SumUp payouts: the provider balance is transferred to the bank account in one credit
+export const ProviderPayouts: React.FC = () => {
+    const [payouts, setPayouts] = useState<ProviderPayout[] | null>(null);
+    const [expanded, setExpanded] = useState<number | null>(null);
+    const [visibleCount, setVisibleCount] = useState(20);
+
+    useEffect(() => {
+        api.getProviderPayouts().then(setPayouts).catch(console.error);
+    }, []);
+
+    if (!payouts) return <div className="card">Loading...</div>;
+    // Nothing imported from these providers yet: keep the payouts tab short
+    if (payouts.length === 0) return null;
+
+    const openCount = payouts.filter(p => !p.bankTransaction).length;
+
+    return (
+        <div className="card">
+            <h3>PayPal / Stripe / SumUp Auszahlungen</h3>
+            <p style={{ fontSize: '0.9rem', color: '#6b7280', marginBottom: '1rem' }}>
+                {payouts.length} Auszahlungen, davon {openCount} ohne zugeordnete Bankbuchung. PayPal-Abbuchungen enthalten keine Einzelzahlungen.
+            </p>
+            <div className="table-container">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Anbieter</th>
+                            <th>Auszahlung</th>
+                            <th>Datum</th>
+                            <th>Zahlungen</th>
+                            <th>Betrag</th>
+                            <th>Bank</th>
+                            <th>Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {payouts.slice(0, visibleCount).map(payout => {
+                            const invoiced = payout.payments.filter(p => p.matches.length > 0).length;
+                            const difference = payout.bankTransaction ? payout.bankTransaction.amount - payout.amount : 0;
+                            return (
+                                <React.Fragment key={payout.id}>
+                                    <tr onClick={() => setExpanded(expanded === payout.id ? null : payout.id)} style={{ cursor: payout.payments.length ? 'pointer' : 'default' }}>
+                                        <td>{payout.payments.length ? (expanded === payout.id ? '▾' : '▸') : ''} {PROVIDER_LABELS[payout.provider] || payout.provider}</td>
+                                        <td>{payout.payoutId}</td>
+                                        <td>{formatDate(payout.payoutDate)}</td>
+                                        <td>
+                                            {payout.transactionCount || '-'}
+                                            {payout.transactionCount > 0 && (
+                                                <small style={{ color: invoiced === payout.transactionCount ? '#166534' : '#b45309', marginLeft: '0.5rem' }}>
+                                                    ({invoiced} mit Rechnung)
+                                                </small>
+                                            )}
+                                        </td>
+                                        <td>{formatAmount(payout.amount)}{payout.currency !== 'EUR' && ` (${payout.currency})`}</td>
+                                        <td>
+                                            {payout.bankTransaction ? (
+                                                <>
+                                                    {formatDate(payout.bankTransaction.bookingDate)}: {formatAmount(payout.bankTransaction.amount)}
+                                                    {Math.abs(difference) > 0.01 && (
+                                                        <div><small style={{ color: '#991b1b' }}>Differenz {formatAmount(difference)}</small></div>
+                                                    )}
+                                                </>
+                                            ) : '-'}
+                                        </td>
+                                        <td>
+                                            <span className="status-badge" style={{
+                                                background: payout.bankTransaction ? '#dcfce7' : '#fef3c7',
+                                                color: payout.bankTransaction ? '#166534' : '#92400e'
+                                            }}>
+                                                {payout.bankTransaction ? (payout.matchConfidence === 1 ? 'Gutgeschrieben (Referenz)' : 'Gutgeschrieben (Betrag)') : 'Offen'}
+                                            </span>
+                                        </td>
+                                    </tr>
+                                    {expanded === payout.id && payout.payments.length > 0 && (
+                                        <tr>
+                                            <td colSpan={7} style={{ background: '#f9fafb' }}>
+                                                <table style={{ fontSize: '0.85rem' }}>
+                                                    <thead>
+                                                        <tr>
+                                                            <th>Datum</th>
+                                                            <th>Transaktion</th>
+                                                            <th>Kunde</th>
+                                                            <th>Referenz</th>
+                                                            <th>Brutto</th>
+                                                            <th>Gebühr</th>
+                                                            <th>Netto</th>
+                                                            <th>Rechnung</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {payout.payments.map(p => (
+                                                            <tr key={p.id}>
+                                                                <td>{formatDate(p.transactionDate)}</td>
+                                                                <td>{p.transactionId}</td>
+                                                                <td>{p.customer || '-'}</td>
+                                                                <td>{p.reference || '-'}</td>
+                                                                <td>{formatAmount(p.grossAmount)}</td>
+                                                                <td>{p.fee !== null ? formatAmount(p.fee) : '-'}</td>
+                                                                <td>{formatAmount(p.netAmount)}</td>
+                                                                <td style={{ color: p.matches.length ? 'inherit' : '#b45309' }}>
+                                                                    {p.matches.length ? p.matches.map(m => m.invoice.invoiceNumber).join(', ') : 'keine Rechnung zugeordnet'}
+                                                                </td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+            {visibleCount < payouts.length && (
+                <div style={{ textAlign: 'center', marginTop: '1rem' }}>
+                    <button className="btn" onClick={() => setVisibleCount(prev => prev + 20)}>
+                        Load More ({payouts.length - visibleCount} remaining)
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api';
+import { Toast } from './Toast';
+import type { ToastProps } from './Toast';
+
+interface SourceRules {
+    keywords: string[];
+    dateToleranceDays: number;
+    amountTolerance: number;
+}
+
+interface Rules {
+    lookbackMonths: number;
+    autoAcceptThreshold: number;
+    sources: Record<string, SourceRules>;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+    BOOKING: 'Booking.com', AIRBNB: 'Airbnb', EXPEDIA: 'Expedia', PAYPAL: 'PayPal',
+    STRIPE: 'Stripe', SUMUP: 'SumUp', CARD: 'Karte (Nexi)', BANK: 'Banküberweisung'
+};
+
+// Keywords are edited as a comma separated list
+const toText = (keywords: string[]) => keywords.join(', ');
+const toList = (text: string) => text.split(',').map(s => s.trim()).filter(Boolean);
+
+const inputStyle: React.CSSProperties = { width: '100%', padding: '0.3rem', border: '1px solid var(--border)', borderRadius: '4px', color: 'black' };
+
+// Tolerances, lookback and the keywords suggesting the payment source of new Ibelsa payment types
+export const ReconciliationRules: React.FC = () => {
+    const [sources, setSources] = useState<string[]>([]);
+    const [rules, setRules] = useState<Rules | null>(null);
+    const [keywordText, setKeywordText] = useState<Record<string, string>>({});
+    const [toast, setToast] = useState<Omit<ToastProps, 'onClose'> | null>(null);
+
+    const apply = (loaded: Rules) => {
+        setRules(loaded);
+        const text: Record<string, string> = {};
+        Object.entries(loaded.sources).forEach(([source, r]) => { text[source] = toText(r.keywords); });
+        setKeywordText(text);
+    };
+
+    useEffect(() => {
+        api.getReconciliationRules().then(data => {
+            setSources(data.sources);
+            apply(data.rules);
+        }).catch(console.error);
+    }, []);
+
+    const updateSource = (source: string, change: Partial<SourceRules>) => {
+        if (!rules) return;
+        setRules({ ...rules, sources: { ...rules.sources, [source]: { ...rules.sources[source], ...change } } });
+    };
+
+    const handleSave = async () => {
+        if (!rules) return;
+        const sourcesWithKeywords: Record<string, SourceRules> = {};
+        sources.forEach(source => { sourcesWithKeywords[source] = { ...rules.sources[source], keywords: toList(keywordText[source] || '') }; });
+        try {
+            apply(await api.saveReconciliationRules({ ...rules, sources: sourcesWithKeywords }));
+            setToast({ message: 'Regeln gespeichert, gelten ab dem nächsten Abgleich', type: 'success' });
+        } catch (e) {
+            setToast({ message: e instanceof Error ? e.message : 'Speichern fehlgeschlagen', type: 'error' });
+        }
+    };
+
+    const handleReset = async () => {
+        if (!confirm('Alle Regeln auf die Standardwerte zurücksetzen?')) return;
+        try {
+            apply(await api.resetReconciliationRules());
+            setToast({ message: 'Standardwerte wiederhergestellt', type: 'success' });
+        } catch {
+            setToast({ message: 'Zurücksetzen fehlgeschlagen', type: 'error' });
+        }
+    };
+
+    if (!rules) return <div className="card">Loading...</div>;
+
+    return (
+        <div className="space-y-6">
+            <div className="card">
+                <h3>Abgleichsregeln</h3>
+                <p style={{ fontSize: '0.9rem', color: '#6b7280', marginBottom: '1rem' }}>
+                    Neue Zahlungsarten werden der ersten Quelle zugeordnet, deren Stichwort sie enthalten (Reihenfolge wie unten).
+                    Automatisch zugeordnet wird nur bei exaktem Betrag (innerhalb der Betragstoleranz) und ausreichendem Score.
+                </p>
+                <div style={{ display: 'flex', gap: '1.5rem', marginBottom: '1rem' }}>
+                    <label style={{ fontSize: '0.9rem' }}>
+                        Zahlungen der letzten (Monate)
+                        <input type="number" min={1} max={36} value={rules.lookbackMonths}
+                            onChange={(e) => setRules({ ...rules, lookbackMonths: parseInt(e.target.value) || 0 })} style={inputStyle} />
+                    </label>
+                    <label style={{ fontSize: '0.9rem' }}>
+                        Mindest-Score für automatische Zuordnung
+                        <input type="number" min={0.1} max={1} step={0.05} value={rules.autoAcceptThreshold}
+                            onChange={(e) => setRules({ ...rules, autoAcceptThreshold: parseFloat(e.target.value) || 0 })} style={inputStyle} />
+                    </label>
+                </div>
+                <div className="table-container">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>Quelle</th>
+                                <th>Stichwörter in der Zahlungsart</th>
+                                <th>Datumstoleranz (Tage)</th>
+                                <th>Betragstoleranz (€)</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {sources.map(source => (
+                                <tr key={source}>
+                                    <td>{SOURCE_LABELS[source] || source}</td>
+                                    <td>
+                                        <input type="text" value={keywordText[source] || ''}
+                                            onChange={(e) => setKeywordText({ ...keywordText, [source]: e.target.value })} style={inputStyle} />
+                                    </td>
+                                    <td>
+                                        <input type="number" min={0} value={rules.sources[source].dateToleranceDays}
+                                            onChange={(e) => updateSource(source, { dateToleranceDays: parseInt(e.target.value) || 0 })} style={inputStyle} />
+                                    </td>
+                                    <td>
+                                        <input type="number" min={0} step={0.01} value={rules.sources[source].amountTolerance}
+                                            onChange={(e) => updateSource(source, { amountTolerance: parseFloat(e.target.value) || 0 })} style={inputStyle} />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end', marginTop: '1rem' }}>
+                    <button className="btn" onClick={handleReset}>Standardwerte</button>
+                    <button className="btn btn-primary" onClick={handleSave}>Speichern</button>
+                </div>
+            </div>
+
+            {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+        </div>
+    );
+};
@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api';
+import { Toast } from './Toast';
+import type { ToastProps } from './Toast';
+
+interface ReconciliationRun {
+    id: number;
+    trigger: string;
+    startedAt: string;
+    finishedAt: string | null;
+    revertedAt: string | null;
+    rules: { lookbackMonths: number; autoAcceptThreshold: number };
+    result: {
+        matches: number;
+        settledWithoutPayment?: number;
+        partiallyPaid: number;
+        suggested?: number;
+        bySource?: Record<string, number>;
+        payouts: number;
+        settlements: number;
+        providerPayouts: number;
+    } | null;
+    matchCount: number;
+}
+
+interface RunMatch {
+    id: number;
+    matchType: string;
+    confidence: number | null;
+    amount: number | null;
+    invoice: { invoiceNumber: string; recipient: string; amount: number; paymentType: string };
+    creditNote: { invoiceNumber: string } | null;
+    bookingPayment: { referenceNumber: string } | null;
+    otaPayment: { channel: string; referenceNumber: string } | null;
+    providerPayment: { provider: string; transactionId: string } | null;
+    cardPayment: { cardType: string; transactionDate: string } | null;
+    bankTransaction: { bookingDate: string; senderReceiver: string | null } | null;
+}
+
+const TRIGGER_LABELS: Record<string, string> = { MANUAL: 'Manuell', SCHEDULED: 'Zeitplan', IMPORT: 'Nach Import' };
+const SOURCE_LABELS: Record<string, string> = {
+    BOOKING: 'Booking.com', OTA: 'Airbnb/Expedia', PROVIDER: 'PayPal/Stripe/SumUp', CARD: 'Karte', BANK: 'Bank', CREDIT_NOTE: 'Gutschriften'
+};
+
+const describePayment = (m: RunMatch): string => {
+    if (m.creditNote) return `Gutschrift ${m.creditNote.invoiceNumber}`;
+    if (m.bookingPayment) return `Booking.com ${m.bookingPayment.referenceNumber}`;
+    if (m.otaPayment) return `${m.otaPayment.channel === 'AIRBNB' ? 'Airbnb' : 'Expedia'} ${m.otaPayment.referenceNumber}`;
+    if (m.providerPayment) return `${m.providerPayment.provider} ${m.providerPayment.transactionId}`;
+    if (m.cardPayment) return `Karte (${m.cardPayment.cardType}) ${new Date(m.cardPayment.transactionDate).toLocaleDateString('de-DE')}`;
+    if (m.bankTransaction) return `Bank ${new Date(m.bankTransaction.bookingDate).toLocaleDateString('de-DE')} ${m.bankTransaction.senderReceiver || ''}`;
+    return '-';
+};
+
+// Besides its matches a run settles cash and voucher invoices and links payouts to bank transfers; revert undoes those too
+const canRevert = (run: ReconciliationRun): boolean =>
+    !!run.finishedAt && !run.revertedAt && (run.matchCount > 0 || !!run.result?.settledWithoutPayment ||
+        (!!run.result && run.result.payouts + run.result.settlements + run.result.providerPayouts > 0));
+
+// History of reconciliation runs: when and why they ran, what they matched, and undoing a run
+export const ReconciliationRuns: React.FC = () => {
+    const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+    const [expanded, setExpanded] = useState<number | null>(null);
+    const [matches, setMatches] = useState<RunMatch[]>([]);
+    const [toast, setToast] = useState<Omit<ToastProps, 'onClose'> | null>(null);
+
+    const load = () => {
+        api.getReconciliationRuns().then(setRuns).catch(console.error);
+    };
+
+    useEffect(() => {
+        load();
+    }, []);
+
+    const toggle = async (run: ReconciliationRun) => {
+        if (expanded === run.id) {
+            setExpanded(null);
+            return;
+        }
+        try {
+            setMatches(await api.getReconciliationRunMatches(run.id));
+            setExpanded(run.id);
+        } catch {
+            setToast({ message: 'Zuordnungen konnten nicht geladen werden', type: 'error' });
+        }
+    };
+
+    const handleRevert = async (run: ReconciliationRun) => {
+        if (!confirm(`Alle ${run.matchCount} Zuordnungen des Abgleichs vom ${new Date(run.startedAt).toLocaleString('de-DE')} entfernen? Die Rechnungen und die verknüpften Auszahlungen werden wieder offen.`)) return;
+        try {
+            const result = await api.revertReconciliationRun(run.id);
+            setToast({ message: `${result.removedMatches} Zuordnungen entfernt, ${result.reopenedInvoices} Rechnungen und ${result.reopenedPayouts} Auszahlungen wieder offen`, type: 'success' });
+            setExpanded(null);
+            load();
+        } catch (e) {
+            setToast({ message: e instanceof Error ? e.message : 'Rückgängig machen fehlgeschlagen', type: 'error' });
+        }
+    };
+
+    return (
+        <div className="card">
+            <h3>Abgleichsverlauf</h3>
+            {runs.length === 0 ? (
+                <p style={{ fontSize: '0.9rem', color: '#6b7280' }}>Noch kein Abgleich durchgeführt.</p>
+            ) : (
+                <div className="table-container">
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>Start</th>
+                                <th>Auslöser</th>
+                                <th>Ergebnis</th>
+                                <th>Je Quelle</th>
+                                <th>Regeln</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {runs.map(run => (
+                                <React.Fragment key={run.id}>
+                                    <tr style={{ opacity: run.revertedAt ? 0.6 : 1 }}>
+                                        <td>
+                                            {new Date(run.startedAt).toLocaleString('de-DE')}
+                                            {run.finishedAt && (
+                                                <div><small style={{ color: '#6b7280' }}>{Math.max(1, Math.round((new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()) / 1000))} s</small></div>
+                                            )}
+                                        </td>
+                                        <td>{TRIGGER_LABELS[run.trigger] || run.trigger}</td>
+                                        <td>
+                                            {run.revertedAt ? (
+                                                <span className="status-badge" style={{ background: '#f3f4f6', color: '#374151' }}>
+                                                    Rückgängig gemacht {new Date(run.revertedAt).toLocaleDateString('de-DE')}
+                                                </span>
+                                            ) : run.result ? (
+                                                <>
+                                                    <div>{run.result.matches} Rechnungen zugeordnet{run.result.settledWithoutPayment ? `, ${run.result.settledWithoutPayment} bar/Gutschein` : ''}</div>
+                                                    <small style={{ color: '#6b7280' }}>
+                                                        {run.result.partiallyPaid} teilweise bezahlt, {run.result.suggested ?? 0} mit Vorschlägen, {run.result.payouts + run.result.settlements + run.result.providerPayouts} Auszahlungen
+                                                    </small>
+                                                </>
+                                            ) : (
+                                                <span style={{ color: '#991b1b' }}>{run.finishedAt ? '-' : 'Nicht abgeschlossen'}</span>
+                                            )}
+                                        </td>
+                                        <td style={{ fontSize: '0.8rem' }}>
+                                            {Object.entries(run.result?.bySource || {}).map(([source, count]) => (
+                                                <div key={source}>{SOURCE_LABELS[source] || source}: {count}</div>
+                                            ))}
+                                        </td>
+                                        <td style={{ fontSize: '0.8rem' }}>
+                                            {run.rules.lookbackMonths} Monate, Score ≥ {run.rules.autoAcceptThreshold}
+                                        </td>
+                                        <td>
+                                            <div style={{ display: 'flex', gap: '0.25rem' }}>
+                                                {run.matchCount > 0 && (
+                                                    <button className="btn" onClick={() => toggle(run)} style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem' }}>
+                                                        {expanded === run.id ? 'Ausblenden' : `Zuordnungen (${run.matchCount})`}
+                                                    </button>
+                                                )}
+                                                {canRevert(run) && (
+                                                    <button className="btn" onClick={() => handleRevert(run)} style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem', backgroundColor: '#fee2e2', color: '#991b1b' }}>
+                                                        Rückgängig
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                    {expanded === run.id && (
+                                        <tr>
+                                            <td colSpan={6} style={{ background: '#f9fafb' }}>
+                                                <table style={{ fontSize: '0.85rem' }}>
+                                                    <thead>
+                                                        <tr>
+                                                            <th>Rechnung</th>
+                                                            <th>Zahlung</th>
+                                                            <th>Art</th>
+                                                            <th>Betrag</th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {matches.map(m => (
+                                                            <tr key={m.id}>
+                                                                <td>{m.invoice.invoiceNumber} <small style={{ color: '#6b7280' }}>{m.invoice.recipient}</small></td>
+                                                                <td>{describePayment(m)}</td>
+                                                                <td>{m.matchType}{m.confidence !== null && m.matchType !== 'CREDIT_NOTE' ? ` (${Math.round(m.confidence * 100)}%)` : ''}</td>
+                                                                <td>{(m.amount ?? m.invoice.amount).toFixed(2)} €</td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            </td>
+                                        </tr>
+                                    )}
+                                </React.Fragment>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+        </div>
+    );
+};
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api';
+
+interface RollbackPreview {
+    invoices: number;
+    bookingPayments: number;
+    cardPayments: number;
+    otaPayments: number;
+    providerPayments: number;
+    bankTransactions: number;
+    bookingPayouts: number;
+    nexiSettlements: number;
+    providerPayouts: number;
+    invoiceChanges: number;
+    matches: number;
+    unreconciledInvoices: number;
+    samples: {
+        invoices: { id: number; invoiceNumber: string; amount: number }[];
+        bookingPayments: { id: number; referenceNumber: string; amount: number }[];
+        cardPayments: { id: number; transactionDate: string; cardType: string; amount: number }[];
+        otaPayments: { id: number; channel: string; referenceNumber: string; amount: number }[];
+        providerPayments: { id: number; provider: string; transactionId: string; grossAmount: number }[];
+        bankTransactions: { id: number; bookingDate: string; senderReceiver: string | null; amount: number }[];
+    };
+}
+
+interface RollbackDialogProps {
+    fileId: number;
+    fileName: string;
+    onClose: () => void;
+    onRolledBack: () => void;
+}
+
+// Shows what an import rollback would remove and asks for confirmation
+export const RollbackDialog: React.FC<RollbackDialogProps> = ({ fileId, fileName, onClose, onRolledBack }) => {
+    const [preview, setPreview] = useState<RollbackPreview | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [running, setRunning] = useState(false);
+
+    useEffect(() => {
+        api.previewRollback(fileId).then(setPreview).catch(err => {
+            console.error(err);
+            setError('Failed to load rollback preview.');
+        });
+    }, [fileId]);
+
+    const handleConfirm = async () => {
+        setRunning(true);
+        try {
+            await api.rollbackFile(fileId);
+            onRolledBack();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Rollback failed');
+            setRunning(false);
+        }
+    };
+
+    const total = preview ? preview.invoices + preview.bookingPayments + preview.cardPayments + preview.otaPayments + preview.providerPayments + preview.bankTransactions : 0;
+    const formatAmount = (amount: number) => amount.toFixed(2) + ' €';
+
+    return (
+        <div style={{
+            position: 'fixed', inset: 0,
+            backgroundColor: 'rgba(0,0,0,0.5)',
+            zIndex: 9998,
+            display: 'flex', alignItems: 'center', justifyContent: 'center'
+        }}>
+            <div className="card" style={{ width: '90vw', maxWidth: '800px', maxHeight: '85vh', overflowY: 'auto', padding: '1.5rem' }}>
+                <h3 style={{ marginBottom: '0.5rem' }}>Roll Back Import</h3>
+                <p style={{ marginBottom: '1rem', fontSize: '0.9rem', color: '#6b7280' }}>{fileName}</p>
+
+                {error && <div style={{ color: '#991b1b', marginBottom: '1rem' }}>{error}</div>}
+                {!preview && !error && <div>Loading...</div>}
+                {preview && (
+                    <>
+                        <ul style={{ marginBottom: '1rem' }}>
+                            <li>{preview.invoices} invoices</li>
+                            <li>{preview.bookingPayments} Booking.com payments</li>
+                            <li>{preview.cardPayments} card payments</li>
+                            {preview.otaPayments > 0 && <li>{preview.otaPayments} Airbnb / Expedia payments</li>}
+                            {preview.providerPayments > 0 && <li>{preview.providerPayments} PayPal / Stripe / SumUp payments</li>}
+                            <li>{preview.bankTransactions} bank transactions</li>
+                            {preview.bookingPayouts > 0 && <li>{preview.bookingPayouts} Booking.com payouts</li>}
+                            {preview.nexiSettlements > 0 && <li>{preview.nexiSettlements} Nexi settlements</li>}
+                            {preview.providerPayouts > 0 && <li>{preview.providerPayouts} PayPal / Stripe / SumUp payouts</li>}
+                            {preview.invoiceChanges > 0 && <li>{preview.invoiceChanges} invoice changes (old values are restored)</li>}
+                            <li>{preview.matches} reconciliation matches</li>
+                        </ul>
+                        {preview.unreconciledInvoices > 0 && (
+                            <p style={{ color: '#b45309', fontSize: '0.9rem', marginBottom: '1rem' }}>
+                                {preview.unreconciledInvoices} invoice(s) from other files lose their match and will be marked as open again.
+                            </p>
+                        )}
+                        {total === 0 && preview.invoiceChanges === 0 && (
+                            <p style={{ fontSize: '0.9rem', marginBottom: '1rem' }}>
+                                This file did not create any records (e.g. all rows were duplicates). Only the history entry will be removed.
+                            </p>
+                        )}
+
+                        <details style={{ fontSize: '0.8rem', marginBottom: '1rem' }}>
+                            <summary style={{ cursor: 'pointer' }}>Show records</summary>
+                            <ul style={{ marginTop: '0.5rem' }}>
+                                {preview.samples.invoices.map(i => <li key={`i${i.id}`}>Invoice {i.invoiceNumber}: {formatAmount(i.amount)}</li>)}
+                                {preview.samples.bookingPayments.map(p => <li key={`b${p.id}`}>Booking.com {p.referenceNumber}: {formatAmount(p.amount)}</li>)}
+                                {preview.samples.cardPayments.map(p => <li key={`c${p.id}`}>{p.cardType} {new Date(p.transactionDate).toLocaleDateString('de-DE')}: {formatAmount(p.amount)}</li>)}
+                                {preview.samples.otaPayments.map(p => <li key={`o${p.id}`}>{p.channel} {p.referenceNumber}: {formatAmount(p.amount)}</li>)}
+                                {preview.samples.providerPayments.map(p => <li key={`p${p.id}`}>{p.provider} {p.transactionId}: {formatAmount(p.grossAmount)}</li>)}
+                                {preview.samples.bankTransactions.map(t => <li key={`t${t.id}`}>{new Date(t.bookingDate).toLocaleDateString('de-DE')} {t.senderReceiver || '-'}: {formatAmount(t.amount)}</li>)}
+                            </ul>
+                            {total > preview.samples.invoices.length + preview.samples.bookingPayments.length + preview.samples.cardPayments.length + preview.samples.otaPayments.length + preview.samples.providerPayments.length + preview.samples.bankTransactions.length && (
+                                <div style={{ color: '#6b7280' }}>Only the first records of each kind are shown.</div>
+                            )}
+                        </details>
+                    </>
+                )}
+
+                <div style={{ display: 'flex', gap: '0.75rem', justifyContent: 'flex-end' }}>
+                    <button className="btn" onClick={onClose} disabled={running}>Cancel</button>
+                    <button
+                        className="btn"
+                        onClick={handleConfirm}
+                        disabled={!preview || running}
+                        style={{ backgroundColor: '#fee2e2', color: '#991b1b' }}
+                    >
+                        {running ? 'Rolling back...' : 'Roll Back'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { api } from '../api';
+import { Toast } from './Toast';
+import type { ToastProps } from './Toast';
+
+interface PaymentFlag {
+    flag: string;
+    note: string | null;
+    createdBy: string | null;
+    updatedAt: string;
+}
+
+interface UnmatchedPayment {
+    source: string;
+    id: number;
+    date: string;
+    month: string;
+    amount: number;
+    description: string;
+    flag: PaymentFlag | null;
+}
+
+interface MonthSummary {
+    source: string;
+    month: string;
+    open: number;
+    openAmount: number;
+    flagged: number;
+    flaggedAmount: number;
+}
+
+const SOURCES: [string, string][] = [['bank', 'Banküberweisung'], ['card', 'Karte (Nexi)'], ['booking', 'Booking.com']];
+const STATUSES: [string, string][] = [['open', 'Offen'], ['flagged', 'Markiert'], ['all', 'Alle']];
+const FLAG_LABELS: Record<string, string> = { DEPOSIT: 'Anzahlung', NOT_REVENUE: 'Kein Hotelumsatz', REFUND: 'Erstattung', OTHER: 'Sonstiges' };
+
+const formatMonth = (month: string) => {
+    const [year, mon] = month.split('-').map(Number);
+    return new Date(year, mon - 1, 1).toLocaleDateString('de-DE', { month: 'long', year: 'numeric' });
+};
+
+// Payments no invoice was matched to, per source and month. Payments that need no invoice
+// (deposits, non-hotel revenue, refunds) are flagged and no longer count as open.
+export const UnmatchedPayments: React.FC<{ userName: string }> = ({ userName }) => {
+    const [source, setSource] = useState('bank');
+    const [month, setMonth] = useState('');
+    const [status, setStatus] = useState('open');
+    const [text, setText] = useState('');
+    const [query, setQuery] = useState('');
+    const [summary, setSummary] = useState<MonthSummary[]>([]);
+    const [payments, setPayments] = useState<UnmatchedPayment[] | null>(null);
+    const [totals, setTotals] = useState({ count: 0, amount: 0 });
+    const [reloadKey, setReloadKey] = useState(0);
+    const [toast, setToast] = useState<Omit<ToastProps, 'onClose'> | null>(null);
+
+    useEffect(() => {
+        api.getUnmatchedPaymentSummary().then(setSummary).catch(console.error);
+    }, [reloadKey]);
+
+    useEffect(() => {
+        api.getUnmatchedPayments({ source, month, status, q: query })
+            .then(result => {
+                setPayments(result.payments);
+                setTotals(result.totals);
+            })
+            .catch(e => setToast({ message: e instanceof Error ? e.message : 'Zahlungen konnten nicht geladen werden', type: 'error' }));
+    }, [source, month, status, query, reloadKey]);
+
+    const handleFlag = async (payment: UnmatchedPayment, flag: string) => {
+        try {
+            if (!flag) {
+                await api.unflagPayment(payment.source, payment.id);
+                setToast({ message: 'Markierung entfernt', type: 'success' });
+            } else {
+                const note = prompt(`${FLAG_LABELS[flag]}: Notiz (optional)`, payment.flag?.note || '');
+                if (note === null) return;
+                await api.flagPayment(payment.source, payment.id, flag, note, userName);
+                setToast({ message: `Als "${FLAG_LABELS[flag]}" markiert`, type: 'success' });
+            }
+            setReloadKey(k => k + 1);
+        } catch (e) {
+            setToast({ message: e instanceof Error ? e.message : 'Markierung fehlgeschlagen', type: 'error' });
+        }
+    };
+
+    const inputStyle: React.CSSProperties = { padding: '0.3rem', border: '1px solid var(--border)', borderRadius: '4px', color: 'black' };
+    const sourceSummary = summary.filter(s => s.source === source);
+
+    return (
+        <div className="space-y-6">
+            <div className="card">
+                <h3>Offene Zahlungen</h3>
+                <p style={{ marginBottom: '1rem', fontSize: '0.9rem', color: '#6b7280' }}>
+                    Zahlungen ohne zugeordnete Rechnung. Zahlungen, zu denen keine Rechnung gehört, als Anzahlung, Erstattung usw. markieren; markierte Zahlungen werden beim Abgleich nicht mehr zugeordnet.
+                </p>
+                <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
+                    {SOURCES.map(([value, label]) => (
+                        <button
+                            key={value}
+                            className={`btn ${source === value ? 'btn-primary' : ''}`}
+                            onClick={() => { setSource(value); setMonth(''); }}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+
+                {sourceSummary.length === 0 ? (
+                    <p style={{ fontSize: '0.9rem', color: '#6b7280' }}>Keine offenen Zahlungen.</p>
+                ) : (
+                    <div className="table-container">
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th>Monat</th>
+                                    <th>Offen</th>
+                                    <th>Offen (€)</th>
+                                    <th>Markiert</th>
+                                    <th>Markiert (€)</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sourceSummary.map(s => (
+                                    <tr
+                                        key={s.month}
+                                        onClick={() => setMonth(month === s.month ? '' : s.month)}
+                                        style={{ cursor: 'pointer', backgroundColor: month === s.month ? '#eff6ff' : undefined }}
+                                    >
+                                        <td>{formatMonth(s.month)}</td>
+                                        <td>
+                                            {s.open > 0
+                                                ? <span className="status-badge" style={{ background: '#fef3c7', color: '#92400e' }}>{s.open}</span>
+                                                : 0}
+                                        </td>
+                                        <td>{s.openAmount.toFixed(2)} €</td>
+                                        <td>{s.flagged}</td>
+                                        <td>{s.flaggedAmount.toFixed(2)} €</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </div>
+
+            <div className="card">
+                <form
+                    onSubmit={(e) => { e.preventDefault(); setQuery(text); }}
+                    style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', alignItems: 'flex-end', marginBottom: '1rem', fontSize: '0.85rem' }}
+                >
+                    <label>
+                        Status<br />
+                        <select value={status} onChange={(e) => setStatus(e.target.value)} style={inputStyle}>
+                            {STATUSES.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                        </select>
+                    </label>
+                    <label>
+                        Monat<br />
+                        <input type="month" value={month} onChange={(e) => setMonth(e.target.value)} style={inputStyle} />
+                    </label>
+                    <label style={{ flex: 1 }}>
+                        Text (Name, Verwendungszweck, Referenz)<br />
+                        <input type="text" value={text} onChange={(e) => setText(e.target.value)} style={{ ...inputStyle, width: '100%' }} />
+                    </label>
+                    <button type="submit" className="btn">Suchen</button>
+                </form>
+
+                {payments === null && <div>Loading...</div>}
+                {payments && payments.length === 0 && (
+                    <p style={{ fontSize: '0.9rem', color: '#6b7280' }}>Keine Zahlungen gefunden.</p>
+                )}
+                {payments && payments.length > 0 && (
+                    <div className="table-container">
+                        <table style={{ fontSize: '0.85rem' }}>
+                            <thead>
+                                <tr>
+                                    <th>Datum</th>
+                                    <th>Betrag</th>
+                                    <th>Details</th>
+                                    <th>Markierung</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {payments.map(p => (
+                                    <tr key={`${p.source}-${p.id}`}>
+                                        <td>{new Date(p.date).toLocaleDateString('de-DE')}</td>
+                                        <td>{p.amount.toFixed(2)} €</td>
+                                        <td>{p.description}</td>
+                                        <td>
+                                            <select value={p.flag?.flag || ''} onChange={(e) => handleFlag(p, e.target.value)} style={inputStyle}>
+                                                <option value="">—</option>
+                                                {Object.entries(FLAG_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                                            </select>
+                                            {p.flag && (
+                                                <div>
+                                                    <small style={{ color: '#6b7280' }}>
+                                                        {p.flag.note ? `${p.flag.note} · ` : ''}
+                                                        {p.flag.createdBy ? `${p.flag.createdBy}, ` : ''}
+                                                        {new Date(p.flag.updatedAt).toLocaleDateString('de-DE')}
+                                                    </small>
+                                                </div>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                            <tfoot>
+                                <tr>
+                                    <td><strong>{totals.count} Zahlungen</strong></td>
+                                    <td><strong>{totals.amount.toFixed(2)} €</strong></td>
+                                    <td colSpan={2}></td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+                )}
+            </div>
+            {toast && <Toast {...toast} onClose={() => setToast(null)} />}
+        </div>
+    );
+};
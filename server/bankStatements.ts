@@ -0,0 +1,218 @@
+import { XMLParser } from 'fast-xml-parser';
+
+// One booked entry from a structured bank statement (CAMT.053 or MT940)
+export interface StatementEntry {
+    bookingDate: Date;
+    valueDate: Date | null;
+    amount: number; // negative for debits
+    currency: string;
+    counterparty: string;
+    counterpartyIban: string | null;
+    purpose: string;
+    reference: string | null; // structured creditor reference (e.g. RF...)
+    endToEndId: string | null;
+}
+
+// --- Detection ---
+
+export function isCamt053(content: string): boolean {
+    const head = content.slice(0, 2000);
+    return head.includes('<') && (head.includes('camt.053') || head.includes('BkToCstmrStmt'));
+}
+
+export function isMt940(content: string): boolean {
+    return /^:20:/m.test(content) && /^:61:/m.test(content);
+}
+
+// --- CAMT.053 (ISO 20022 XML) ---
+
+// Helper: Always work with arrays, XML elements may occur once or many times
+function asArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+// Helper: Text content of an element that may carry attributes (e.g. <Amt Ccy="EUR">)
+function text(value: any): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'object') return String(value['#text'] ?? '');
+    return String(value);
+}
+
+// Helper: <Dt> or <DtTm> inside a date element
+function camtDate(value: any): Date | null {
+    const raw = text(value?.Dt ?? value?.DtTm);
+    if (!raw) return null;
+    const [year, month, day] = raw.slice(0, 10).split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+// Party name: <Nm> sits directly in Dbtr/Cdtr (camt.053.001.02) or in Pty (001.08+)
+function partyName(party: any): string {
+    return text(party?.Nm ?? party?.Pty?.Nm);
+}
+
+function partyIban(account: any): string | null {
+    return text(account?.Id?.IBAN) || null;
+}
+
+export function parseCamt053(content: string): StatementEntry[] {
+    const parser = new XMLParser({ ignoreAttributes: false, removeNSPrefix: true, parseTagValue: false });
+    const doc = parser.parse(content);
+    const statements = asArray(doc?.Document?.BkToCstmrStmt?.Stmt);
+    const entries: StatementEntry[] = [];
+
+    for (const stmt of statements) {
+        for (const ntry of asArray<any>(stmt.Ntry)) {
+            const isDebit = text(ntry.CdtDbtInd) === 'DBIT';
+            const bookingDate = camtDate(ntry.BookgDt);
+            if (!bookingDate) continue;
+            const valueDate = camtDate(ntry.ValDt);
+            const txDetails = asArray<any>(ntry.NtryDtls).flatMap(d => asArray<any>(d.TxDtls));
+
+            // Batch entries with several transactions are split, otherwise the entry amount is used
+            const parts = txDetails.length > 1 && txDetails.every(tx => tx.Amt || tx.AmtDtls?.TxAmt?.Amt)
+                ? txDetails
+                : [txDetails[0]];
+
+            for (const tx of parts) {
+                const amt = parts.length > 1 ? (tx.Amt ?? tx.AmtDtls.TxAmt.Amt) : ntry.Amt;
+                const amount = parseFloat(text(amt));
+                const parties = tx?.RltdPties;
+                // For incoming payments the counterparty is the debtor, for outgoing the creditor
+                const party = isDebit ? parties?.Cdtr : parties?.Dbtr;
+                const account = isDebit ? parties?.CdtrAcct : parties?.DbtrAcct;
+                const remittance = tx?.RmtInf;
+                const purpose = asArray(remittance?.Ustrd).map(text).join(' ').trim() || text(ntry.AddtlNtryInf);
+                const reference = asArray<any>(remittance?.Strd).map(s => text(s?.CdtrRefInf?.Ref)).find(Boolean) || null;
+                const endToEndId = text(tx?.Refs?.EndToEndId);
+
+                entries.push({
+                    bookingDate,
+                    valueDate,
+                    amount: isDebit ? -Math.abs(amount) : Math.abs(amount),
+                    currency: (typeof amt === 'object' && amt['@_Ccy']) || 'EUR',
+                    counterparty: partyName(party),
+                    counterpartyIban: partyIban(account),
+                    purpose,
+                    reference,
+                    endToEndId: endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : null
+                });
+            }
+        }
+    }
+    return entries;
+}
+
+// --- MT940 (SWIFT) ---
+
+// Split the statement into tagged fields (":61:...", ":86:...") with continuation lines joined
+function mt940Fields(content: string): { tag: string; value: string }[] {
+    const fields: { tag: string; value: string }[] = [];
+    for (const line of content.split(/\r?\n/)) {
+        const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+        if (match) {
+            fields.push({ tag: match[1], value: match[2] });
+        } else if (fields.length > 0 && line.trim() !== '-' && line.trim() !== '') {
+            fields[fields.length - 1].value += '\n' + line;
+        }
+    }
+    return fields;
+}
+
+// :86: in the German "?xx" sub-field format (DFÜ-Abkommen), e.g. ?20 purpose, ?31 IBAN, ?32 name
+function parseInfoField(value: string): { purpose: string; counterparty: string; iban: string | null } {
+    const flat = value.replace(/\n/g, '');
+    if (!flat.includes('?')) {
+        return { purpose: flat.trim(), counterparty: '', iban: null };
+    }
+    const sub: Record<string, string> = {};
+    for (const part of flat.split('?').slice(1)) {
+        const key = part.slice(0, 2);
+        sub[key] = (sub[key] || '') + part.slice(2);
+    }
+    const purposeKeys = ['20', '21', '22', '23', '24', '25', '26', '27', '28', '29', '60', '61', '62', '63'];
+    return {
+        purpose: purposeKeys.map(k => sub[k] || '').join('').trim(),
+        counterparty: `${sub['32'] || ''}${sub['33'] || ''}`.trim(),
+        iban: sub['31'] && /^[A-Z]{2}\d{2}/.test(sub['31']) ? sub['31'].trim() : null
+    };
+}
+
+// SEPA purpose text carries keyed parts like "EREF+..." and "SVWZ+..."
+function sepaPart(purpose: string, key: string): string | null {
+    const match = purpose.match(new RegExp(`${key}\\+(.*?)(?=(?:EREF|KREF|MREF|CRED|DEBT|SVWZ|ABWA|ABWE|IBAN|BIC)\\+|$)`));
+    return match ? match[1].trim() : null;
+}
+
+function mt940Date(yymmdd: string): Date {
+    const year = 2000 + parseInt(yymmdd.slice(0, 2));
+    return new Date(year, parseInt(yymmdd.slice(2, 4)) - 1, parseInt(yymmdd.slice(4, 6)));
+}
+
+export function parseMt940(content: string): StatementEntry[] {
+    const entries: StatementEntry[] = [];
+    let currency = 'EUR';
+    let current: StatementEntry | null = null;
+
+    for (const { tag, value } of mt940Fields(content)) {
+        if (tag === '60F' || tag === '60M') {
+            // Opening balance: C/D mark, date, currency
+            currency = value.slice(7, 10) || currency;
+        } else if (tag === '61') {
+            // Statement line: value date YYMMDD, optional booking date MMDD, (R)C/(R)D mark, amount
+            const match = value.match(/^(\d{6})(\d{4})?(R?[CD])[A-Z]?(\d+,\d*)/);
+            if (!match) continue;
+            const valueDate = mt940Date(match[1]);
+            let bookingDate = valueDate;
+            if (match[2]) {
+                bookingDate = new Date(valueDate.getFullYear(), parseInt(match[2].slice(0, 2)) - 1, parseInt(match[2].slice(2, 4)));
+                // Booking date in January for a December value date belongs to the next year (and vice versa)
+                if (bookingDate.getMonth() === 0 && valueDate.getMonth() === 11) bookingDate.setFullYear(valueDate.getFullYear() + 1);
+                if (bookingDate.getMonth() === 11 && valueDate.getMonth() === 0) bookingDate.setFullYear(valueDate.getFullYear() - 1);
+            }
+            const amount = parseFloat(match[4].replace(',', '.'));
+            // D and RC (reversal of a credit) reduce the balance
+            const isDebit = match[3] === 'D' || match[3] === 'RC';
+            current = {
+                bookingDate,
+                valueDate,
+                amount: isDebit ? -amount : amount,
+                currency,
+                counterparty: '',
+                counterpartyIban: null,
+                purpose: '',
+                reference: null,
+                endToEndId: null
+            };
+            entries.push(current);
+        } else if (tag === '86' && current) {
+            const info = parseInfoField(value);
+            const endToEndId = sepaPart(info.purpose, 'EREF');
+            const creditorRef = sepaPart(info.purpose, 'KREF');
+            current.purpose = sepaPart(info.purpose, 'SVWZ') || info.purpose;
+            current.counterparty = info.counterparty;
+            current.counterpartyIban = info.iban;
+            current.endToEndId = endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : null;
+            current.reference = creditorRef || (current.purpose.match(/\bRF\d{2}[A-Z0-9]{1,21}\b/)?.[0] ?? null);
+            current = null;
+        }
+    }
+    return entries;
+}
+
+// --- Identity ---
+
+// The parts that identify a bank transaction in any format (CSV export, CAMT.053, MT940), used for its
+// import fingerprint. The formats write the same transfer differently: SEPA keys ("EREF+... SVWZ+...")
+// and line breaks in the purpose, umlauts spelled out and long names cut in MT940. So only letters and
+// digits are compared, the purpose from its SVWZ part on and the first 27 of the name.
+export function bankIdentity(t: { bookingDate: Date; amount: number; counterparty: string; purpose: string }): [Date, number, string, string] {
+    return [t.bookingDate, t.amount, comparable(t.counterparty).slice(0, 27), comparable(sepaPart(t.purpose || '', 'SVWZ') ?? t.purpose)];
+}
+
+function comparable(value: string): string {
+    return (value || '').toLowerCase()
+        .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+        .replace(/[^a-z0-9]/g, '');
+}
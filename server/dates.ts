@@ -0,0 +1,109 @@
+// Order of day and month in slash dates ("03/04/2025"): US exports write MM/dd, European ones dd/MM
+export type SlashDateOrder = 'MDY' | 'DMY';
+
+// Helper: Parse German Date (dd.MM.yyyy, dd.MM.yy, yyyy-mm-dd, etc.). Slash dates follow slashOrder;
+// without it only dates that read the same either way (a part above 12, or day = month) are accepted.
+export function parseDate(dateStr: string, slashOrder: SlashDateOrder | null = null): Date | null {
+    if (!dateStr) return null;
+    let clean = dateStr.trim();
+
+    // Try standard dd.MM.yyyy or dd.MM.yy
+    if (clean.includes('.')) {
+        const parts = clean.split('.');
+        if (parts.length === 3) {
+            const day = parseInt(parts[0]);
+            const month = parseInt(parts[1]) - 1;
+            let year = parseInt(parts[2]);
+            // Handle 2-digit year
+            if (year < 100) year += 2000;
+            if (!isNaN(day) && !isNaN(month) && !isNaN(year)) {
+                return new Date(year, month, day);
+            }
+        }
+    }
+
+    // Try yyyy-mm-dd
+    if (clean.includes('-')) {
+        const parts = clean.split('-');
+        if (parts.length === 3) {
+            // Check if first part is year (4 digits)
+            if (parts[0].length === 4) {
+                return new Date(clean);
+            }
+            // Maybe dd-mm-yyyy?
+            const day = parseInt(parts[0]);
+            const month = parseInt(parts[1]) - 1;
+            const year = parseInt(parts[2]);
+            return new Date(year, month, day);
+        }
+    }
+
+    // Try MM/dd/yyyy or dd/MM/yyyy; a part above 12 can only be the day
+    if (clean.includes('/')) {
+        const parts = clean.split(' ')[0].split('/');
+        if (parts.length === 3 && parts[0].length === 4) {
+            return new Date(parseInt(parts[0]), parseInt(parts[1]) - 1, parseInt(parts[2]));
+        }
+        if (parts.length === 3) {
+            const first = parseInt(parts[0]);
+            const second = parseInt(parts[1]);
+            let year = parseInt(parts[2]);
+            const order = first > 12 ? 'DMY' : second > 12 ? 'MDY' : slashOrder;
+            // Ambiguous ("03/04/2025") and the order of the export is unknown: rather no date than a wrong one
+            if (!order && first !== second) return null;
+            const [month, day] = order === 'DMY' ? [second - 1, first] : [first - 1, second];
+            if (year < 100) year += 2000;
+            if (!isNaN(day) && !isNaN(month) && !isNaN(year)) {
+                return new Date(year, month, day);
+            }
+        }
+    }
+
+    // Try verbose format (14. Okt. 2025, 9 Jun 2025)
+    const months: { [key: string]: number } = {
+        // German Short
+        'Jan': 0, 'Feb': 1, 'Mär': 2, 'Apr': 3, 'Mai': 4, 'Jun': 5,
+        'Jul': 6, 'Aug': 7, 'Sep': 8, 'Sept': 8, 'Okt': 9, 'Nov': 10, 'Dez': 11,
+        // German Full
+        'Januar': 0, 'Februar': 1, 'März': 2, 'April': 3, 'Juni': 5,
+        'Juli': 6, 'August': 7, 'September': 8, 'Oktober': 9, 'November': 10, 'Dezember': 11,
+        // English Short & Full
+        'Oct': 9, 'Dec': 11, 'Mar': 2, 'May': 4,
+        'January': 0, 'February': 1, 'March': 2, 'June': 5, 'July': 6, 'October': 9, 'December': 11
+    };
+
+    // Clean up the string: remove quotes, extra spaces
+    clean = clean.replace(/['"]/g, '').trim();
+
+    // Try splitting by space
+    const verboseParts = clean.split(' ');
+    if (verboseParts.length >= 3) {
+        // Handle "9 Jun 2025" or "14. Okt. 2025"
+        const dayStr = verboseParts[0].replace('.', '');
+        const monthStr = verboseParts[1].replace('.', '');
+        const yearStr = verboseParts[2];
+
+        const day = parseInt(dayStr);
+        const year = parseInt(yearStr);
+        const month = months[monthStr];
+
+        if (!isNaN(day) && month !== undefined && !isNaN(year)) {
+            return new Date(year, month, day);
+        }
+    }
+
+    return null;
+}
+
+// Helper: Order of the slash dates in an export, from the values where only one reading is possible.
+// Null if no value decides it or the values contradict each other.
+export function detectSlashOrder(values: string[]): SlashDateOrder | null {
+    const found = new Set<SlashDateOrder>();
+    for (const value of values) {
+        const parts = value.trim().split(' ')[0].split('/');
+        if (parts.length !== 3 || parts[0].length === 4) continue;
+        if (parseInt(parts[0]) > 12) found.add('DMY');
+        else if (parseInt(parts[1]) > 12) found.add('MDY');
+    }
+    return found.size === 1 ? [...found][0] : null;
+}
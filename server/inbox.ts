@@ -0,0 +1,169 @@
+import path from 'path';
+import fs from 'fs';
+
+// Watched inbox folder: files dropped here (e.g. by a synced download folder) are imported
+// like manual uploads and then moved to the archive or failed folder.
+//
+//   INBOX_DIR            folder to watch, the watcher is off without it
+//   INBOX_ARCHIVE_DIR    defaults to <INBOX_DIR>/archive
+//   INBOX_FAILED_DIR     defaults to <INBOX_DIR>/failed
+//   INBOX_POLL_SECONDS   scan interval, defaults to 30
+
+const DEFAULT_POLL_SECONDS = 30;
+const SUPPORTED_EXTENSIONS = ['.csv', '.xlsx', '.xls', '.xml', '.sta', '.mt940', '.txt'];
+const RECENT_LIMIT = 20;
+
+export interface InboxImportResult {
+    id?: number;
+    status: string;
+    type?: string;
+    count?: number;
+    error?: string;
+}
+
+export type InboxImporter = (filePath: string, originalName: string) => Promise<InboxImportResult>;
+
+export interface InboxStatus {
+    enabled: boolean;
+    inboxDir: string | null;
+    archiveDir: string | null;
+    failedDir: string | null;
+    pollSeconds: number;
+    lastScan: Date | null;
+    recent: { file: string; importedFileId?: number; status: 'archived' | 'failed'; message: string; date: Date }[];
+}
+
+const status: InboxStatus = {
+    enabled: false,
+    inboxDir: null,
+    archiveDir: null,
+    failedDir: null,
+    pollSeconds: DEFAULT_POLL_SECONDS,
+    lastScan: null,
+    recent: []
+};
+
+let importer: InboxImporter | null = null;
+let scanning = false;
+// Size + mtime of files seen in the previous scan; a file is only imported once it stopped changing
+const pending = new Map<string, string>();
+
+export function getInboxStatus(): InboxStatus {
+    return status;
+}
+
+export function startInboxWatcher(importFn: InboxImporter) {
+    const inboxDir = process.env.INBOX_DIR;
+    if (!inboxDir) return;
+
+    status.inboxDir = path.resolve(inboxDir);
+    status.archiveDir = path.resolve(process.env.INBOX_ARCHIVE_DIR || path.join(status.inboxDir, 'archive'));
+    status.failedDir = path.resolve(process.env.INBOX_FAILED_DIR || path.join(status.inboxDir, 'failed'));
+    status.pollSeconds = parseInt(process.env.INBOX_POLL_SECONDS || '') || DEFAULT_POLL_SECONDS;
+
+    for (const dir of [status.inboxDir, status.archiveDir, status.failedDir]) {
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+    }
+
+    importer = importFn;
+    status.enabled = true;
+    console.log(`Watching inbox ${status.inboxDir} every ${status.pollSeconds}s (archive: ${status.archiveDir}, failed: ${status.failedDir})`);
+
+    // Polling instead of fs.watch: works the same on network shares and synced folders
+    setInterval(() => {
+        scanInbox().catch(err => console.error('Inbox scan failed:', err));
+    }, status.pollSeconds * 1000);
+    scanInbox().catch(err => console.error('Inbox scan failed:', err));
+}
+
+// Import every file in the inbox that has been stable since the last scan.
+// With force, files are imported right away (manual "scan now").
+export async function scanInbox(force = false): Promise<number> {
+    if (!status.enabled || !importer || scanning) return 0;
+    scanning = true;
+    let imported = 0;
+
+    try {
+        const entries = fs.readdirSync(status.inboxDir!, { withFileTypes: true })
+            .filter(e => e.isFile() && !e.name.startsWith('.') && !e.name.startsWith('~$'))
+            .map(e => e.name)
+            .sort();
+
+        for (const name of [...pending.keys()]) {
+            if (!entries.includes(name)) pending.delete(name);
+        }
+
+        for (const name of entries) {
+            const filePath = path.join(status.inboxDir!, name);
+            const stat = fs.statSync(filePath);
+            const signature = `${stat.size}-${stat.mtimeMs}`;
+
+            // Still being written (or first seen): wait for the next scan
+            if (!force && pending.get(name) !== signature) {
+                pending.set(name, signature);
+                continue;
+            }
+            pending.delete(name);
+
+            if (!SUPPORTED_EXTENSIONS.includes(path.extname(name).toLowerCase())) {
+                moveTo(filePath, status.failedDir!, `Unsupported file type ${path.extname(name) || '(none)'}`);
+                continue;
+            }
+
+            await importInboxFile(filePath, name);
+            imported++;
+        }
+    } finally {
+        status.lastScan = new Date();
+        scanning = false;
+    }
+    return imported;
+}
+
+async function importInboxFile(filePath: string, name: string) {
+    // Work on a copy in the upload directory, so the stored file is handled exactly like a manual upload
+    const uploadDir = path.join(__dirname, 'uploads');
+    if (!fs.existsSync(uploadDir)) {
+        fs.mkdirSync(uploadDir);
+    }
+    const uploadPath = path.join(uploadDir, `${Date.now()}-${name}`);
+    fs.copyFileSync(filePath, uploadPath);
+
+    console.log(`Inbox: importing ${name}`);
+    try {
+        const result = await importer!(uploadPath, name);
+        if (result.status === 'error' || result.type === 'UNKNOWN') {
+            moveTo(filePath, status.failedDir!, result.error || 'File type not recognized', result.id);
+        } else {
+            moveTo(filePath, status.archiveDir!, `${result.type}: ${result.count} records`, result.id);
+        }
+    } catch (e) {
+        console.error(`Inbox: error importing ${name}:`, e);
+        moveTo(filePath, status.failedDir!, String(e));
+    }
+}
+
+// Move a processed file out of the inbox, never overwriting an earlier file of the same name
+function moveTo(filePath: string, dir: string, message: string, importedFileId?: number) {
+    const name = path.basename(filePath);
+    let target = path.join(dir, name);
+    if (fs.existsSync(target)) {
+        const ext = path.extname(name);
+        target = path.join(dir, `${path.basename(name, ext)}_${Date.now()}${ext}`);
+    }
+    try {
+        fs.renameSync(filePath, target);
+    } catch (e) {
+        // Archive on another drive: rename cannot cross devices
+        if ((e as NodeJS.ErrnoException).code !== 'EXDEV') throw e;
+        fs.copyFileSync(filePath, target);
+        fs.unlinkSync(filePath);
+    }
+
+    const outcome = dir === status.archiveDir ? 'archived' : 'failed';
+    console.log(`Inbox: ${name} ${outcome} (${message})`);
+    status.recent.unshift({ file: name, importedFileId, status: outcome, message, date: new Date() });
+    status.recent.splice(RECENT_LIMIT);
+}
@@ -4,7 +4,17 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { PrismaClient } from '@prisma/client';
-import { processFile } from './parsers';
+import { processFile, SUPPORTED_ENCODINGS } from './parsers';
+import { getParser, registeredParsers } from './parserRegistry';
+import { previewRollback, rollbackImportedFile } from './rollback';
+import { startInboxWatcher, scanInbox, getInboxStatus } from './inbox';
+import { removeExpiredStagedFiles } from './staging';
+import { startReconciliationSchedule, reconcileAfterImport } from './reconciliationSchedule';
+import { FIELD_DEFINITIONS, DEFAULT_PROFILES, validateProfile } from './mappings';
+import { RULE_SOURCES, DEFAULT_RULES, loadRules, saveRules, resetRules, validateRules } from './rules';
+import { SETTLEMENT_CHANNELS, isSettlementChannel, paymentTypeReport } from './paymentTypes';
+import { MANUAL_PAYMENT_TYPES, ManualPaymentType, createManualMatch, removeMatch, searchUnmatchedPayments } from './manualMatching';
+import { UNMATCHED_SOURCES, UnmatchedSource, PAYMENT_FLAGS, PaymentFlagType, listUnmatchedPayments, summarizeUnmatchedPayments, flagPayment, unflagPayment } from './unmatchedPayments';
 
 const app = express();
 const prisma = new PrismaClient();
@@ -15,9 +25,11 @@ app.use(cors());
 app.use(express.json());
 
 // File Upload Configuration
+const uploadDir = path.join(__dirname, 'uploads');
+const stagingDir = path.join(uploadDir, 'staging'); // Previewed uploads, see staging.ts
+
 const storage = multer.diskStorage({
     destination: (req, file, cb) => {
-        const uploadDir = path.join(__dirname, 'uploads');
         if (!fs.existsSync(uploadDir)) {
             fs.mkdirSync(uploadDir);
         }
@@ -35,89 +47,170 @@ app.get('/api/health', (req, res) => {
     res.json({ status: 'ok' });
 });
 
-// Upload Endpoint
-app.post('/api/upload', upload.array('files'), async (req, res) => {
-    try {
-        const files = req.files as Express.Multer.File[];
-        if (!files || files.length === 0) {
-            return res.status(400).json({ error: 'No files uploaded' });
+// Import a single uploaded file into the database and record it in the file history.
+// The history entry is created first so every imported record can reference it (rollback).
+async function importFile(filePath: string, originalName: string, encoding?: string, type?: string) {
+    const importedFile = await prisma.importedFile.create({
+        data: {
+            filename: originalName,
+            originalName: originalName,
+            type: 'PENDING',
+            recordCount: 0
         }
+    });
 
-        const results = [];
+    try {
+        const result = await processFile(filePath, { encoding, type, importedFileId: importedFile.id });
 
-        for (const file of files) {
-            try {
-                const result = await processFile(file.path);
+        // Auto-Rename Logic
+        let newFilename = originalName;
+        if (result.dateRangeStart) {
+            const month = result.dateRangeStart.toLocaleString('default', { month: 'short' });
+            const year = result.dateRangeStart.getFullYear();
+            const type = result.type === 'UNKNOWN' ? 'File' : result.type;
+            newFilename = `${type}_${month}_${year}_${Date.now()}${path.extname(originalName).toLowerCase() || '.csv'}`;
 
-                // Duplicate check removed to allow re-processing (upsert handles data deduplication)
-                /*
-                const existingFile = await prisma.importedFile.findFirst({
-                    where: {
-                        originalName: file.originalname,
-                        type: result.type,
-                        dateRangeStart: result.dateRangeStart,
-                        dateRangeEnd: result.dateRangeEnd
-                    },
-                    orderBy: { importDate: 'desc' }
-                });
+            const newPath = path.join(path.dirname(filePath), newFilename);
+            fs.renameSync(filePath, newPath);
+        }
 
-                if (existingFile && existingFile.recordCount > 0) {
-                    // ...
+        // Save to DB
+        await prisma.importedFile.update({
+            where: { id: importedFile.id },
+            data: {
+                filename: newFilename,
+                type: result.type,
+                recordCount: result.count,
+                dateRangeStart: result.dateRangeStart,
+                dateRangeEnd: result.dateRangeEnd,
+                logs: result.logs ? JSON.stringify(result.logs) : null,
+                rowErrors: {
+                    create: (result.skipped || []).map(s => ({
+                        row: s.row,
+                        field: s.field,
+                        reason: s.reason,
+                        raw: s.raw ? JSON.stringify(s.raw) : null
+                    }))
                 }
-                */
+            }
+        });
 
-                // Auto-Rename Logic
-                let newFilename = file.originalname;
-                if (result.dateRangeStart) {
-                    const month = result.dateRangeStart.toLocaleString('default', { month: 'short' });
-                    const year = result.dateRangeStart.getFullYear();
-                    const type = result.type === 'UNKNOWN' ? 'File' : result.type;
-                    newFilename = `${type}_${month}_${year}_${Date.now()}.csv`;
+        if (result.count > 0) reconcileAfterImport();
 
-                    const newPath = path.join(path.dirname(file.path), newFilename);
-                    fs.renameSync(file.path, newPath);
-                }
+        return {
+            id: importedFile.id,
+            filename: newFilename,
+            originalName: originalName,
+            status: 'processed',
+            type: result.type,
+            count: result.count,
+            duplicates: result.duplicates || 0,
+            skipped: result.skipped?.length || 0,
+            encoding: result.encoding
+        };
+    } catch (e) {
+        console.error(`Error processing ${originalName}:`, e);
 
-                // Save to DB
-                await prisma.importedFile.create({
-                    data: {
-                        filename: newFilename,
-                        originalName: file.originalname,
-                        type: result.type,
-                        recordCount: result.count,
-                        dateRangeStart: result.dateRangeStart,
-                        dateRangeEnd: result.dateRangeEnd,
-                        logs: result.logs ? JSON.stringify(result.logs) : null
-                    }
-                });
+        // Save Error to DB History
+        await prisma.importedFile.update({
+            where: { id: importedFile.id },
+            data: {
+                type: 'ERROR',
+                logs: JSON.stringify([`Error processing file: ${String(e)}`])
+            }
+        });
 
-                results.push({
-                    filename: newFilename,
-                    originalName: file.originalname,
-                    status: 'processed',
-                    type: result.type,
-                    count: result.count
-                });
-            } catch (e) {
-                console.error(`Error processing ${file.originalname}:`, e);
+        return {
+            id: importedFile.id,
+            filename: originalName,
+            status: 'error',
+            error: String(e)
+        };
+    }
+}
 
-                // Save Error to DB History
-                await prisma.importedFile.create({
-                    data: {
-                        filename: file.originalname,
-                        originalName: file.originalname,
-                        type: 'ERROR',
-                        recordCount: 0,
-                        logs: JSON.stringify([`Error processing file: ${String(e)}`])
-                    }
-                });
+// File types the importer can detect (for forcing a type on upload)
+app.get('/api/file-types', (req, res) => {
+    res.json(registeredParsers());
+});
 
-                results.push({
-                    filename: file.originalname,
-                    status: 'error',
-                    error: String(e)
-                });
+// Watched inbox folder (configured via INBOX_DIR)
+app.get('/api/inbox', (req, res) => {
+    res.json(getInboxStatus());
+});
+
+app.post('/api/inbox/scan', async (req, res) => {
+    try {
+        if (!getInboxStatus().enabled) {
+            return res.status(400).json({ error: 'Inbox folder not configured (INBOX_DIR)' });
+        }
+        const imported = await scanInbox(true);
+        res.json({ imported, ...getInboxStatus() });
+    } catch (error) {
+        console.error('Inbox scan error:', error);
+        res.status(500).json({ error: 'Inbox scan failed' });
+    }
+});
+
+// Resolve a staged upload (from a preview) to its path inside the staging directory
+function stagedFilePath(stagedFile: string): string | null {
+    const filePath = path.join(stagingDir, path.basename(stagedFile));
+    return fs.existsSync(filePath) ? filePath : null;
+}
+
+// Upload Endpoint
+// With ?preview=true the files are only parsed (dry run) and kept as staged uploads
+// until they are confirmed via /api/upload/commit or discarded; unconfirmed ones expire.
+// ?encoding=windows-1252 (etc.) overrides the automatic character set detection,
+// ?type=NEXI (etc.) skips the header detection.
+app.post('/api/upload', upload.array('files'), async (req, res) => {
+    try {
+        const files = req.files as Express.Multer.File[];
+        if (!files || files.length === 0) {
+            return res.status(400).json({ error: 'No files uploaded' });
+        }
+        const encoding = typeof req.query.encoding === 'string' && req.query.encoding ? req.query.encoding : undefined;
+        if (encoding && !SUPPORTED_ENCODINGS.includes(encoding.toLowerCase())) {
+            files.forEach(file => fs.unlinkSync(file.path));
+            return res.status(400).json({ error: `Unsupported encoding "${encoding}"` });
+        }
+        const type = typeof req.query.type === 'string' && req.query.type ? req.query.type : undefined;
+        if (type && !getParser(type)) {
+            files.forEach(file => fs.unlinkSync(file.path));
+            return res.status(400).json({ error: `Unknown file type "${type}"` });
+        }
+
+        if (req.query.preview === 'true') {
+            removeExpiredStagedFiles(stagingDir);
+            fs.mkdirSync(stagingDir, { recursive: true });
+            const previews = [];
+            for (const file of files) {
+                const stagedPath = path.join(stagingDir, file.filename);
+                fs.renameSync(file.path, stagedPath);
+                try {
+                    const result = await processFile(stagedPath, { dryRun: true, encoding, type });
+                    previews.push({
+                        stagedFile: file.filename,
+                        originalName: file.originalname,
+                        status: 'staged',
+                        ...result
+                    });
+                } catch (e) {
+                    console.error(`Error previewing ${file.originalname}:`, e);
+                    fs.unlinkSync(stagedPath);
+                    previews.push({
+                        originalName: file.originalname,
+                        status: 'error',
+                        error: String(e)
+                    });
+                }
             }
+            return res.json({ message: 'Files parsed (preview only)', previews });
+        }
+
+        const results = [];
+        for (const file of files) {
+            results.push(await importFile(file.path, file.originalname, encoding, type));
         }
 
         res.json({ message: 'Files uploaded and processed', results });
@@ -127,18 +220,102 @@ app.post('/api/upload', upload.array('files'), async (req, res) => {
     }
 });
 
+// Commit staged uploads after the user confirmed the preview
+app.post('/api/upload/commit', async (req, res) => {
+    const { files } = req.body as { files?: { stagedFile: string; originalName: string; encoding?: string; type?: string }[] };
+    if (!Array.isArray(files) || files.length === 0) {
+        return res.status(400).json({ error: 'files (stagedFile, originalName) required' });
+    }
+    try {
+        const results = [];
+        for (const file of files) {
+            const filePath = stagedFilePath(file.stagedFile);
+            if (!filePath) {
+                results.push({ filename: file.stagedFile, originalName: file.originalName, status: 'error', error: 'Staged file not found' });
+                continue;
+            }
+            // Imported files are kept in the upload directory
+            const uploadPath = path.join(uploadDir, path.basename(filePath));
+            fs.renameSync(filePath, uploadPath);
+            results.push(await importFile(uploadPath, file.originalName, file.encoding, file.type));
+        }
+        res.json({ message: 'Files uploaded and processed', results });
+    } catch (error) {
+        console.error('Commit error:', error);
+        res.status(500).json({ error: 'Failed to import staged files' });
+    }
+});
+
+// Discard a staged upload without importing it
+app.delete('/api/upload/staged/:stagedFile', async (req, res) => {
+    const filePath = stagedFilePath(req.params.stagedFile);
+    if (!filePath) {
+        return res.status(404).json({ error: 'Staged file not found' });
+    }
+    try {
+        fs.unlinkSync(filePath);
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Error discarding staged file:', error);
+        res.status(500).json({ error: 'Failed to discard staged file' });
+    }
+});
+
 // Get Uploaded Files
 app.get('/api/files', async (req, res) => {
     try {
         const files = await prisma.importedFile.findMany({
-            orderBy: { importDate: 'desc' }
+            orderBy: { importDate: 'desc' },
+            include: { _count: { select: { rowErrors: true } } }
         });
-        res.json(files);
+        res.json(files.map(({ _count, ...file }) => ({ ...file, rowErrorCount: _count.rowErrors })));
     } catch (error) {
         res.status(500).json({ error: 'Failed to fetch files' });
     }
 });
 
+// Preview what rolling back an imported file would remove
+app.get('/api/files/:id/rollback', async (req, res) => {
+    try {
+        const preview = await previewRollback(parseInt(req.params.id));
+        if (!preview) {
+            return res.status(404).json({ error: 'Imported file not found' });
+        }
+        res.json(preview);
+    } catch (error) {
+        console.error('Error previewing rollback:', error);
+        res.status(500).json({ error: 'Failed to preview rollback' });
+    }
+});
+
+// Roll back a single imported file: removes the records it created and the matches depending on them
+app.delete('/api/files/:id', async (req, res) => {
+    try {
+        const result = await rollbackImportedFile(parseInt(req.params.id));
+        if (!result) {
+            return res.status(404).json({ error: 'Imported file not found' });
+        }
+        res.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error rolling back import:', error);
+        res.status(500).json({ error: 'Failed to roll back import' });
+    }
+});
+
+// Skipped / failed rows of one imported file
+app.get('/api/files/:id/errors', async (req, res) => {
+    try {
+        const errors = await prisma.importRowError.findMany({
+            where: { importedFileId: parseInt(req.params.id) },
+            orderBy: { row: 'asc' }
+        });
+        res.json(errors.map(e => ({ ...e, raw: e.raw ? JSON.parse(e.raw) : null })));
+    } catch (error) {
+        console.error('Error fetching import errors:', error);
+        res.status(500).json({ error: 'Failed to fetch import errors' });
+    }
+});
+
 // Get Import Status by Month (Grouped list of files)
 app.get('/api/import-status', async (req, res) => {
     try {
@@ -233,11 +410,14 @@ app.get('/api/import-status', async (req, res) => {
 });
 
 // Reconciliation Endpoint
-import { runReconciliation } from './reconciliation';
+import { runReconciliation, acceptSuggestion, isReconciliationRunning, revertRun } from './reconciliation';
 
 app.post('/api/reconcile', async (req, res) => {
+    if (isReconciliationRunning()) {
+        return res.status(409).json({ error: 'A reconciliation run is already in progress' });
+    }
     try {
-        const result = await runReconciliation();
+        const result = await runReconciliation('MANUAL');
         res.json({ message: 'Reconciliation complete', ...result });
     } catch (error) {
         console.error('Reconciliation error:', error);
@@ -245,6 +425,289 @@ app.post('/api/reconcile', async (req, res) => {
     }
 });
 
+// Accept a suggested payment for an open invoice
+app.post('/api/suggestions/:id/accept', async (req, res) => {
+    try {
+        const result = await acceptSuggestion(parseInt(req.params.id), typeof req.body?.user === 'string' ? req.body.user : undefined);
+        if (!result) {
+            return res.status(404).json({ error: 'Suggestion not found' });
+        }
+        if ('error' in result) {
+            return res.status(409).json({ error: result.error });
+        }
+        res.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error accepting suggestion:', error);
+        res.status(500).json({ error: 'Failed to accept suggestion' });
+    }
+});
+
+// Unmatched bank transfers, card payments or Booking.com reservations for the manual match dialog
+app.get('/api/payments/unmatched', async (req, res) => {
+    const { type, amount, from, to, q } = req.query;
+    if (!MANUAL_PAYMENT_TYPES.includes(type as ManualPaymentType)) {
+        return res.status(400).json({ error: `type must be one of ${MANUAL_PAYMENT_TYPES.join(', ')}` });
+    }
+    const parsedAmount = typeof amount === 'string' && amount !== '' ? parseFloat(amount) : undefined;
+    const fromDate = typeof from === 'string' && from ? new Date(from) : undefined;
+    const toDate = typeof to === 'string' && to ? new Date(`${to}T23:59:59.999`) : undefined;
+    if ((parsedAmount !== undefined && isNaN(parsedAmount)) || (fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ error: 'Invalid amount or date' });
+    }
+    try {
+        res.json(await searchUnmatchedPayments({
+            type: type as ManualPaymentType,
+            amount: parsedAmount,
+            from: fromDate,
+            to: toDate,
+            text: typeof q === 'string' ? q : undefined
+        }));
+    } catch (error) {
+        console.error('Error searching payments:', error);
+        res.status(500).json({ error: 'Failed to search payments' });
+    }
+});
+
+// Link an invoice to a payment by hand
+app.post('/api/invoices/:id/matches', async (req, res) => {
+    const { type, paymentId, user } = req.body;
+    if (!MANUAL_PAYMENT_TYPES.includes(type) || !Number.isInteger(paymentId)) {
+        return res.status(400).json({ error: `type (${MANUAL_PAYMENT_TYPES.join(', ')}) and paymentId are required` });
+    }
+    if (typeof user !== 'string' || !user.trim()) {
+        return res.status(400).json({ error: 'user is required' });
+    }
+    try {
+        const result = await createManualMatch(parseInt(req.params.id), type, paymentId, user.trim());
+        if (!result) {
+            return res.status(404).json({ error: 'Invoice or payment not found' });
+        }
+        if ('error' in result) {
+            return res.status(409).json({ error: result.error });
+        }
+        res.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error creating manual match:', error);
+        res.status(500).json({ error: 'Failed to create match' });
+    }
+});
+
+// Unmatch: the payment is free again and the invoice open
+app.delete('/api/matches/:id', async (req, res) => {
+    try {
+        const result = await removeMatch(parseInt(req.params.id));
+        if (!result) {
+            return res.status(404).json({ error: 'Match not found' });
+        }
+        if ('error' in result) {
+            return res.status(409).json({ error: result.error });
+        }
+        res.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error removing match:', error);
+        res.status(500).json({ error: 'Failed to remove match' });
+    }
+});
+
+// Unmatched payments workbench: open and flagged payments per source and month
+app.get('/api/unmatched-payments/summary', async (req, res) => {
+    try {
+        res.json(await summarizeUnmatchedPayments());
+    } catch (error) {
+        console.error('Error summarizing unmatched payments:', error);
+        res.status(500).json({ error: 'Failed to summarize unmatched payments' });
+    }
+});
+
+app.get('/api/unmatched-payments', async (req, res) => {
+    const { source, month, status, q } = req.query;
+    if (!UNMATCHED_SOURCES.includes(source as UnmatchedSource)) {
+        return res.status(400).json({ error: `source must be one of ${UNMATCHED_SOURCES.join(', ')}` });
+    }
+    if (month !== undefined && month !== '' && (typeof month !== 'string' || !/^\d{4}-\d{2}$/.test(month))) {
+        return res.status(400).json({ error: 'month must be YYYY-MM' });
+    }
+    if (status !== undefined && status !== 'open' && status !== 'flagged' && status !== 'all') {
+        return res.status(400).json({ error: 'status must be open, flagged or all' });
+    }
+    try {
+        res.json(await listUnmatchedPayments({
+            source: source as UnmatchedSource,
+            month: month ? month as string : undefined,
+            status,
+            text: typeof q === 'string' ? q : undefined
+        }));
+    } catch (error) {
+        console.error('Error listing unmatched payments:', error);
+        res.status(500).json({ error: 'Failed to list unmatched payments' });
+    }
+});
+
+// Mark a payment as not needing an invoice (deposit, not hotel revenue, refund, ...)
+app.put('/api/unmatched-payments/:source/:id/flag', async (req, res) => {
+    const source = req.params.source as UnmatchedSource;
+    const { flag, note, user } = req.body;
+    if (!UNMATCHED_SOURCES.includes(source)) {
+        return res.status(400).json({ error: `source must be one of ${UNMATCHED_SOURCES.join(', ')}` });
+    }
+    if (!PAYMENT_FLAGS.includes(flag)) {
+        return res.status(400).json({ error: `flag must be one of ${PAYMENT_FLAGS.join(', ')}` });
+    }
+    try {
+        const result = await flagPayment(
+            source,
+            parseInt(req.params.id),
+            flag as PaymentFlagType,
+            typeof note === 'string' && note.trim() ? note.trim() : null,
+            typeof user === 'string' && user.trim() ? user.trim() : null
+        );
+        if (!result) {
+            return res.status(404).json({ error: 'Payment not found' });
+        }
+        res.json(result);
+    } catch (error) {
+        console.error('Error flagging payment:', error);
+        res.status(500).json({ error: 'Failed to flag payment' });
+    }
+});
+
+app.delete('/api/unmatched-payments/:source/:id/flag', async (req, res) => {
+    const source = req.params.source as UnmatchedSource;
+    if (!UNMATCHED_SOURCES.includes(source)) {
+        return res.status(400).json({ error: `source must be one of ${UNMATCHED_SOURCES.join(', ')}` });
+    }
+    try {
+        if (!await unflagPayment(source, parseInt(req.params.id))) {
+            return res.status(404).json({ error: 'Payment is not flagged' });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Error removing payment flag:', error);
+        res.status(500).json({ error: 'Failed to remove flag' });
+    }
+});
+
+// Booking.com payouts with their reservations and the matched bank transfer
+app.get('/api/booking-payouts', async (req, res) => {
+    try {
+        const payouts = await prisma.bookingPayout.findMany({
+            orderBy: { payoutDate: 'desc' },
+            include: {
+                bankTransaction: { select: { id: true, bookingDate: true, amount: true, description: true } },
+                bookingPayments: {
+                    orderBy: { checkInDate: 'asc' },
+                    select: {
+                        id: true,
+                        referenceNumber: true,
+                        checkInDate: true,
+                        amount: true,
+                        grossAmount: true,
+                        commission: true,
+                        paymentCharge: true,
+                        matches: { select: { invoice: { select: { invoiceNumber: true } } } }
+                    }
+                }
+            }
+        });
+        res.json(payouts);
+    } catch (error) {
+        console.error('Error fetching booking payouts:', error);
+        res.status(500).json({ error: 'Failed to fetch booking payouts' });
+    }
+});
+
+// Nexi settlements with their card transactions and the matched bank credit
+app.get('/api/nexi-settlements', async (req, res) => {
+    try {
+        const settlements = await prisma.nexiSettlement.findMany({
+            orderBy: { settlementDate: 'desc' },
+            include: {
+                bankTransaction: { select: { id: true, bookingDate: true, amount: true, description: true } },
+                cardPayments: {
+                    orderBy: [{ transactionDate: 'asc' }, { transactionTime: 'asc' }],
+                    select: {
+                        id: true,
+                        transactionDate: true,
+                        transactionTime: true,
+                        cardType: true,
+                        terminalId: true,
+                        authCode: true,
+                        amount: true,
+                        grossAmount: true,
+                        fee: true,
+                        matches: { select: { invoice: { select: { invoiceNumber: true } } } }
+                    }
+                }
+            }
+        });
+        res.json(settlements);
+    } catch (error) {
+        console.error('Error fetching Nexi settlements:', error);
+        res.status(500).json({ error: 'Failed to fetch Nexi settlements' });
+    }
+});
+
+// PayPal / Stripe / SumUp payouts with their payments and the matched bank credit
+app.get('/api/provider-payouts', async (req, res) => {
+    try {
+        const payouts = await prisma.providerPayout.findMany({
+            orderBy: { payoutDate: 'desc' },
+            include: {
+                bankTransaction: { select: { id: true, bookingDate: true, amount: true, description: true } },
+                payments: {
+                    orderBy: { transactionDate: 'asc' },
+                    select: {
+                        id: true,
+                        transactionId: true,
+                        transactionDate: true,
+                        customer: true,
+                        reference: true,
+                        grossAmount: true,
+                        fee: true,
+                        netAmount: true,
+                        matches: { select: { invoice: { select: { invoiceNumber: true } } } }
+                    }
+                }
+            }
+        });
+        res.json(payouts);
+    } catch (error) {
+        console.error('Error fetching provider payouts:', error);
+        res.status(500).json({ error: 'Failed to fetch provider payouts' });
+    }
+});
+
+// Booking.com commission report: OTA fees per month (by check-out, as Booking.com invoices them)
+app.get('/api/reports/booking-commission', async (req, res) => {
+    try {
+        const year = parseInt(req.query.year as string) || new Date().getFullYear();
+        const payments = await prisma.bookingPayment.findMany({
+            where: { checkOutDate: { gte: new Date(year, 0, 1), lt: new Date(year + 1, 0, 1) } },
+            select: { checkOutDate: true, amount: true, grossAmount: true, commission: true, paymentCharge: true, netAmount: true }
+        });
+
+        const months: Record<string, { month: string; reservations: number; grossAmount: number; commission: number; paymentCharge: number; netAmount: number }> = {};
+        for (const p of payments) {
+            const month = `${p.checkOutDate.getFullYear()}-${String(p.checkOutDate.getMonth() + 1).padStart(2, '0')}`;
+            const m = months[month] ||= { month, reservations: 0, grossAmount: 0, commission: 0, paymentCharge: 0, netAmount: 0 };
+            m.reservations++;
+            m.grossAmount += p.grossAmount ?? p.amount;
+            m.commission += p.commission || 0;
+            m.paymentCharge += p.paymentCharge || 0;
+            m.netAmount += p.netAmount ?? p.amount;
+        }
+
+        const round = (n: number) => Math.round(n * 100) / 100;
+        const report = Object.values(months)
+            .sort((a, b) => a.month.localeCompare(b.month))
+            .map(m => ({ ...m, grossAmount: round(m.grossAmount), commission: round(m.commission), paymentCharge: round(m.paymentCharge), netAmount: round(m.netAmount) }));
+        res.json({ year, months: report });
+    } catch (error) {
+        console.error('Error building commission report:', error);
+        res.status(500).json({ error: 'Failed to build commission report' });
+    }
+});
+
 // Get Invoices — smart loading: last 4 months + any older month with open invoices
 app.get('/api/invoices', async (req, res) => {
     try {
@@ -283,13 +746,28 @@ app.get('/api/invoices', async (req, res) => {
                     include: {
                         bookingPayment: true,
                         cardPayment: true,
-                        bankTransaction: true
+                        otaPayment: true,
+                        providerPayment: true,
+                        bankTransaction: true,
+                        creditNote: { select: { id: true, invoiceNumber: true, amount: true } }
                     }
+                },
+                originalInvoice: { select: { id: true, invoiceNumber: true, amount: true } },
+                creditNotes: { select: { id: true, invoiceNumber: true, amount: true } },
+                changes: { orderBy: { changedAt: 'desc' } },
+                suggestions: {
+                    include: { bookingPayment: true, cardPayment: true, otaPayment: true, providerPayment: true, bankTransaction: true },
+                    orderBy: { rank: 'asc' }
                 }
             },
             orderBy: { invoiceDate: 'desc' }
         });
-        res.json(invoices);
+        // Score explanations are stored as JSON
+        res.json(invoices.map(inv => ({
+            ...inv,
+            matches: inv.matches.map(m => ({ ...m, factors: m.factors ? JSON.parse(m.factors) : null })),
+            suggestions: inv.suggestions.map(s => ({ ...s, factors: JSON.parse(s.factors) }))
+        })));
     } catch (error) {
         console.error('Error fetching invoices:', error);
         res.status(500).json({ error: 'Failed to fetch invoices', details: String(error) });
@@ -315,7 +793,7 @@ app.delete('/api/invoices/by-month', async (req, res) => {
         const ids = invoicesToDelete.map(i => i.id);
 
         // Delete matches first (FK constraint), then invoices
-        await prisma.reconciliationMatch.deleteMany({ where: { invoiceId: { in: ids } } });
+        await prisma.reconciliationMatch.deleteMany({ where: { OR: [{ invoiceId: { in: ids } }, { creditNoteId: { in: ids } }] } });
         await prisma.invoice.deleteMany({ where: { id: { in: ids } } });
 
         // Also remove imported files for that month
@@ -344,6 +822,9 @@ app.post('/api/invoices/:id/verify', async (req, res) => {
             await prisma.reconciliationMatch.deleteMany({
                 where: { invoiceId: invoiceId }
             });
+        } else {
+            // Checked off by hand: the suggested payments are no longer needed
+            await prisma.matchSuggestion.deleteMany({ where: { invoiceId } });
         }
 
         await prisma.invoice.update({
@@ -396,17 +877,211 @@ app.post('/api/invoices/:id/dunning', async (req, res) => {
     }
 });
 
+// Column Mapping Profiles
+app.get('/api/mapping-profiles', async (req, res) => {
+    try {
+        const profiles = await prisma.mappingProfile.findMany({ orderBy: [{ source: 'asc' }, { name: 'asc' }] });
+        res.json({
+            fields: FIELD_DEFINITIONS,
+            defaults: DEFAULT_PROFILES,
+            profiles: profiles.map(p => ({ ...p, fields: JSON.parse(p.fields) }))
+        });
+    } catch (error) {
+        console.error('Error fetching mapping profiles:', error);
+        res.status(500).json({ error: 'Failed to fetch mapping profiles' });
+    }
+});
+
+app.post('/api/mapping-profiles', async (req, res) => {
+    const { name, source, fields } = req.body;
+    const validationError = !name ? 'name required' : validateProfile(source, fields);
+    if (validationError) {
+        return res.status(400).json({ error: validationError });
+    }
+    try {
+        const profile = await prisma.mappingProfile.create({
+            data: { name, source, fields: JSON.stringify(fields) }
+        });
+        res.json({ ...profile, fields });
+    } catch (error) {
+        console.error('Error creating mapping profile:', error);
+        res.status(500).json({ error: 'Failed to create mapping profile' });
+    }
+});
+
+app.put('/api/mapping-profiles/:id', async (req, res) => {
+    const { id } = req.params;
+    const { name, source, fields } = req.body;
+    const validationError = !name ? 'name required' : validateProfile(source, fields);
+    if (validationError) {
+        return res.status(400).json({ error: validationError });
+    }
+    try {
+        const profile = await prisma.mappingProfile.update({
+            where: { id: parseInt(id) },
+            data: { name, source, fields: JSON.stringify(fields) }
+        });
+        res.json({ ...profile, fields });
+    } catch (error) {
+        console.error('Error updating mapping profile:', error);
+        res.status(500).json({ error: 'Failed to update mapping profile' });
+    }
+});
+
+app.delete('/api/mapping-profiles/:id', async (req, res) => {
+    const { id } = req.params;
+    try {
+        await prisma.mappingProfile.delete({ where: { id: parseInt(id) } });
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Error deleting mapping profile:', error);
+        res.status(500).json({ error: 'Failed to delete mapping profile' });
+    }
+});
+
+// Reconciliation rules (tolerances, lookback, payment type routing)
+app.get('/api/reconciliation-rules', async (req, res) => {
+    try {
+        res.json({ sources: RULE_SOURCES, defaults: DEFAULT_RULES, rules: await loadRules() });
+    } catch (error) {
+        console.error('Error fetching reconciliation rules:', error);
+        res.status(500).json({ error: 'Failed to fetch reconciliation rules' });
+    }
+});
+
+app.put('/api/reconciliation-rules', async (req, res) => {
+    const validationError = validateRules(req.body);
+    if (validationError) {
+        return res.status(400).json({ error: validationError });
+    }
+    try {
+        res.json(await saveRules(req.body));
+    } catch (error) {
+        console.error('Error saving reconciliation rules:', error);
+        res.status(500).json({ error: 'Failed to save reconciliation rules' });
+    }
+});
+
+// Back to the built-in defaults
+app.delete('/api/reconciliation-rules', async (req, res) => {
+    try {
+        res.json(await resetRules());
+    } catch (error) {
+        console.error('Error resetting reconciliation rules:', error);
+        res.status(500).json({ error: 'Failed to reset reconciliation rules' });
+    }
+});
+
+// Ibelsa payment types and the settlement channel they are reconciled through, unmapped first
+app.get('/api/payment-types', async (req, res) => {
+    try {
+        res.json({ channels: SETTLEMENT_CHANNELS, paymentTypes: await paymentTypeReport() });
+    } catch (error) {
+        console.error('Error fetching payment types:', error);
+        res.status(500).json({ error: 'Failed to fetch payment types' });
+    }
+});
+
+// Map a payment type to a channel (null = unmapped). Takes effect with the next reconciliation.
+app.put('/api/payment-types/:id', async (req, res) => {
+    const { channel } = req.body;
+    if (channel !== null && !isSettlementChannel(channel)) {
+        return res.status(400).json({ error: `channel must be one of ${SETTLEMENT_CHANNELS.join(', ')} or null` });
+    }
+    try {
+        const id = parseInt(req.params.id);
+        if (!await prisma.paymentTypeMapping.findUnique({ where: { id } })) {
+            return res.status(404).json({ error: 'Payment type not found' });
+        }
+        res.json(await prisma.paymentTypeMapping.update({ where: { id }, data: { channel } }));
+    } catch (error) {
+        console.error('Error saving payment type mapping:', error);
+        res.status(500).json({ error: 'Failed to save payment type mapping' });
+    }
+});
+
+// Recent reconciliation runs with the rules they used and how many of their matches still exist
+app.get('/api/reconciliation-runs', async (req, res) => {
+    try {
+        const runs = await prisma.reconciliationRun.findMany({
+            orderBy: { startedAt: 'desc' },
+            take: 20,
+            include: { _count: { select: { matches: true } } }
+        });
+        res.json(runs.map(({ _count, changes: _changes, ...r }) => ({ ...r, rules: JSON.parse(r.rules), result: r.result ? JSON.parse(r.result) : null, matchCount: _count.matches })));
+    } catch (error) {
+        console.error('Error fetching reconciliation runs:', error);
+        res.status(500).json({ error: 'Failed to fetch reconciliation runs' });
+    }
+});
+
+// The matches a run created, with invoice and payment
+app.get('/api/reconciliation-runs/:id/matches', async (req, res) => {
+    try {
+        const matches = await prisma.reconciliationMatch.findMany({
+            where: { runId: parseInt(req.params.id) },
+            orderBy: { id: 'asc' },
+            include: {
+                invoice: { select: { invoiceNumber: true, recipient: true, amount: true, paymentType: true } },
+                creditNote: { select: { invoiceNumber: true } },
+                bookingPayment: { select: { referenceNumber: true } },
+                otaPayment: { select: { channel: true, referenceNumber: true } },
+                providerPayment: { select: { provider: true, transactionId: true } },
+                cardPayment: { select: { cardType: true, transactionDate: true } },
+                bankTransaction: { select: { bookingDate: true, senderReceiver: true } }
+            }
+        });
+        res.json(matches.map(m => ({ ...m, factors: m.factors ? JSON.parse(m.factors) : null })));
+    } catch (error) {
+        console.error('Error fetching run matches:', error);
+        res.status(500).json({ error: 'Failed to fetch run matches' });
+    }
+});
+
+// Undo a run: its matches are removed, the invoices and the payouts it linked are open again
+app.post('/api/reconciliation-runs/:id/revert', async (req, res) => {
+    if (isReconciliationRunning()) {
+        return res.status(409).json({ error: 'A reconciliation run is in progress' });
+    }
+    try {
+        const result = await revertRun(parseInt(req.params.id));
+        if (!result) {
+            return res.status(404).json({ error: 'Reconciliation run not found' });
+        }
+        if ('error' in result) {
+            return res.status(409).json({ error: result.error });
+        }
+        res.json({ success: true, ...result });
+    } catch (error) {
+        console.error('Error reverting reconciliation run:', error);
+        res.status(500).json({ error: 'Failed to revert reconciliation run' });
+    }
+});
+
 // Download JSON Backup
 app.get('/api/backup', async (req, res) => {
     try {
         // Fetch all data from main tables
-        const [invoices, importedFiles, bookingPayments, cardPayments, bankTransactions, matches] = await Promise.all([
+        const [invoices, importedFiles, bookingPayments, cardPayments, bankTransactions, matches, mappingProfiles, importRowErrors, bookingPayouts, nexiSettlements, otaPayments, providerPayments, providerPayouts, invoiceChanges, matchSuggestions, reconciliationRules, reconciliationRuns, paymentTypeMappings, paymentFlags] = await Promise.all([
             prisma.invoice.findMany(),
             prisma.importedFile.findMany(),
             prisma.bookingPayment.findMany(),
             prisma.cardPayment.findMany(),
             prisma.bankTransaction.findMany(),
-            prisma.reconciliationMatch.findMany()
+            prisma.reconciliationMatch.findMany(),
+            prisma.mappingProfile.findMany(),
+            prisma.importRowError.findMany(),
+            prisma.bookingPayout.findMany(),
+            prisma.nexiSettlement.findMany(),
+            prisma.otaPayment.findMany(),
+            prisma.providerPayment.findMany(),
+            prisma.providerPayout.findMany(),
+            prisma.invoiceChange.findMany(),
+            prisma.matchSuggestion.findMany(),
+            prisma.reconciliationRule.findMany(),
+            prisma.reconciliationRun.findMany(),
+            prisma.paymentTypeMapping.findMany(),
+            prisma.paymentFlag.findMany()
         ]);
 
         const backupData = {
@@ -418,7 +1093,20 @@ app.get('/api/backup', async (req, res) => {
                 bookingPayments,
                 cardPayments,
                 bankTransactions,
-                matches
+                matches,
+                mappingProfiles,
+                importRowErrors,
+                bookingPayouts,
+                nexiSettlements,
+                otaPayments,
+                providerPayments,
+                providerPayouts,
+                invoiceChanges,
+                matchSuggestions,
+                reconciliationRules,
+                reconciliationRuns,
+                paymentTypeMappings,
+                paymentFlags
             }
         };
 
@@ -434,11 +1122,21 @@ app.delete('/api/clear-db', async (req, res) => {
     try {
         console.log('Clearing database via API...');
         await prisma.reconciliationMatch.deleteMany({});
+        await prisma.matchSuggestion.deleteMany({});
+        await prisma.invoiceChange.deleteMany({});
         await prisma.invoice.deleteMany({});
+        await prisma.paymentFlag.deleteMany({});
         await prisma.bookingPayment.deleteMany({});
+        await prisma.bookingPayout.deleteMany({});
         await prisma.cardPayment.deleteMany({});
+        await prisma.nexiSettlement.deleteMany({});
+        await prisma.otaPayment.deleteMany({});
+        await prisma.providerPayment.deleteMany({});
+        await prisma.providerPayout.deleteMany({});
         await prisma.bankTransaction.deleteMany({});
+        await prisma.importRowError.deleteMany({});
         await prisma.importedFile.deleteMany({});
+        await prisma.reconciliationRun.deleteMany({});
         console.log('Database cleared.');
         res.json({ success: true, message: 'Database cleared successfully' });
     } catch (error) {
@@ -450,4 +1148,7 @@ app.delete('/api/clear-db', async (req, res) => {
 // Start Server
 app.listen(port, () => {
     console.log(`Server running at http://localhost:${port}`);
+    removeExpiredStagedFiles(stagingDir);
+    startInboxWatcher(importFile);
+    startReconciliationSchedule();
 });
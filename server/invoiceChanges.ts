@@ -0,0 +1,37 @@
+// Changes a newer Ibelsa export makes to invoices imported before (parseIbelsa in parsers.ts).
+// Nothing here reads or writes the database.
+
+// Fields a later export may change; compared and logged as InvoiceChange
+export const INVOICE_CHANGE_FIELDS = ['invoiceDate', 'paymentType', 'recipient', 'amount'] as const;
+
+type InvoiceFields = { invoiceDate: Date; paymentType: string; recipient: string; amount: number };
+
+export interface FieldChange {
+    field: string;
+    oldValue: string;
+    newValue: string;
+}
+
+// Field changes between a stored invoice and a row of a newer export, values as text
+export function invoiceChanges(invoice: InvoiceFields, row: InvoiceFields): FieldChange[] {
+    const asText = (field: typeof INVOICE_CHANGE_FIELDS[number], value: Date | string | number) => {
+        if (value instanceof Date) return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+        if (field === 'amount') return (value as number).toFixed(2);
+        return String(value ?? '').trim();
+    };
+    return INVOICE_CHANGE_FIELDS
+        .map(field => ({ field: field as string, oldValue: asText(field, invoice[field]), newValue: asText(field, row[field]) }))
+        .filter(c => c.oldValue !== c.newValue);
+}
+
+// An automatic match made for the old amount or payment type no longer applies, so the invoice is
+// reconciled again; manually checked invoices stay as they are.
+export function reopensInvoice(invoice: { isReconciled: boolean; manualStatus: boolean }, changes: FieldChange[]): boolean {
+    return invoice.isReconciled && !invoice.manualStatus && changes.some(c => c.field === 'amount' || c.field === 'paymentType');
+}
+
+// Credit notes netted against the invoice by its CREDIT_NOTE matches. They are reopened together with the
+// invoice, otherwise the next run skips them as settled and expects the full amount.
+export function nettedCreditNotes(invoiceId: number, matches: { invoiceId: number; creditNoteId: number | null }[]): number[] {
+    return matches.filter(m => m.invoiceId === invoiceId && m.creditNoteId !== null).map(m => m.creditNoteId!);
+}
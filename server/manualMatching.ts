@@ -0,0 +1,170 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Payments an invoice can be linked to by hand from the dashboard
+export const MANUAL_PAYMENT_TYPES = ['bank', 'card', 'booking'] as const;
+export type ManualPaymentType = typeof MANUAL_PAYMENT_TYPES[number];
+
+const PAYMENT_KEYS = { bank: 'bankTransactionId', card: 'cardPaymentId', booking: 'bookingPaymentId' } as const;
+
+const AMOUNT_TOLERANCE = 0.01;
+const SEARCH_LIMIT = 50; // Results shown in the dialog
+const SEARCH_SCAN_LIMIT = 1000; // Rows the text filter looks at
+
+export interface PaymentSearch {
+    type: ManualPaymentType;
+    amount?: number;
+    from?: Date;
+    to?: Date;
+    text?: string; // Contained in the counterparty, purpose or reference (case-insensitive)
+}
+
+export interface UnmatchedPayment {
+    type: ManualPaymentType;
+    id: number;
+    date: Date;
+    amount: number;
+    description: string;
+}
+
+// Payments not matched to any invoice yet, newest first. Bank transfers that belong to a payout or
+// settlement are not invoice payments and are left out, as are payments flagged as needing no invoice.
+export async function searchUnmatchedPayments(search: PaymentSearch): Promise<UnmatchedPayment[]> {
+    const amountRange = search.amount !== undefined ? { gte: search.amount - AMOUNT_TOLERANCE, lte: search.amount + AMOUNT_TOLERANCE } : undefined;
+    const dateRange = search.from || search.to ? { gte: search.from, lte: search.to } : undefined;
+    let payments: (UnmatchedPayment & { text: string })[];
+
+    if (search.type === 'bank') {
+        const rows = await prisma.bankTransaction.findMany({
+            where: {
+                matches: { none: {} }, bookingPayouts: { none: {} }, nexiSettlements: { none: {} }, providerPayouts: { none: {} }, flag: null,
+                amount: amountRange, bookingDate: dateRange
+            },
+            orderBy: [{ bookingDate: 'desc' }, { id: 'desc' }],
+            take: SEARCH_SCAN_LIMIT
+        });
+        payments = rows.map(t => ({
+            type: 'bank', id: t.id, date: t.bookingDate, amount: t.amount,
+            description: [t.senderReceiver, t.description].filter(Boolean).join(' · '),
+            text: [t.senderReceiver, t.counterpartyIban, t.description, t.reference].join(' ')
+        }));
+    } else if (search.type === 'card') {
+        const rows = await prisma.cardPayment.findMany({
+            where: { matches: { none: {} }, flag: null, amount: amountRange, transactionDate: dateRange },
+            orderBy: [{ transactionDate: 'desc' }, { id: 'desc' }],
+            take: SEARCH_SCAN_LIMIT
+        });
+        payments = rows.map(c => ({
+            type: 'card', id: c.id, date: c.transactionDate, amount: c.amount,
+            description: [c.cardType, c.transactionTime, c.terminalId && `Terminal ${c.terminalId}`].filter(Boolean).join(' · '),
+            text: [c.cardType, c.terminalId, c.authCode].join(' ')
+        }));
+    } else {
+        // The invoice shows what the guest paid, i.e. the gross amount where the export has it
+        const rows = await prisma.bookingPayment.findMany({
+            where: {
+                matches: { none: {} },
+                flag: null,
+                checkInDate: dateRange,
+                ...(amountRange ? { OR: [{ grossAmount: amountRange }, { grossAmount: null, amount: amountRange }] } : {})
+            },
+            orderBy: [{ checkInDate: 'desc' }, { id: 'desc' }],
+            take: SEARCH_SCAN_LIMIT
+        });
+        payments = rows.map(b => ({
+            type: 'booking', id: b.id, date: b.checkInDate, amount: b.grossAmount ?? b.amount,
+            description: `Ref ${b.referenceNumber} · Auszahlung ${b.payoutDate.toLocaleDateString('de-DE')}`,
+            text: b.referenceNumber
+        }));
+    }
+
+    const text = search.text?.trim().toLowerCase();
+    return payments
+        .filter(p => !text || p.text.toLowerCase().includes(text) || p.description.toLowerCase().includes(text))
+        .slice(0, SEARCH_LIMIT)
+        .map(({ text: _text, ...payment }) => payment);
+}
+
+// Link an invoice to a payment by hand (matchType "MANUAL"). A payment covering the open amount
+// reconciles the invoice together with its open credit notes; a smaller one is kept as a partial payment.
+// Returns null if the invoice or payment does not exist, an error if the match is not possible.
+export async function createManualMatch(
+    invoiceId: number,
+    type: ManualPaymentType,
+    paymentId: number,
+    user: string
+): Promise<{ invoiceId: number; reconciled: boolean } | { error: string } | null> {
+    const invoice = await prisma.invoice.findUnique({
+        where: { id: invoiceId },
+        include: {
+            creditNotes: { select: { id: true, amount: true, isReconciled: true } },
+            matches: { select: { amount: true } }
+        }
+    });
+    const paymentAmount = await findPaymentAmount(type, paymentId);
+    if (!invoice || paymentAmount === null) return null;
+    if (invoice.invoiceType === 'CREDIT_NOTE') return { error: 'Credit notes are settled together with their invoice' };
+    // Invoices checked off by hand without a payment may still get one as evidence
+    if (invoice.isReconciled && invoice.matches.length > 0) return { error: 'Invoice is already reconciled' };
+
+    const key = PAYMENT_KEYS[type];
+    if (await prisma.reconciliationMatch.count({ where: { [key]: paymentId } }) > 0) {
+        return { error: 'Payment is already matched to an invoice' };
+    }
+
+    const credits = invoice.creditNotes.filter(c => !c.isReconciled);
+    const paid = invoice.matches.reduce((sum, m) => sum + (m.amount || 0), 0);
+    const openAmount = Math.round((invoice.amount + credits.reduce((sum, c) => sum + c.amount, 0) - paid) * 100) / 100;
+    const reconciled = paymentAmount >= openAmount - AMOUNT_TOLERANCE;
+
+    await prisma.$transaction([
+        prisma.reconciliationMatch.createMany({
+            data: [
+                { invoiceId, [key]: paymentId, matchType: 'MANUAL', amount: reconciled ? openAmount : paymentAmount, createdBy: user },
+                ...(reconciled ? credits.map(c => ({ invoiceId, creditNoteId: c.id, matchType: 'CREDIT_NOTE', confidence: 1.0, amount: c.amount, createdBy: user })) : [])
+            ]
+        }),
+        ...(reconciled ? [prisma.invoice.updateMany({
+            where: { id: { in: [invoiceId, ...credits.map(c => c.id)] } },
+            data: { isReconciled: true, reconciledDate: new Date() }
+        })] : []),
+        prisma.matchSuggestion.deleteMany({ where: { OR: [...(reconciled ? [{ invoiceId }] : []), { [key]: paymentId }] } })
+    ]);
+    return { invoiceId, reconciled };
+}
+
+// Remove a payment match; the payment is free again once no other invoice is matched to it (bulk transfers).
+// The invoice is open again, its credit notes are released so the next run nets them anew.
+// Returns null if the match does not exist, an error for credit note matches.
+export async function removeMatch(id: number): Promise<{ invoiceId: number } | { error: string } | null> {
+    const match = await prisma.reconciliationMatch.findUnique({ where: { id } });
+    if (!match) return null;
+    if (match.creditNoteId !== null) return { error: 'Credit note matches are removed together with the payment of the invoice' };
+
+    const creditMatches = await prisma.reconciliationMatch.findMany({
+        where: { invoiceId: match.invoiceId, creditNoteId: { not: null } },
+        select: { id: true, creditNoteId: true }
+    });
+    await prisma.$transaction([
+        prisma.reconciliationMatch.deleteMany({ where: { id: { in: [id, ...creditMatches.map(m => m.id)] } } }),
+        prisma.invoice.updateMany({
+            where: { id: { in: [match.invoiceId, ...creditMatches.map(m => m.creditNoteId!)] } },
+            data: { isReconciled: false, manualStatus: false, reconciledDate: null }
+        })
+    ]);
+    return { invoiceId: match.invoiceId };
+}
+
+async function findPaymentAmount(type: ManualPaymentType, id: number): Promise<number | null> {
+    if (type === 'bank') {
+        const payment = await prisma.bankTransaction.findUnique({ where: { id }, select: { amount: true } });
+        return payment ? payment.amount : null;
+    }
+    if (type === 'card') {
+        const payment = await prisma.cardPayment.findUnique({ where: { id }, select: { amount: true } });
+        return payment ? payment.amount : null;
+    }
+    const payment = await prisma.bookingPayment.findUnique({ where: { id }, select: { amount: true, grossAmount: true } });
+    return payment ? payment.grossAmount ?? payment.amount : null;
+}
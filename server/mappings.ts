@@ -0,0 +1,322 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export type SourceType = 'BOOKING' | 'IBELSA' | 'BANK' | 'NEXI' | 'AIRBNB' | 'EXPEDIA' | 'PAYPAL' | 'STRIPE' | 'SUMUP';
+
+// Logical field -> list of header names / aliases (case-insensitive)
+export type FieldAliases = Record<string, string[]>;
+
+export interface FieldDefinition {
+    field: string;
+    label: string;
+    required: boolean;
+}
+
+export interface ResolvedMapping {
+    profile: string;
+    columns: Record<string, number>; // -1 = optional column not present
+}
+
+// Payment provider reports (PayPal, Stripe, SumUp) share one set of logical fields
+const PROVIDER_FIELDS: FieldDefinition[] = [
+    { field: 'transactionId', label: 'Transaction ID', required: true },
+    { field: 'transactionDate', label: 'Date', required: true },
+    { field: 'transactionType', label: 'Type', required: false },
+    { field: 'status', label: 'Status', required: false },
+    { field: 'customer', label: 'Customer', required: false },
+    { field: 'reference', label: 'Reference / description', required: false },
+    { field: 'currency', label: 'Currency', required: false },
+    { field: 'grossAmount', label: 'Gross amount', required: true },
+    { field: 'fee', label: 'Fee', required: false },
+    { field: 'netAmount', label: 'Net amount', required: false },
+    { field: 'payoutId', label: 'Payout ID', required: false },
+    { field: 'payoutDate', label: 'Payout date', required: false }
+];
+
+// Logical fields every parser understands, per source
+export const FIELD_DEFINITIONS: Record<SourceType, FieldDefinition[]> = {
+    BOOKING: [
+        { field: 'referenceNumber', label: 'Reference number', required: true },
+        { field: 'checkInDate', label: 'Check-in', required: false },
+        { field: 'checkOutDate', label: 'Check-out', required: false },
+        // Amount is the paid out value of a reservation; if the export only has gross/net columns it is derived from them
+        { field: 'amount', label: 'Amount', required: false },
+        { field: 'grossAmount', label: 'Gross amount', required: false },
+        { field: 'commission', label: 'Commission', required: false },
+        { field: 'paymentCharge', label: 'Payment charge', required: false },
+        { field: 'netAmount', label: 'Net amount', required: false },
+        { field: 'payoutDate', label: 'Payout date', required: false },
+        { field: 'payoutId', label: 'Payout ID', required: false }
+    ],
+    IBELSA: [
+        { field: 'invoiceDate', label: 'Invoice date', required: true },
+        { field: 'paymentType', label: 'Payment type', required: true },
+        { field: 'invoiceNumber', label: 'Invoice number', required: true },
+        { field: 'recipient', label: 'Recipient', required: false },
+        { field: 'amount', label: 'Total amount', required: true }
+    ],
+    BANK: [
+        { field: 'bookingDate', label: 'Booking date', required: true },
+        { field: 'counterparty', label: 'Counterparty', required: false },
+        { field: 'purpose', label: 'Purpose', required: false },
+        { field: 'amount', label: 'Amount', required: true }
+    ],
+    NEXI: [
+        { field: 'cardType', label: 'Card type', required: true },
+        { field: 'transactionDate', label: 'Transaction date', required: true },
+        { field: 'transactionTime', label: 'Transaction time', required: false },
+        { field: 'amount', label: 'Amount paid', required: true },
+        { field: 'grossAmount', label: 'Gross amount', required: false },
+        { field: 'fee', label: 'Service charge', required: false },
+        { field: 'feeVat', label: 'VAT on service charge', required: false },
+        { field: 'settlementId', label: 'Settlement number', required: false },
+        { field: 'terminalId', label: 'Terminal ID', required: false },
+        { field: 'authCode', label: 'Authorization code', required: false }
+    ],
+    AIRBNB: [
+        { field: 'payoutDate', label: 'Date', required: true },
+        { field: 'transactionType', label: 'Type', required: false },
+        { field: 'referenceNumber', label: 'Confirmation code', required: true },
+        { field: 'checkInDate', label: 'Start date', required: false },
+        { field: 'checkOutDate', label: 'End date', required: false },
+        { field: 'nights', label: 'Nights', required: false },
+        { field: 'guestName', label: 'Guest', required: false },
+        { field: 'currency', label: 'Currency', required: false },
+        { field: 'amount', label: 'Amount', required: true },
+        { field: 'commission', label: 'Service fee', required: false },
+        { field: 'grossAmount', label: 'Gross earnings', required: false }
+    ],
+    EXPEDIA: [
+        { field: 'referenceNumber', label: 'Reservation ID', required: true },
+        { field: 'guestName', label: 'Guest name', required: false },
+        { field: 'checkInDate', label: 'Check-in', required: false },
+        { field: 'checkOutDate', label: 'Check-out', required: false },
+        { field: 'currency', label: 'Currency', required: false },
+        { field: 'grossAmount', label: 'Booking amount', required: false },
+        { field: 'commission', label: 'Compensation', required: false },
+        { field: 'amount', label: 'Payment amount', required: true },
+        { field: 'payoutDate', label: 'Payment date', required: true },
+        { field: 'payoutReference', label: 'Payment reference', required: false }
+    ],
+    PAYPAL: PROVIDER_FIELDS,
+    STRIPE: PROVIDER_FIELDS,
+    SUMUP: PROVIDER_FIELDS
+};
+
+// Built-in profiles, used when no custom profile in the database matches
+export const DEFAULT_PROFILES: Record<SourceType, FieldAliases> = {
+    BOOKING: {
+        referenceNumber: ['Referenznummer', 'Reference number', 'Booking number'],
+        checkInDate: ['Check-in', 'Anreise'],
+        checkOutDate: ['Checkout', 'Check-out', 'Abreise'],
+        amount: ['Betrag', 'Amount', 'Total'],
+        grossAmount: ['Bruttobetrag', 'Gross amount', 'Ursprünglicher Betrag', 'Original amount'],
+        commission: ['Provision', 'Kommission', 'Commission'],
+        paymentCharge: ['Zahlungsgebühr', 'Gebühr für Zahlungsservice', 'Payment charge', 'Payments Service Fee'],
+        netAmount: ['Nettobetrag', 'Net amount', 'Payable amount', 'Auszuzahlender Betrag'],
+        payoutDate: ['Datum der Auszahlung', 'Auszahlungsdatum', 'Payout date'],
+        payoutId: ['Auszahlungsnummer', 'Auszahlungs-ID', 'Payout ID']
+    },
+    IBELSA: {
+        invoiceDate: ['Rechnungsdatum', 'Invoice date'],
+        paymentType: ['Zahlungsart', 'Payment type'],
+        invoiceNumber: ['Rechnungsnummer', 'Invoice number'],
+        recipient: ['Rechnungsempfänger', 'Recipient'],
+        amount: ['Gesamt', 'Total']
+    },
+    BANK: {
+        bookingDate: ['Buchungstag', 'Buchungsdatum', 'Booking date'],
+        counterparty: ['Name Zahlungsbeteiligter', 'Zahlungsempfänger', 'Auftraggeber', 'Counterparty'],
+        purpose: ['Verwendungszweck', 'Purpose'],
+        amount: ['Betrag', 'Amount']
+    },
+    NEXI: {
+        cardType: ['Kartenart', 'Card type'],
+        transactionDate: ['Transaktionsdatum (Datum)', 'Transaktionsdatum', 'Belegdatum', 'Transaction date', 'Date'],
+        transactionTime: ['Transaktionsdatum (Uhrzeit)', 'Transaktionszeit', 'Uhrzeit', 'Transaction time', 'Time'],
+        amount: ['Zahlbetrag', 'Amount'],
+        grossAmount: ['Umsatz Brutto', 'Bruttoumsatz', 'Gross amount'],
+        fee: ['Entgelt gesamt (Abr.-Whrg.)', 'Entgelt gesamt', 'Entgelt', 'Service charge', 'Fee'],
+        feeVat: ['MwSt. Betrag auf Entgelt', 'MwSt. auf Entgelt', 'VAT on fee'],
+        settlementId: ['Zahlungsnummer', 'Abrechnungsnummer', 'Settlement number', 'Payment number'],
+        terminalId: ['Terminal ID', 'Terminal-ID', 'Terminal'],
+        authCode: ['Autorisierungsnummer', 'Genehmigungsnummer', 'Autorisierungscode', 'Authorization code', 'Auth code']
+    },
+    // Airbnb "Transaction history" (Transaktionsverlauf) CSV
+    AIRBNB: {
+        payoutDate: ['Datum', 'Date'],
+        transactionType: ['Art', 'Typ', 'Type'],
+        referenceNumber: ['Bestätigungscode', 'Confirmation code'],
+        checkInDate: ['Startdatum', 'Start date'],
+        checkOutDate: ['Enddatum', 'End date'],
+        nights: ['Nächte', 'Nights'],
+        guestName: ['Gast', 'Guest'],
+        currency: ['Währung', 'Currency'],
+        amount: ['Betrag', 'Amount'],
+        commission: ['Servicegebühr', 'Service fee', 'Host fee'],
+        grossAmount: ['Bruttoeinnahmen', 'Gross earnings']
+    },
+    // Expedia Partner Central payment report
+    EXPEDIA: {
+        referenceNumber: ['Reservierungs-ID', 'Reservation ID', 'Buchungs-ID', 'Reiseplannummer', 'Itinerary number', 'Bestätigungsnummer', 'Confirmation number'],
+        guestName: ['Name des Gastes', 'Gastname', 'Guest name'],
+        checkInDate: ['Anreisedatum', 'Check-in date', 'Anreise', 'Check-in'],
+        checkOutDate: ['Abreisedatum', 'Check-out date', 'Abreise', 'Check-out'],
+        currency: ['Währung', 'Currency'],
+        grossAmount: ['Buchungsbetrag', 'Reservierungsbetrag', 'Booking amount', 'Reservation amount'],
+        commission: ['Kompensation', 'Provision', 'Compensation', 'Commission'],
+        amount: ['Zahlungsbetrag', 'Ausgezahlter Betrag', 'Payment amount', 'Amount paid', 'Betrag', 'Amount'],
+        payoutDate: ['Zahlungsdatum', 'Auszahlungsdatum', 'Payment date', 'Payout date'],
+        payoutReference: ['Zahlungsreferenz', 'Zahlungs-ID', 'Payment reference', 'Payment ID', 'Remittance ID']
+    },
+    // PayPal activity download ("Aktivitäten" CSV); bank withdrawals are the payouts
+    PAYPAL: {
+        transactionId: ['Transaktionscode', 'Transaction ID'],
+        transactionDate: ['Datum', 'Date'],
+        transactionType: ['Typ', 'Type'],
+        status: ['Status'],
+        customer: ['Name', 'Absender E-Mail-Adresse', 'From Email Address'],
+        reference: ['Rechnungsnummer', 'Invoice Number', 'Betreff', 'Subject', 'Hinweis', 'Note'],
+        currency: ['Währung', 'Currency'],
+        grossAmount: ['Brutto', 'Gross'],
+        fee: ['Gebühr', 'Entgelt', 'Fee'],
+        netAmount: ['Netto', 'Net'],
+        payoutId: [],
+        payoutDate: []
+    },
+    // Stripe payments export or itemized payout reconciliation report
+    STRIPE: {
+        transactionId: ['id', 'charge_id', 'balance_transaction_id'],
+        transactionDate: ['Created date (UTC)', 'Created (UTC)', 'created_utc', 'created'],
+        transactionType: ['reporting_category', 'Type'],
+        status: ['Status'],
+        customer: ['Customer Email', 'customer_email', 'Customer Description', 'customer_name'],
+        reference: ['Description', 'description', 'Invoice ID', 'invoice_id'],
+        currency: ['Currency', 'currency'],
+        grossAmount: ['Amount', 'gross'],
+        fee: ['Fee', 'fee'],
+        netAmount: ['Net', 'net'],
+        payoutId: ['automatic_payout_id', 'Transfer', 'Payout ID'],
+        payoutDate: ['automatic_payout_effective_at', 'Transfer Date (UTC)', 'Payout date']
+    },
+    // SumUp transaction report
+    SUMUP: {
+        transactionId: ['Transaktions-ID', 'Transaction ID', 'Transaktionscode', 'Transaction code'],
+        transactionDate: ['Datum', 'Date'],
+        transactionType: ['Transaktionsart', 'Transaction type', 'Zahlungsart', 'Payment type'],
+        status: ['Status'],
+        customer: ['Kartennummer', 'Card number', 'Karteninhaber', 'Cardholder'],
+        reference: ['Beschreibung', 'Description', 'Referenz', 'Reference'],
+        currency: ['Währung', 'Currency'],
+        grossAmount: ['Betrag inkl. MwSt.', 'Gesamtbetrag', 'Total amount', 'Betrag', 'Amount'],
+        fee: ['Gebühr', 'Fee'],
+        netAmount: ['Auszahlungsbetrag', 'Auszahlung', 'Payout amount', 'Payout'],
+        payoutId: ['Auszahlungs-ID', 'Auszahlungsreferenz', 'Payout ID', 'Payout reference'],
+        payoutDate: ['Auszahlungsdatum', 'Payout date']
+    }
+};
+
+export const SOURCE_TYPES = Object.keys(FIELD_DEFINITIONS) as SourceType[];
+
+const DEFAULT_PROFILE_NAME = 'Standard';
+
+// Helper: Normalize a header cell (BOM, quotes, whitespace, case)
+export function normalizeHeader(h: string): string {
+    return (h || '').replace(/^\uFEFF/, '').replace(/['"]/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Map every logical field to a column index. Exact header matches win over partial ones
+// (for all fields, so "Amount" cannot grab "Gross amount" if that column is named exactly
+// for another field), and aliases are tried in the order given.
+export function resolveColumns(header: string[], fields: FieldAliases): Record<string, number> {
+    const normalized = header.map(normalizeHeader);
+    const columns: Record<string, number> = {};
+    const claimed = new Set<number>();
+    const aliasNames = (field: string) => fields[field].map(normalizeHeader).filter(Boolean);
+
+    for (const field of Object.keys(fields)) {
+        columns[field] = -1;
+        for (const name of aliasNames(field)) {
+            const idx = normalized.indexOf(name);
+            if (idx > -1 && !claimed.has(idx)) {
+                columns[field] = idx;
+                claimed.add(idx);
+                break;
+            }
+        }
+    }
+
+    for (const field of Object.keys(fields)) {
+        if (columns[field] > -1) continue;
+        for (const name of aliasNames(field)) {
+            const idx = normalized.findIndex((h, i) => !claimed.has(i) && h.includes(name));
+            if (idx > -1) {
+                columns[field] = idx;
+                claimed.add(idx);
+                break;
+            }
+        }
+    }
+    return columns;
+}
+
+function missingRequired(source: SourceType, columns: Record<string, number>): string[] {
+    return FIELD_DEFINITIONS[source]
+        .filter(def => def.required && (columns[def.field] === undefined || columns[def.field] === -1))
+        .map(def => def.field);
+}
+
+// Load custom profiles for a source, followed by the built-in default
+export async function getProfiles(source: SourceType): Promise<{ name: string; fields: FieldAliases }[]> {
+    const custom = await prisma.mappingProfile.findMany({
+        where: { source },
+        orderBy: { updatedAt: 'desc' }
+    });
+    return [
+        // Fields a custom profile does not mention fall back to the built-in header names
+        ...custom.map(p => ({ name: p.name, fields: { ...DEFAULT_PROFILES[source], ...JSON.parse(p.fields) } as FieldAliases })),
+        { name: DEFAULT_PROFILE_NAME, fields: DEFAULT_PROFILES[source] }
+    ];
+}
+
+// Auto-detect the mapping profile for a header row: the first profile that finds all required fields wins.
+// Throws with the list of missing fields if no profile fits.
+export async function resolveMapping(source: SourceType, header: string[]): Promise<ResolvedMapping> {
+    const profiles = await getProfiles(source);
+    let best: { name: string; missing: string[] } | null = null;
+
+    for (const profile of profiles) {
+        const columns = resolveColumns(header, profile.fields);
+        const missing = missingRequired(source, columns);
+        if (missing.length === 0) {
+            return { profile: profile.name, columns };
+        }
+        if (!best || missing.length < best.missing.length) {
+            best = { name: profile.name, missing };
+        }
+    }
+
+    const details = best!.missing
+        .map(field => `${field} (${(profiles.find(p => p.name === best!.name)!.fields[field] || []).join(' / ')})`)
+        .join(', ');
+    throw new Error(`Required ${source} columns not found (closest profile "${best!.name}"): ${details}`);
+}
+
+// Validate a profile payload from the API; returns an error message or null
+export function validateProfile(source: unknown, fields: unknown): string | null {
+    if (typeof source !== 'string' || !SOURCE_TYPES.includes(source as SourceType)) {
+        return `source must be one of ${SOURCE_TYPES.join(', ')}`;
+    }
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+        return 'fields must be an object of field -> header names';
+    }
+    const known = FIELD_DEFINITIONS[source as SourceType].map(def => def.field);
+    for (const [field, aliases] of Object.entries(fields)) {
+        if (!known.includes(field)) return `Unknown field "${field}" for ${source}`;
+        if (!Array.isArray(aliases) || aliases.some(a => typeof a !== 'string')) {
+            return `Header names for "${field}" must be a list of strings`;
+        }
+    }
+    return null;
+}
@@ -0,0 +1,229 @@
+// Explainable match scoring. Every candidate payment of an invoice gets a score between 0 and 1,
+// built from factors that each contribute points (factor score × weight). The weights differ per
+// payment channel: card payments carry no name, bank transfers are only trusted with a name or a
+// reference. The best candidate is taken automatically only if its amount is exact and the score
+// reaches the threshold (rules.ts); the others are kept as suggestions with their explanation.
+
+export type MatchFactor = 'amount' | 'date' | 'name' | 'reference';
+export type Channel = 'booking' | 'ota' | 'provider' | 'card' | 'bank';
+export type PaymentKey = 'bookingPaymentId' | 'otaPaymentId' | 'providerPaymentId' | 'cardPaymentId' | 'bankTransactionId';
+
+export interface ScoreFactor {
+    factor: MatchFactor;
+    score: number; // 0..1
+    points: number; // score × channel weight, the share of the total score
+    detail: string; // Shown to the user, e.g. "Betrag exakt", "3 Tage Abstand"
+    days?: number; // Date factor only: distance in days, breaks ties between equal scores
+}
+
+export interface Candidate {
+    paymentKey: PaymentKey;
+    paymentId: number;
+    score: number;
+    exactAmount: boolean;
+    referenceHit: boolean;
+    days: number;
+    factors: ScoreFactor[];
+}
+
+const WEIGHTS: Record<Channel, Partial<Record<MatchFactor, number>>> = {
+    card: { amount: 0.7, date: 0.3 },
+    booking: { amount: 0.6, date: 0.25, reference: 0.4 },
+    ota: { amount: 0.6, date: 0.25, reference: 0.4 },
+    provider: { amount: 0.6, date: 0.25, name: 0.15, reference: 0.4 },
+    bank: { amount: 0.5, date: 0.15, name: 0.35, reference: 0.5 }
+};
+
+const AMOUNT_NEAR_MISS = 0.05; // Payments up to 5% off the invoice amount are still suggested
+export const SUGGESTIONS_PER_INVOICE = 3;
+
+// Within the source's tolerance the amount is exact (score 1), near misses score at most 0.5;
+// anything further off is no candidate at all (null)
+export function amountFactor(expected: number, actual: number, tolerance: number): Omit<ScoreFactor, 'points'> | null {
+    const delta = Math.abs(actual - expected);
+    if (delta <= tolerance) return { factor: 'amount', score: 1, detail: 'Betrag exakt' };
+    const limit = Math.abs(expected) * AMOUNT_NEAR_MISS;
+    if (delta > limit) return null;
+    return { factor: 'amount', score: round(0.5 * (1 - delta / limit)), detail: `Betrag weicht um ${formatAmount(actual - expected)} ab` };
+}
+
+// 1 on the expected date (or inside the expected window), 0.5 at the channel's tolerance, 0 at twice of it.
+// A tolerance of 0 asks for the exact date: any other day scores 0.
+export function dateFactor(days: number, tolerance: number, inWindowDetail?: string): Omit<ScoreFactor, 'points'> {
+    const score = tolerance > 0 ? round(Math.max(0, 1 - days / (2 * tolerance))) : days === 0 ? 1 : 0;
+    const detail = days === 0 ? inWindowDetail || 'Gleicher Tag' : `${days} Tage Abstand`;
+    return { factor: 'date', score, detail, days };
+}
+
+export function nameFactor(invoiceName: string | null, paymentName: string | null): Omit<ScoreFactor, 'points'> {
+    if (!invoiceName || !paymentName) return { factor: 'name', score: 0, detail: 'Kein Name in der Zahlung' };
+    const score = nameSimilarity(invoiceName, paymentName);
+    return { factor: 'name', score, detail: score > 0 ? `Name "${paymentName}" (${Math.round(score * 100)}%)` : `Name "${paymentName}" passt nicht` };
+}
+
+export function referenceFactor(hit: boolean, detail: string): Omit<ScoreFactor, 'points'> | null {
+    return hit ? { factor: 'reference', score: 1, detail } : null;
+}
+
+// Weigh the factors for the channel and sum them up (capped at 1). Factors the channel does not use are dropped.
+export function scoreCandidate(
+    channel: Channel,
+    paymentKey: PaymentKey,
+    paymentId: number,
+    factors: (Omit<ScoreFactor, 'points'> | null)[]
+): Candidate {
+    const weighted = factors
+        .filter((f): f is Omit<ScoreFactor, 'points'> => f !== null && WEIGHTS[channel][f.factor] !== undefined)
+        .map(f => ({ ...f, points: round(f.score * WEIGHTS[channel][f.factor]!) }));
+    return {
+        paymentKey,
+        paymentId,
+        score: round(Math.min(1, weighted.reduce((sum, f) => sum + f.points, 0))),
+        exactAmount: weighted.some(f => f.factor === 'amount' && f.score === 1),
+        referenceHit: weighted.some(f => f.factor === 'reference'),
+        days: weighted.find(f => f.factor === 'date')?.days ?? 0,
+        factors: weighted
+    };
+}
+
+// Assign payments to invoices so that as many invoices as possible are matched and, among those
+// assignments, the total score is highest and the date distance smallest. Invoices and payments
+// connected through candidates are solved together with the Hungarian algorithm; the result only
+// depends on the candidates, not on the order invoices or payments were loaded in.
+export function optimalAssignment<T extends { invoiceId: number; candidate: Candidate }>(pairs: T[]): T[] {
+    const paymentNode = (c: Candidate) => `${c.paymentKey}:${c.paymentId}`;
+    const invoiceNode = (id: number) => `invoice:${id}`;
+
+    // Connected groups (union-find over invoice and payment nodes)
+    const parent = new Map<string, string>();
+    const find = (node: string): string => {
+        const p = parent.get(node) ?? node;
+        if (p === node) return node;
+        const root = find(p);
+        parent.set(node, root);
+        return root;
+    };
+    for (const pair of pairs) {
+        const a = find(invoiceNode(pair.invoiceId));
+        const b = find(paymentNode(pair.candidate));
+        if (a !== b) parent.set(a < b ? b : a, a < b ? a : b);
+    }
+    const groups = new Map<string, T[]>();
+    for (const pair of pairs) {
+        const root = find(invoiceNode(pair.invoiceId));
+        groups.set(root, [...(groups.get(root) || []), pair]);
+    }
+
+    const assigned: T[] = [];
+    for (const root of [...groups.keys()].sort()) {
+        const group = groups.get(root)!;
+        const invoiceIds = [...new Set(group.map(p => p.invoiceId))].sort((a, b) => a - b);
+        const payments = [...new Set(group.map(p => paymentNode(p.candidate)))].sort();
+        if (invoiceIds.length === 1 && payments.length === 1) {
+            assigned.push(group[0]);
+            continue;
+        }
+
+        const size = Math.max(invoiceIds.length, payments.length);
+        const weights = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+        const byCell = new Map<string, T>();
+        for (const pair of group) {
+            const row = invoiceIds.indexOf(pair.invoiceId);
+            const col = payments.indexOf(paymentNode(pair.candidate));
+            weights[row][col] = assignmentWeight(pair.candidate);
+            byCell.set(`${row}:${col}`, pair);
+        }
+        hungarian(weights).forEach((col, row) => {
+            const pair = byCell.get(`${row}:${col}`);
+            if (pair) assigned.push(pair);
+        });
+    }
+    return assigned;
+}
+
+// Any real match beats none, then the score counts, then fewer days between invoice and payment
+function assignmentWeight(c: Candidate): number {
+    return 1_000_000 + Math.round(c.score * 100) * 1000 - Math.min(c.days, 999);
+}
+
+// Hungarian algorithm (maximum weight, square matrix). Returns the column assigned to each row.
+function hungarian(weights: number[][]): number[] {
+    const n = weights.length;
+    const u = new Array<number>(n + 1).fill(0);
+    const v = new Array<number>(n + 1).fill(0);
+    const p = new Array<number>(n + 1).fill(0); // p[col] = row assigned to col (1-based)
+    const way = new Array<number>(n + 1).fill(0);
+    const cost = (row: number, col: number) => -weights[row - 1][col - 1];
+
+    for (let row = 1; row <= n; row++) {
+        p[0] = row;
+        let col0 = 0;
+        const minv = new Array<number>(n + 1).fill(Infinity);
+        const used = new Array<boolean>(n + 1).fill(false);
+        do {
+            used[col0] = true;
+            const row0 = p[col0];
+            let delta = Infinity;
+            let col1 = 0;
+            for (let col = 1; col <= n; col++) {
+                if (used[col]) continue;
+                const cur = cost(row0, col) - u[row0] - v[col];
+                if (cur < minv[col]) {
+                    minv[col] = cur;
+                    way[col] = col0;
+                }
+                if (minv[col] < delta) {
+                    delta = minv[col];
+                    col1 = col;
+                }
+            }
+            for (let col = 0; col <= n; col++) {
+                if (used[col]) {
+                    u[p[col]] += delta;
+                    v[col] -= delta;
+                } else {
+                    minv[col] -= delta;
+                }
+            }
+            col0 = col1;
+        } while (p[col0] !== 0);
+        do {
+            const col1 = way[col0];
+            p[col0] = p[col1];
+            col0 = col1;
+        } while (col0 !== 0);
+    }
+
+    const result = new Array<number>(n).fill(-1);
+    for (let col = 1; col <= n; col++) {
+        if (p[col] !== 0) result[p[col] - 1] = col - 1;
+    }
+    return result;
+}
+
+// Either name contains the other ("Müller" / "Hans Müller GmbH") or the share of common words.
+// Bank exports often spell umlauts out ("MUELLER HANS").
+export function nameSimilarity(a: string, b: string): number {
+    const x = normalizeName(a);
+    const y = normalizeName(b);
+    if (!x || !y) return 0;
+    if (x.includes(y) || y.includes(x)) return 1;
+    const words = (s: string) => new Set(s.split(/[^a-z0-9]+/).filter(w => w.length >= 3));
+    const wx = words(x);
+    const wy = words(y);
+    const common = [...wx].filter(w => wy.has(w)).length;
+    return common > 0 ? round(common / Math.min(wx.size, wy.size)) : 0;
+}
+
+function normalizeName(name: string): string {
+    return name.toLowerCase().trim()
+        .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss');
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function formatAmount(amount: number): string {
+    return `${amount > 0 ? '+' : ''}${amount.toFixed(2).replace('.', ',')} €`;
+}
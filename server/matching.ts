@@ -0,0 +1,338 @@
+import { Invoice, BankTransaction, BookingPayment, CardPayment, OtaPayment, ProviderPayment } from '@prisma/client';
+import { Candidate, amountFactor, dateFactor, nameFactor, referenceFactor, scoreCandidate } from './matchScoring';
+import { SourceRules } from './rules';
+
+// In-memory matching of invoices against the payments loaded by a reconciliation run (reconciliation.ts).
+// Nothing here reads or writes the database.
+
+export const AMOUNT_TOLERANCE = 0.01; // Rounding; payouts and settlements must agree to the cent
+const SPLIT_MAX_PARTS = 4; // Most payments one invoice is split into
+const SPLIT_MAX_CANDIDATES = 15; // Closest payments tried per invoice, keeps the combination search small
+const SPLIT_CARD_DATE_TOLERANCE_DAYS = 1; // Card parts are paid at checkout, usually on the invoice date
+
+type BookingWithMatches = BookingPayment & { matches: { id: number }[] };
+type CardWithMatches = CardPayment & { matches: { id: number }[] };
+type OtaWithMatches = OtaPayment & { matches: { id: number }[] };
+type ProviderWithMatches = ProviderPayment & { matches: { id: number }[] };
+export type BankWithMatches = BankTransaction & { matches: { id: number }[]; bookingPayouts: { id: number }[]; nexiSettlements: { id: number }[]; providerPayouts: { id: number }[] };
+
+export type InvoiceWithCredits = Invoice & {
+    creditNotes: { id: number; amount: number; isReconciled: boolean }[];
+    matches: { amount: number | null }[]; // Partial payments from earlier runs
+};
+
+// An invoice with open credit notes only expects the remaining amount; fully cancelled, nothing at all.
+// Partial payments matched in earlier runs are deducted as well.
+export function netCreditNotes<T extends InvoiceWithCredits>(original: T) {
+    const credits = original.creditNotes.filter(c => !c.isReconciled);
+    const paid = original.matches.reduce((sum, m) => sum + (m.amount || 0), 0);
+    const openAmount = Math.round((original.amount + credits.reduce((sum, c) => sum + c.amount, 0) - paid) * 100) / 100;
+    const cancelled = credits.length > 0 && Math.abs(openAmount) <= AMOUNT_TOLERANCE;
+    return { invoice: { ...original, amount: openAmount }, credits, cancelled };
+}
+
+// --- Candidates ---
+
+// Every matcher below returns all plausible candidates of its channel with their score;
+// optimalAssignment in runReconciliation decides which one (if any) is taken.
+
+export function bookingCandidates(
+    invoice: Invoice,
+    payments: BookingWithMatches[],
+    matchedIds: Set<number>,
+    rules: SourceRules
+): Candidate[] {
+    return payments.filter(p => !matchedIds.has(p.id)).flatMap(payment => {
+        // The invoice shows what the guest paid, i.e. the gross amount before commission
+        const amount = amountFactor(invoice.amount, payment.grossAmount ?? payment.amount, rules.amountTolerance);
+        if (!amount) return [];
+
+        // Invoice date within check-in to payout window ± tolerance
+        const days = daysOutside(invoice.invoiceDate, payment.checkInDate, payment.payoutDate, rules.dateToleranceDays);
+        const refMatch = invoice.recipient.includes(payment.referenceNumber) ||
+            !!(invoice.comment && invoice.comment.includes(payment.referenceNumber));
+
+        return [scoreCandidate('booking', 'bookingPaymentId', payment.id, [
+            amount,
+            dateFactor(days, rules.dateToleranceDays, 'Zwischen Anreise und Auszahlung'),
+            referenceFactor(refMatch, `Buchungsnummer ${payment.referenceNumber} in der Rechnung`)
+        ])];
+    });
+}
+
+// Airbnb / Expedia: same rules as Booking.com, the date window runs from check-in to payout
+export function otaCandidates(
+    invoice: Invoice,
+    channel: string,
+    payments: OtaWithMatches[],
+    matchedIds: Set<number>,
+    rules: SourceRules
+): Candidate[] {
+    return payments.filter(p => p.channel === channel && !matchedIds.has(p.id)).flatMap(payment => {
+        // The invoice shows what the guest paid, i.e. the gross amount before the channel's fees
+        const amount = amountFactor(invoice.amount, payment.grossAmount ?? payment.amount, rules.amountTolerance);
+        if (!amount) return [];
+
+        const days = daysOutside(invoice.invoiceDate, payment.checkInDate || payment.payoutDate, payment.payoutDate, rules.dateToleranceDays);
+        const refMatch = invoice.recipient.includes(payment.referenceNumber) ||
+            !!(invoice.comment && invoice.comment.includes(payment.referenceNumber));
+
+        return [scoreCandidate('ota', 'otaPaymentId', payment.id, [
+            amount,
+            dateFactor(days, rules.dateToleranceDays, 'Zwischen Anreise und Auszahlung'),
+            referenceFactor(refMatch, `Buchungsnummer ${payment.referenceNumber} in der Rechnung`)
+        ])];
+    });
+}
+
+// PayPal / Stripe / SumUp: the guest pays the invoice amount, so the gross amount is compared.
+// A transaction ID or the invoice number in the payment reference counts as reference hit.
+export function providerCandidates(
+    invoice: Invoice,
+    provider: string,
+    payments: ProviderWithMatches[],
+    matchedIds: Set<number>,
+    rules: SourceRules
+): Candidate[] {
+    const invoiceNum = extractInvoiceNumber(invoice.invoiceNumber);
+
+    return payments.filter(p => p.provider === provider && !matchedIds.has(p.id)).flatMap(payment => {
+        const amount = amountFactor(invoice.amount, payment.grossAmount, rules.amountTolerance);
+        if (!amount) return [];
+
+        const refMatch = !!(invoiceNum && `${payment.reference || ''} ${payment.transactionId}`.includes(invoiceNum)) ||
+            invoice.recipient.includes(payment.transactionId) ||
+            !!(invoice.comment && invoice.comment.includes(payment.transactionId));
+
+        return [scoreCandidate('provider', 'providerPaymentId', payment.id, [
+            amount,
+            dateFactor(Math.abs(differenceInDays(invoice.invoiceDate, payment.transactionDate)), rules.dateToleranceDays),
+            nameFactor(invoice.recipient, payment.customer),
+            referenceFactor(refMatch, `Referenz der Zahlung ${payment.transactionId}`)
+        ])];
+    });
+}
+
+export function nexiCandidates(
+    invoice: Invoice,
+    payments: CardWithMatches[],
+    matchedIds: Set<number>,
+    rules: SourceRules
+): Candidate[] {
+    return payments.filter(p => !matchedIds.has(p.id)).flatMap(payment => {
+        const amount = amountFactor(invoice.amount, payment.amount, rules.amountTolerance);
+        if (!amount) return [];
+
+        return [scoreCandidate('card', 'cardPaymentId', payment.id, [
+            amount,
+            dateFactor(Math.abs(differenceInDays(invoice.invoiceDate, payment.transactionDate)), rules.dateToleranceDays)
+        ])];
+    });
+}
+
+export function bankCandidates(
+    invoice: Invoice,
+    payments: BankWithMatches[],
+    matchedIds: Set<number>,
+    rules: SourceRules
+): Candidate[] {
+    return payments.filter(p => !matchedIds.has(p.id)).flatMap(payment => {
+        const amount = amountFactor(invoice.amount, payment.amount, rules.amountTolerance);
+        if (!amount) return [];
+
+        const { descMatch } = bankEvidence(invoice, payment);
+        return [scoreCandidate('bank', 'bankTransactionId', payment.id, [
+            amount,
+            dateFactor(Math.abs(differenceInDays(invoice.invoiceDate, payment.bookingDate)), rules.dateToleranceDays),
+            nameFactor(invoice.recipient, payment.senderReceiver),
+            referenceFactor(descMatch, `Rechnungsnummer ${extractInvoiceNumber(invoice.invoiceNumber)} im Verwendungszweck`)
+        ])];
+    });
+}
+
+// Best first. Candidates far outside the date window are only kept with a reference hit.
+export function rankCandidates(candidates: Candidate[]): Candidate[] {
+    return candidates
+        .filter(c => c.referenceHit || c.factors.some(f => f.factor === 'date' && f.score > 0))
+        .sort((a, b) => b.score - a.score || a.paymentId - b.paymentId);
+}
+
+// --- Bulk, split and partial payments ---
+
+// One transfer paying several invoices (travel agencies, companies). Either the purpose lists the invoice
+// numbers and the transfer equals their open amounts, or it names none and open invoices of the sender
+// add up to it. Only bank transfer invoices may be passed in: card, Booking.com or OTA invoices named in a
+// purpose are paid through their own channel. Each invoice gets a match for its share of the transfer.
+export function matchBulkInMemory<T extends Invoice>(
+    invoices: T[],
+    banks: BankWithMatches[],
+    matchedIds: Set<number>,
+    results: any[],
+    rules: SourceRules
+): Set<number> {
+    const { dateToleranceDays, amountTolerance } = rules;
+    const matchedInvoiceIds = new Set<number>();
+    const open = invoices.filter(i => i.amount > AMOUNT_TOLERANCE);
+    const byNumber = new Map<string, T[]>();
+    for (const invoice of open) {
+        const number = extractInvoiceNumber(invoice.invoiceNumber);
+        if (number) byNumber.set(number, [...(byNumber.get(number) || []), invoice]);
+    }
+
+    for (const bank of banks) {
+        if (matchedIds.has(bank.id) || bank.amount <= 0) continue;
+        const inWindow = (i: T) => !matchedInvoiceIds.has(i.id) && Math.abs(differenceInDays(i.invoiceDate, bank.bookingDate)) <= dateToleranceDays;
+
+        const referenced = [...new Set([...referencedNumbers(bank.description)].flatMap(n => byNumber.get(n) || []))].filter(inWindow);
+        let allocation: T[] | null = null;
+        let confidence = 1.0;
+        if (referenced.length >= 2) {
+            const total = referenced.reduce((sum, i) => sum + i.amount, 0);
+            if (Math.abs(total - bank.amount) <= amountTolerance) allocation = referenced;
+        } else if (referenced.length === 0) {
+            const fromSender = open
+                .filter(i => inWindow(i) && i.amount < bank.amount && bankEvidence(i, bank).nameMatch)
+                .sort((a, b) => Math.abs(differenceInDays(a.invoiceDate, bank.bookingDate)) - Math.abs(differenceInDays(b.invoiceDate, bank.bookingDate)))
+                .slice(0, SPLIT_MAX_CANDIDATES);
+            allocation = findCombination(fromSender, bank.amount, amountTolerance);
+            confidence = 0.75;
+        }
+        if (!allocation) continue;
+
+        matchedIds.add(bank.id);
+        for (const invoice of allocation) {
+            matchedInvoiceIds.add(invoice.id);
+            results.push({ invoiceId: invoice.id, bankTransactionId: bank.id, matchType: 'BULK', confidence, amount: invoice.amount });
+        }
+    }
+    return matchedInvoiceIds;
+}
+
+// Several card payments and / or bank transfers that together pay the invoice (e.g. part card, part transfer,
+// or instalments). Card parts must be close to the invoice date, transfers need the name or invoice number.
+export function matchSplitInMemory(
+    invoice: Invoice,
+    cards: CardWithMatches[],
+    banks: BankWithMatches[],
+    matchedCardIds: Set<number>,
+    matchedBankIds: Set<number>,
+    results: any[],
+    rules: SourceRules
+): boolean {
+    const candidates = [
+        ...cards
+            .filter(c => !matchedCardIds.has(c.id) && c.amount > 0 && c.amount < invoice.amount)
+            .map(c => ({ cardPaymentId: c.id, amount: c.amount, diff: Math.abs(differenceInDays(invoice.invoiceDate, c.transactionDate)) }))
+            .filter(c => c.diff <= SPLIT_CARD_DATE_TOLERANCE_DAYS),
+        ...banks
+            .filter(b => !matchedBankIds.has(b.id) && b.amount > 0 && b.amount < invoice.amount)
+            .filter(b => { const { nameMatch, descMatch } = bankEvidence(invoice, b); return nameMatch || descMatch; })
+            .map(b => ({ bankTransactionId: b.id, amount: b.amount, diff: Math.abs(differenceInDays(invoice.invoiceDate, b.bookingDate)) }))
+            .filter(b => b.diff <= rules.dateToleranceDays)
+    ].sort((a, b) => a.diff - b.diff).slice(0, SPLIT_MAX_CANDIDATES);
+
+    const parts = findCombination(candidates, invoice.amount, rules.amountTolerance);
+    if (!parts) return false;
+
+    for (const { diff, ...part } of parts) {
+        if ('cardPaymentId' in part) matchedCardIds.add(part.cardPaymentId);
+        if ('bankTransactionId' in part) matchedBankIds.add(part.bankTransactionId);
+        results.push({ invoiceId: invoice.id, ...part, matchType: 'SPLIT', confidence: 0.7 });
+    }
+    return true;
+}
+
+// Instalments: transfers that name the invoice number in the purpose but do not cover it yet. The recipient's
+// name alone is not enough, it would attach any smaller transfer of a regular customer.
+// They are stored as partial payments; the invoice stays open with the remainder.
+export function matchPartialInMemory(
+    invoice: Invoice,
+    banks: BankWithMatches[],
+    matchedIds: Set<number>,
+    results: any[],
+    rules: SourceRules
+): number {
+    let remaining = invoice.amount;
+    let count = 0;
+    const candidates = banks
+        .filter(b => !matchedIds.has(b.id) && b.amount > 0)
+        .filter(b => Math.abs(differenceInDays(invoice.invoiceDate, b.bookingDate)) <= rules.dateToleranceDays)
+        .filter(b => bankEvidence(invoice, b).descMatch)
+        .sort((a, b) => a.bookingDate.getTime() - b.bookingDate.getTime());
+
+    for (const bank of candidates) {
+        if (bank.amount > remaining - rules.amountTolerance) continue;
+        matchedIds.add(bank.id);
+        remaining -= bank.amount;
+        count++;
+        results.push({ invoiceId: invoice.id, bankTransactionId: bank.id, matchType: 'PARTIAL', confidence: 0.9, amount: bank.amount });
+    }
+    return count;
+}
+
+// --- Helpers ---
+
+// Helper: Does a bank transfer name the invoice's recipient or carry its number in the purpose?
+function bankEvidence(invoice: Invoice, payment: BankTransaction) {
+    const nameMatch = !!(payment.senderReceiver && invoice.recipient &&
+        (payment.senderReceiver.toLowerCase().includes(invoice.recipient.toLowerCase()) ||
+            invoice.recipient.toLowerCase().includes(payment.senderReceiver.toLowerCase())));
+
+    const invoiceNum = extractInvoiceNumber(invoice.invoiceNumber);
+    const descMatch = !!(invoiceNum && referencedNumbers(payment.description).has(invoiceNum));
+    return { nameMatch, descMatch };
+}
+
+// Helper: Smallest set of 2..SPLIT_MAX_PARTS payments whose amounts add up to the target.
+// Candidates are sorted by relevance, so among equally small sets the closest payments win.
+export function findCombination<T extends { amount: number }>(candidates: T[], target: number, tolerance: number): T[] | null {
+    const search = (start: number, size: number, rest: number, chosen: T[]): T[] | null => {
+        if (size === 0) return Math.abs(rest) <= tolerance ? chosen : null;
+        for (let i = start; i < candidates.length; i++) {
+            if (candidates[i].amount > rest + tolerance) continue;
+            const found = search(i + 1, size - 1, rest - candidates[i].amount, [...chosen, candidates[i]]);
+            if (found) return found;
+        }
+        return null;
+    };
+    for (let size = 2; size <= SPLIT_MAX_PARTS; size++) {
+        const found = search(0, size, target, []);
+        if (found) return found;
+    }
+    return null;
+}
+
+// Helper: Days the date lies outside [start - tolerance, end + tolerance], 0 inside
+function daysOutside(date: Date, start: Date, end: Date, tolerance: number): number {
+    if (differenceInDays(start, date) > tolerance) return differenceInDays(start, date) - tolerance;
+    if (differenceInDays(date, end) > tolerance) return differenceInDays(date, end) - tolerance;
+    return 0;
+}
+
+export function differenceInDays(d1: Date, d2: Date): number {
+    const oneDay = 24 * 60 * 60 * 1000;
+    return Math.round((d1.getTime() - d2.getTime()) / oneDay);
+}
+
+// A bank transaction not yet used for an invoice, payout or settlement
+// Payments an invoice can still be matched to: not matched yet and not flagged as needing no invoice
+// (deposits, refunds, non-hotel revenue; see unmatchedPayments.ts). Only some sources can be flagged.
+export function isOpenPayment(p: { matches: unknown[]; flag?: unknown }): boolean {
+    return p.matches.length === 0 && !p.flag;
+}
+
+export function isOpenBankTransaction(t: BankWithMatches): boolean {
+    return t.matches.length === 0 && t.bookingPayouts.length === 0 && t.nexiSettlements.length === 0 && t.providerPayouts.length === 0;
+}
+
+// Helper: All numbers in a bank purpose ("RE 18763, 18764 u. 18770/2025"), so one transfer can name several
+// invoices and "18763" does not match inside "187631"
+function referencedNumbers(description: string | null): Set<string> {
+    return new Set((description || '').match(/\d+/g) || []);
+}
+
+function extractInvoiceNumber(fullNumber: string): string | null {
+    if (!fullNumber) return null;
+    const match = fullNumber.match(/(\d+)/);
+    return match ? match[0] : null;
+}
@@ -0,0 +1,76 @@
+import { normalizeHeader } from './mappings';
+import type { ParsedData, ProcessOptions } from './parsers';
+
+// A source the importer understands. detect() scores a header row between 0 (certainly not
+// this source) and 1 (certainly this source); the best-scoring parser gets the file.
+export interface SourceParser {
+    type: Exclude<ParsedData['type'], 'UNKNOWN'>;
+    label: string;
+    detect(header: string[]): number;
+    parse(records: string[][], options: ProcessOptions): Promise<ParsedData>;
+}
+
+export interface Detection {
+    parser: SourceParser | null;
+    scores: { type: string; score: number }[]; // best first
+    reason?: string; // Why no parser was chosen
+}
+
+const MIN_SCORE = 0.5; // Below this the header does not look like any known export
+const AMBIGUITY_MARGIN = 0.2; // Runner-up this close to the best score: refuse to guess
+
+const parsers: SourceParser[] = [];
+
+export function registerParser(parser: SourceParser) {
+    if (parsers.some(p => p.type === parser.type)) {
+        throw new Error(`Parser for ${parser.type} is already registered`);
+    }
+    parsers.push(parser);
+}
+
+export function getParser(type: string): SourceParser | undefined {
+    return parsers.find(p => p.type === type);
+}
+
+export function registeredParsers(): { type: string; label: string }[] {
+    return parsers.map(p => ({ type: p.type, label: p.label }));
+}
+
+// Helper: Fraction of characteristic columns present in the header. Each group lists alternative
+// names (German / English export variants) for one column; partial matches count, so
+// "Transaktionsdatum" also finds "Transaktionsdatum (Datum)".
+export function signatureScore(header: string[], groups: string[][]): number {
+    const cells = header.map(normalizeHeader).filter(Boolean);
+    const found = groups.filter(names => names.some(name => {
+        const n = normalizeHeader(name);
+        return cells.some(c => c === n || c.includes(n));
+    }));
+    return groups.length > 0 ? found.length / groups.length : 0;
+}
+
+export function detectSource(header: string[]): Detection {
+    const scored = parsers
+        .map(parser => ({ parser, score: Math.round(parser.detect(header) * 100) / 100 }))
+        .sort((a, b) => b.score - a.score);
+    const scores = scored.map(s => ({ type: s.parser.type, score: s.score }));
+    const [best, runnerUp] = scored;
+    const describe = (s: { parser: SourceParser; score: number }) => `${s.parser.label} (${Math.round(s.score * 100)}%)`;
+
+    if (!best || best.score < MIN_SCORE) {
+        return {
+            parser: null,
+            scores,
+            reason: best && best.score > 0
+                ? `Header does not match any known export closely enough, best guess ${describe(best)}`
+                : 'Header does not match any known export'
+        };
+    }
+    if (runnerUp && best.score - runnerUp.score < AMBIGUITY_MARGIN) {
+        return {
+            parser: null,
+            scores,
+            reason: `Ambiguous file: looks like ${describe(best)} and ${describe(runnerUp)}, please choose the type on upload`
+        };
+    }
+    return { parser: best.parser, scores };
+}
@@ -1,18 +1,56 @@
 import fs from 'fs';
+import crypto from 'crypto';
 import { parse } from 'csv-parse';
+import * as XLSX from 'xlsx';
 import { PrismaClient } from '@prisma/client';
 import path from 'path';
+import { resolveMapping } from './mappings';
+import { detectSlashOrder, parseDate } from './dates';
+import { invoiceChanges, nettedCreditNotes, reopensInvoice } from './invoiceChanges';
+import { bankIdentity, isCamt053, isMt940, parseCamt053, parseMt940, StatementEntry } from './bankStatements';
+import { registerParser, detectSource, getParser, signatureScore } from './parserRegistry';
+import { addPaymentTypes, channelOf, describeNewPaymentTypes, findNewPaymentTypes, isSettledWithoutPayment, loadChannels } from './paymentTypes';
 
 const prisma = new PrismaClient();
 
-interface ParsedData {
-    type: 'BOOKING' | 'IBELSA' | 'BANK' | 'NEXI' | 'UNKNOWN';
+export interface SkippedRow {
+    row: number; // line number in the file (header = 1)
+    field?: string; // logical field that failed validation, if any
+    reason: string;
+    raw?: string[];
+}
+
+export interface ImportPreview {
+    header: string[];
+    columnMapping: Record<string, number>;
+    rows: Record<string, unknown>[]; // first N parsed rows, as they would be written
+    skipped: SkippedRow[];
+}
+
+export interface ParsedData {
+    type: 'BOOKING' | 'IBELSA' | 'BANK' | 'NEXI' | 'AIRBNB' | 'EXPEDIA' | 'PAYPAL' | 'STRIPE' | 'SUMUP' | 'UNKNOWN';
     count: number;
+    encoding?: string; // Character set the file was decoded with (text files only)
     dateRangeStart?: Date;
     dateRangeEnd?: Date;
     logs?: string[];
+    duplicates?: number; // Rows skipped because they were already imported
+    skipped?: SkippedRow[]; // Rows that could not be imported, stored as ImportRowError
+    preview?: ImportPreview;
 }
 
+export interface ProcessOptions {
+    dryRun?: boolean; // Parse and validate only, nothing is written to the database
+    previewRows?: number;
+    encoding?: string; // Force a character set instead of auto-detection
+    importedFileId?: number; // ImportedFile the created records are linked to (for rollback)
+    type?: string; // Force a source type instead of header detection
+}
+
+const DEFAULT_PREVIEW_ROWS = 20;
+
+export const SUPPORTED_ENCODINGS = ['utf-8', 'windows-1252', 'iso-8859-1', 'iso-8859-15', 'utf-16le', 'utf-16be'];
+
 // Helper: Detect Delimiter
 function detectDelimiter(content: string): string {
     const firstLine = content.split(/\r?\n/)[0];
@@ -21,105 +59,136 @@ function detectDelimiter(content: string): string {
     return ',';
 }
 
-export async function processFile(filePath: string): Promise<ParsedData> {
-    const fileContent = fs.readFileSync(filePath, 'utf-8');
+export async function processFile(filePath: string, options: ProcessOptions = {}): Promise<ParsedData> {
+    console.log(`Processing file: ${path.basename(filePath)}`);
 
-    // Detect Type based on Header
-    const lines = fileContent.split(/\r?\n/);
-    const header = lines[0];
+    // Excel workbooks are converted to rows and go through the same parsers as CSV files
+    if (isSpreadsheet(filePath)) {
+        const sheet = readWorkbook(filePath);
+        console.log(`Using sheet "${sheet.name}"`);
+        const result = await processRecords(sheet.records, options);
+        return { ...result, logs: [`Sheet: ${sheet.name}`, ...(result.logs || [])] };
+    }
 
-    console.log(`Processing file: ${path.basename(filePath)}`);
-    console.log(`Header detected: ${header}`);
-
-    if ((header.includes('Referenznummer') && header.includes('Datum')) || header.includes('Booking.com') || (header.includes('Reference number') && header.includes('Payout date'))) {
-        return await parseBooking(fileContent);
-    } else if ((header.includes('Rechnungsdatum') && header.includes('Rechnungsnummer')) || header.includes('ibelsa')) {
-        return await parseIbelsa(fileContent);
-    } else if ((header.includes('Buchungstag') && header.includes('Verwendungszweck')) || header.includes('Valutadatum')) {
-        return await parseBank(fileContent);
-    } else if ((header.includes('Transaktionsdatum') || header.includes('Belegdatum')) && (header.includes('Umsatz') || header.includes('Betrag'))) {
-        return await parseNexi(fileContent);
-    }
-
-    console.log("Unknown file header. Trying generic detection...");
-    // Fallback: Try to parse as Nexi if it looks like a CSV with transaction data
-    if (header.includes('Date') && header.includes('Amount')) {
-        return await parseNexi(fileContent);
-    }
-
-    return { type: 'UNKNOWN', count: 0 };
-}
-
-// Helper: Parse German Date (dd.MM.yyyy, dd.MM.yy, yyyy-mm-dd, etc.)
-function parseDate(dateStr: string): Date | null {
-    if (!dateStr) return null;
-    let clean = dateStr.trim();
-
-    // Try standard dd.MM.yyyy or dd.MM.yy
-    if (clean.includes('.')) {
-        const parts = clean.split('.');
-        if (parts.length === 3) {
-            const day = parseInt(parts[0]);
-            const month = parseInt(parts[1]) - 1;
-            let year = parseInt(parts[2]);
-            // Handle 2-digit year
-            if (year < 100) year += 2000;
-            if (!isNaN(day) && !isNaN(month) && !isNaN(year)) {
-                return new Date(year, month, day);
-            }
-        }
+    const decoded = decodeFile(fs.readFileSync(filePath), options.encoding);
+    const fileContent = decoded.content;
+    const encodingLog = `Encoding: ${decoded.encoding} (${decoded.source})`;
+    console.log(encodingLog);
+
+    let result: ParsedData;
+    // Structured bank statements are recognized by their content, not by a CSV header
+    const statementAllowed = !options.type || options.type === 'BANK';
+    if (statementAllowed && isCamt053(fileContent)) {
+        result = await parseBankStatement(parseCamt053(fileContent), 'CAMT.053', options);
+    } else if (statementAllowed && isMt940(fileContent)) {
+        result = await parseBankStatement(parseMt940(fileContent), 'MT940', options);
+    } else {
+        result = await processRecords(await readRecords(fileContent), options);
     }
+    return { ...result, encoding: decoded.encoding, logs: [encodingLog, ...(result.logs || [])] };
+}
 
-    // Try yyyy-mm-dd
-    if (clean.includes('-')) {
-        const parts = clean.split('-');
-        if (parts.length === 3) {
-            // Check if first part is year (4 digits)
-            if (parts[0].length === 4) {
-                return new Date(clean);
-            }
-            // Maybe dd-mm-yyyy?
-            const day = parseInt(parts[0]);
-            const month = parseInt(parts[1]) - 1;
-            const year = parseInt(parts[2]);
-            return new Date(year, month, day);
+// Helper: Decode a text file. A BOM wins, then strict UTF-8; anything else is treated as
+// Windows-1252, which is what Volksbank and Ibelsa produce on German Windows systems.
+// The returned content never starts with a BOM.
+function decodeFile(buffer: Buffer, override?: string): { content: string; encoding: string; source: 'BOM' | 'detected' | 'override' } {
+    const decode = (encoding: string, bytes: Buffer) => new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+
+    if (override) {
+        const encoding = override.toLowerCase();
+        if (!SUPPORTED_ENCODINGS.includes(encoding)) {
+            throw new Error(`Unsupported encoding "${override}", expected one of ${SUPPORTED_ENCODINGS.join(', ')}`);
         }
+        // TextDecoder treats "iso-8859-1" as Windows-1252, Node's latin1 is the real thing
+        const content = encoding === 'iso-8859-1' ? buffer.toString('latin1') : decode(encoding, buffer);
+        return { content, encoding, source: 'override' };
     }
 
-    // Try verbose format (14. Okt. 2025, 9 Jun 2025)
-    const months: { [key: string]: number } = {
-        // German Short
-        'Jan': 0, 'Feb': 1, 'Mär': 2, 'Apr': 3, 'Mai': 4, 'Jun': 5,
-        'Jul': 6, 'Aug': 7, 'Sep': 8, 'Sept': 8, 'Okt': 9, 'Nov': 10, 'Dez': 11,
-        // German Full
-        'Januar': 0, 'Februar': 1, 'März': 2, 'April': 3, 'Juni': 5,
-        'Juli': 6, 'August': 7, 'September': 8, 'Oktober': 9, 'November': 10, 'Dezember': 11,
-        // English Short & Full
-        'Oct': 9, 'Dec': 11, 'Mar': 2, 'May': 4,
-        'January': 0, 'February': 1, 'March': 2, 'June': 5, 'July': 6, 'October': 9, 'December': 11
-    };
+    if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+        return { content: decode('utf-8', buffer), encoding: 'utf-8', source: 'BOM' };
+    }
+    if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+        return { content: decode('utf-16le', buffer), encoding: 'utf-16le', source: 'BOM' };
+    }
+    if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+        return { content: decode('utf-16be', buffer), encoding: 'utf-16be', source: 'BOM' };
+    }
 
-    // Clean up the string: remove quotes, extra spaces
-    clean = clean.replace(/['"]/g, '').trim();
+    // UTF-16 without BOM: ASCII text has a NUL in every other byte
+    const sample = buffer.subarray(0, 200);
+    const evenNuls = sample.filter((b, i) => i % 2 === 0 && b === 0).length;
+    const oddNuls = sample.filter((b, i) => i % 2 === 1 && b === 0).length;
+    if (sample.length >= 4 && oddNuls > sample.length / 4 && evenNuls === 0) {
+        return { content: decode('utf-16le', buffer), encoding: 'utf-16le', source: 'detected' };
+    }
+    if (sample.length >= 4 && evenNuls > sample.length / 4 && oddNuls === 0) {
+        return { content: decode('utf-16be', buffer), encoding: 'utf-16be', source: 'detected' };
+    }
 
-    // Try splitting by space
-    const verboseParts = clean.split(' ');
-    if (verboseParts.length >= 3) {
-        // Handle "9 Jun 2025" or "14. Okt. 2025"
-        const dayStr = verboseParts[0].replace('.', '');
-        const monthStr = verboseParts[1].replace('.', '');
-        const yearStr = verboseParts[2];
+    try {
+        const content = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+        return { content, encoding: 'utf-8', source: 'detected' };
+    } catch {
+        return { content: decode('windows-1252', buffer), encoding: 'windows-1252', source: 'detected' };
+    }
+}
 
-        const day = parseInt(dayStr);
-        const year = parseInt(yearStr);
-        const month = months[monthStr];
+async function processRecords(records: string[][], options: ProcessOptions): Promise<ParsedData> {
+    const header = records[0] || [];
+    console.log(`Header detected: ${header.join(';')}`);
 
-        if (!isNaN(day) && month !== undefined && !isNaN(year)) {
-            return new Date(year, month, day);
+    if (options.type) {
+        const parser = getParser(options.type);
+        if (!parser) {
+            throw new Error(`Unknown file type "${options.type}"`);
         }
+        const result = await parser.parse(records, options);
+        return { ...result, logs: [`Type forced: ${parser.label}`, ...(result.logs || [])] };
     }
 
-    return null;
+    const detection = detectSource(header);
+    const scoreLog = `Detection: ${detection.scores.map(s => `${s.type} ${Math.round(s.score * 100)}%`).join(', ')}`;
+    console.log(scoreLog);
+    if (!detection.parser) {
+        // Rejected instead of guessing: a misdetected file would be imported as the wrong kind of record
+        throw new Error(detection.reason);
+    }
+    const result = await detection.parser.parse(records, options);
+    return { ...result, logs: [scoreLog, ...(result.logs || [])] };
+}
+
+// Helper: .xlsx (zip) and legacy .xls (OLE2) files, detected by their signature
+function isSpreadsheet(filePath: string): boolean {
+    const fd = fs.openSync(filePath, 'r');
+    const magic = Buffer.alloc(4);
+    fs.readSync(fd, magic, 0, 4, 0);
+    fs.closeSync(fd);
+    return magic.equals(Buffer.from([0x50, 0x4b, 0x03, 0x04])) || magic.equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0]));
+}
+
+// Helper: Format a spreadsheet cell the way it would appear in a German CSV export
+function sheetCell(value: unknown): string {
+    if (value instanceof Date) {
+        const pad = (n: number) => String(n).padStart(2, '0');
+        const date = `${pad(value.getDate())}.${pad(value.getMonth() + 1)}.${value.getFullYear()}`;
+        const time = `${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}`;
+        // Time-only cells are anchored at Excel's epoch (1899-12-30)
+        if (value.getFullYear() < 1901) return time;
+        return time === '00:00:00' ? date : `${date} ${time}`;
+    }
+    if (value === null || value === undefined) return '';
+    return String(value);
+}
+
+// Read a workbook and pick the first sheet with a recognized header (falls back to the first sheet)
+function readWorkbook(filePath: string): { name: string; records: string[][] } {
+    const workbook = XLSX.read(fs.readFileSync(filePath), { cellDates: true });
+    const sheets = workbook.SheetNames.map(name => ({
+        name,
+        records: XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, raw: true, defval: '', blankrows: false })
+            .map(row => row.map(sheetCell))
+    }));
+    return sheets.find(sheet => detectSource(sheet.records[0] || []).parser !== null) || sheets[0] || { name: '', records: [] };
 }
 
 // Helper: Parse Amount (1.500,00 -> 1500.00)
@@ -147,251 +216,1069 @@ function parseAmount(amountStr: string): number {
     return parseFloat(clean);
 }
 
-async function parseBooking(content: string): Promise<ParsedData> {
-    const delimiter = detectDelimiter(content);
-    console.log(`Parsing Booking.com with delimiter: '${delimiter}'`);
+// Helper: Row fingerprints for idempotent imports.
+// Identical rows within one file (e.g. two equal card payments) are told apart by their occurrence index,
+// so re-uploading the same or an overlapping export yields the same fingerprints.
+function createFingerprinter() {
+    const occurrences = new Map<string, number>();
+    return (...parts: (string | number | Date | null | undefined)[]): string => {
+        const key = parts.map(p => {
+            if (p instanceof Date) return `${p.getFullYear()}-${p.getMonth() + 1}-${p.getDate()}`;
+            if (typeof p === 'number') return p.toFixed(2);
+            return (p || '').trim().replace(/\s+/g, ' ').toLowerCase();
+        }).join('|');
+        const occurrence = occurrences.get(key) || 0;
+        occurrences.set(key, occurrence + 1);
+        return crypto.createHash('sha1').update(`${key}|${occurrence}`).digest('hex');
+    };
+}
+
+// Bank rows get the same fingerprint from a CSV export and from a CAMT.053 / MT940 statement (bankIdentity)
+export function createBankFingerprinter() {
+    const fingerprint = createFingerprinter();
+    return (t: Parameters<typeof bankIdentity>[0]) => fingerprint(...bankIdentity(t));
+}
 
+// Helper: Build the preview returned for dry-run imports
+function buildPreview(header: string[], columnMapping: Record<string, number>, rows: Record<string, unknown>[], skipped: SkippedRow[], options: ProcessOptions): ImportPreview {
+    return {
+        header,
+        columnMapping,
+        // Fingerprints are internal, leave them out of the preview table
+        rows: rows.slice(0, options.previewRows ?? DEFAULT_PREVIEW_ROWS).map(({ fingerprint, ...row }) => row),
+        skipped
+    };
+}
+
+// Helper: Read all CSV records (header row included)
+function readRecords(content: string): Promise<string[][]> {
+    const delimiter = detectDelimiter(content);
+    console.log(`Parsing CSV with delimiter: '${delimiter}'`);
     return new Promise((resolve, reject) => {
-        // Parse WITH headers to get the header row
-        parse(content, { delimiter, from_line: 1, relax_quotes: true }, async (err, records) => {
+        parse(content, { delimiter, from_line: 1, relax_quotes: true, relax_column_count: true }, (err, records) => {
             if (err) return reject(err);
+            resolve(records);
+        });
+    });
+}
+
+// Helper: Empty lines (e.g. trailing newlines) are not data and are not reported
+function isBlankRow(row: string[]): boolean {
+    return row.every(c => !c || !c.trim());
+}
+
+// Helper: Read a mapped cell, '' for optional columns that are not present
+function cell(row: string[], idx: number): string {
+    return idx > -1 ? (row[idx] || '') : '';
+}
+
+async function parseBooking(records: string[][], options: ProcessOptions): Promise<ParsedData> {
 
-            if (records.length < 2) {
-                return resolve({ type: 'BOOKING', count: 0, logs: ["File too short, no data rows"] });
+    if (records.length < 2) {
+        return { type: 'BOOKING', count: 0, logs: ["File too short, no data rows"] };
+    }
+
+    // 1. Map Columns from Header (Row 0)
+    const { profile, columns: colMap } = await resolveMapping('BOOKING', records[0]);
+    console.log(`Booking.com column mapping (profile "${profile}"):`, colMap);
+    const logs: string[] = [`Mapping profile: ${profile}`, `Column Mapping: ${JSON.stringify(colMap)}`];
+
+    let minDate: Date | null = null;
+    let maxDate: Date | null = null;
+
+    // 2. Collect all data in memory first
+    const rows: ({ referenceNumber: string; checkInDate: Date | null; checkOutDate: Date | null; payoutDate: Date | null; payoutId: string; amount: number } & Omit<BookingAmounts, 'amount'>)[] = [];
+    const skipped: SkippedRow[] = [];
+    for (let i = 1; i < records.length; i++) {
+        const row = records[i];
+        if (isBlankRow(row)) continue;
+        try {
+            const ref = cell(row, colMap.referenceNumber);
+            const checkIn = parseDate(cell(row, colMap.checkInDate));
+            const checkOut = parseDate(cell(row, colMap.checkOutDate));
+            const payoutDate = parseDate(cell(row, colMap.payoutDate));
+            const payoutId = cell(row, colMap.payoutId).trim();
+            const optionalAmount = (idx: number) => cell(row, idx).trim() ? parseAmount(cell(row, idx)) : null;
+            const amounts = bookingAmounts({
+                amount: optionalAmount(colMap.amount),
+                grossAmount: optionalAmount(colMap.grossAmount),
+                commission: optionalAmount(colMap.commission),
+                paymentCharge: optionalAmount(colMap.paymentCharge),
+                netAmount: optionalAmount(colMap.netAmount)
+            });
+
+            if (!ref || !amounts.amount) {
+                skipped.push(!ref
+                    ? { row: i + 1, field: 'referenceNumber', reason: 'Missing reference number', raw: row }
+                    : { row: i + 1, field: 'amount', reason: `Missing or invalid amount "${cell(row, colMap.amount) || cell(row, colMap.netAmount) || cell(row, colMap.grossAmount)}"`, raw: row });
+                continue;
             }
 
-            // 1. Map Columns from Header (Row 0)
-            const header = records[0].map((col: string) => col.toLowerCase().trim());
-            console.log("Booking.com Header:", header);
+            rows.push({ referenceNumber: ref, checkInDate: checkIn, checkOutDate: checkOut, payoutDate, payoutId, ...amounts, amount: amounts.amount });
 
-            const colMap = {
-                ref: header.findIndex((h: string) => h.includes('referenz') || h.includes('reference') || h.includes('booking number')),
-                checkIn: header.findIndex((h: string) => h.includes('check-in') || h.includes('anreise')),
-                checkOut: header.findIndex((h: string) => h.includes('check-out') || h.includes('abreise')),
-                amount: header.findIndex((h: string) => h.includes('betrag') || h.includes('amount') || h.includes('total')),
-                payout: header.findIndex((h: string) => h.includes('auszahlungsdatum') || h.includes('payout date') || h.includes('datum der auszahlung'))
-            };
+            if (checkIn) {
+                if (!minDate || checkIn < minDate) minDate = checkIn;
+            }
+            if (payoutDate) {
+                if (!maxDate || payoutDate > maxDate) maxDate = payoutDate;
+            }
+        } catch (e) {
+            console.error("Error parsing booking row", row, e);
+            skipped.push({ row: i + 1, reason: String(e), raw: row });
+        }
+    }
+
+    const payoutIds = [...new Set(rows.map(r => r.payoutId).filter(Boolean))];
+    logs.push(`${payoutIds.length} payouts`);
 
-            console.log("Column Mapping:", colMap);
-            const logs: string[] = [`Column Mapping: ${JSON.stringify(colMap)}`];
+    const result: ParsedData = { type: 'BOOKING', count: rows.length, dateRangeStart: minDate || undefined, dateRangeEnd: maxDate || undefined, logs, skipped };
+    if (options.dryRun) {
+        return { ...result, preview: buildPreview(records[0], colMap, rows, skipped, options) };
+    }
 
-            if (colMap.ref === -1 || colMap.amount === -1) {
-                logs.push("Critical columns missing (Reference or Amount)");
-                return resolve({ type: 'BOOKING', count: 0, logs });
+    // 3. Create the payout batches, so reservations can reference them
+    const payouts = await prisma.$transaction(payoutIds.map(payoutId => {
+        const first = rows.find(r => r.payoutId === payoutId)!;
+        return prisma.bookingPayout.upsert({
+            where: { payoutId },
+            update: {},
+            create: {
+                payoutId,
+                payoutDate: first.payoutDate || new Date(0),
+                importedFileId: options.importedFileId
             }
+        });
+    }));
+    const payoutIdMap = new Map(payouts.map(p => [p.payoutId, p.id]));
 
-            let count = 0;
-            let minDate: Date | null = null;
-            let maxDate: Date | null = null;
-
-            // 2. Collect all data in memory first
-            const upsertOps: any[] = [];
-            for (let i = 1; i < records.length; i++) {
-                const row = records[i];
-                try {
-                    const ref = row[colMap.ref];
-                    const checkIn = colMap.checkIn > -1 ? parseDate(row[colMap.checkIn]) : null;
-                    const checkOut = colMap.checkOut > -1 ? parseDate(row[colMap.checkOut]) : null;
-                    const amount = parseAmount(row[colMap.amount]);
-                    const payoutDate = colMap.payout > -1 ? parseDate(row[colMap.payout]) : null;
-
-                    if (!ref || !amount) continue;
-
-                    upsertOps.push(
-                        prisma.bookingPayment.upsert({
-                            where: { referenceNumber: ref },
-                            update: {
-                                checkInDate: checkIn || undefined,
-                                checkOutDate: checkOut || undefined,
-                                payoutDate: payoutDate || undefined,
-                                amount: amount
-                            },
-                            create: {
-                                referenceNumber: ref,
-                                checkInDate: checkIn || new Date(0),
-                                checkOutDate: checkOut || new Date(0),
-                                payoutDate: payoutDate || new Date(0),
-                                amount: amount
-                            }
-                        })
-                    );
-                    count++;
-
-                    if (checkIn) {
-                        if (!minDate || checkIn < minDate) minDate = checkIn;
-                    }
-                    if (payoutDate) {
-                        if (!maxDate || payoutDate > maxDate) maxDate = payoutDate;
-                    }
-                } catch (e) {
-                    console.error("Error parsing booking row", row, e);
-                    logs.push(`Error parsing row ${i}: ${e}`);
+    // 4. Execute all upserts in a single transaction
+    if (rows.length > 0) {
+        await prisma.$transaction(rows.map(r =>
+            prisma.bookingPayment.upsert({
+                where: { referenceNumber: r.referenceNumber },
+                update: {
+                    checkInDate: r.checkInDate || undefined,
+                    checkOutDate: r.checkOutDate || undefined,
+                    payoutDate: r.payoutDate || undefined,
+                    amount: r.amount,
+                    grossAmount: r.grossAmount ?? undefined,
+                    commission: r.commission ?? undefined,
+                    paymentCharge: r.paymentCharge ?? undefined,
+                    netAmount: r.netAmount ?? undefined,
+                    bookingPayoutId: payoutIdMap.get(r.payoutId)
+                },
+                create: {
+                    importedFileId: options.importedFileId,
+                    referenceNumber: r.referenceNumber,
+                    checkInDate: r.checkInDate || new Date(0),
+                    checkOutDate: r.checkOutDate || new Date(0),
+                    payoutDate: r.payoutDate || new Date(0),
+                    amount: r.amount,
+                    grossAmount: r.grossAmount,
+                    commission: r.commission,
+                    paymentCharge: r.paymentCharge,
+                    netAmount: r.netAmount,
+                    bookingPayoutId: payoutIdMap.get(r.payoutId)
                 }
+            })
+        ));
+    }
+
+    await refreshBookingPayoutTotals(payouts.map(p => p.id));
+    return result;
+}
+
+type BookingAmounts = {
+    amount: number | null;
+    grossAmount: number | null;
+    commission: number | null;
+    paymentCharge: number | null;
+    netAmount: number | null;
+};
+
+// Helper: Complete gross / commission / payment charge / net from whatever columns the export has.
+// Fees are stored as positive numbers (exports show them as deductions), "amount" is what is paid out.
+function bookingAmounts(values: BookingAmounts): BookingAmounts {
+    const commission = values.commission !== null ? Math.abs(values.commission) : null;
+    const paymentCharge = values.paymentCharge !== null ? Math.abs(values.paymentCharge) : null;
+    const hasFees = commission !== null || paymentCharge !== null;
+    const fees = (commission || 0) + (paymentCharge || 0);
+    const round = (n: number) => Math.round(n * 100) / 100;
+
+    let netAmount = values.netAmount;
+    let grossAmount = values.grossAmount;
+    if (netAmount === null) netAmount = grossAmount !== null && hasFees ? round(grossAmount - fees) : values.amount;
+    if (grossAmount === null) grossAmount = netAmount !== null && hasFees ? round(netAmount + fees) : values.amount;
+
+    return { amount: values.amount ?? netAmount ?? grossAmount, grossAmount, commission, paymentCharge, netAmount };
+}
+
+// Recalculate payout totals from the reservations linked to them
+export async function refreshBookingPayoutTotals(payoutIds: number[]) {
+    if (payoutIds.length === 0) return;
+    const totals = await prisma.bookingPayment.groupBy({
+        by: ['bookingPayoutId'],
+        where: { bookingPayoutId: { in: payoutIds } },
+        _sum: { amount: true, grossAmount: true, commission: true, paymentCharge: true },
+        _count: { _all: true }
+    });
+    await prisma.$transaction(payoutIds.map(id => {
+        const t = totals.find(total => total.bookingPayoutId === id);
+        return prisma.bookingPayout.update({
+            where: { id },
+            data: {
+                reservationCount: t?._count._all || 0,
+                netAmount: Math.round((t?._sum.amount || 0) * 100) / 100,
+                grossAmount: Math.round((t?._sum.grossAmount || 0) * 100) / 100,
+                commission: Math.round((t?._sum.commission || 0) * 100) / 100,
+                paymentCharge: Math.round((t?._sum.paymentCharge || 0) * 100) / 100
             }
+        });
+    }));
+}
+
+// Ibelsa writes corrections as "Rechnungskorrektur <n> / Rechnung <original> / Folio #..." with a negative
+// total; a reopened folio is reversed as "Folio #<folio> (Rechnung erneut geöffnet)" without an invoice number
+function isCreditNote(invoiceNumber: string, amount: number): boolean {
+    return amount < 0 || /^(rechnungskorrektur|storno|gutschrift)/i.test(invoiceNumber.trim());
+}
+
+type IbelsaRow = { invoiceDate: Date; paymentType: string; invoiceNumber: string; recipient: string; amount: number; invoiceType: string };
+
+async function parseIbelsa(records: string[][], options: ProcessOptions): Promise<ParsedData> {
+    const { profile, columns: colMap } = await resolveMapping('IBELSA', records[0] || []);
+
+    let minDate: Date | null = null;
+    let maxDate: Date | null = null;
+    const rows: IbelsaRow[] = [];
+    const skipped: SkippedRow[] = [];
+    const seen = new Set<string>();
+    let repeated = 0;
 
-            // 3. Execute all upserts in a single transaction
-            if (upsertOps.length > 0) {
-                await prisma.$transaction(upsertOps);
+    for (let i = 1; i < records.length; i++) {
+        const row = records[i];
+        if (isBlankRow(row)) continue;
+        try {
+            const date = parseDate(cell(row, colMap.invoiceDate));
+            const type = cell(row, colMap.paymentType);
+            const number = cell(row, colMap.invoiceNumber);
+            const recipient = cell(row, colMap.recipient);
+            const amount = parseAmount(cell(row, colMap.amount));
+
+            if (!date) {
+                skipped.push({ row: i + 1, field: 'invoiceDate', reason: `Missing or invalid invoice date "${cell(row, colMap.invoiceDate)}"`, raw: row });
+            } else if (!number) {
+                skipped.push({ row: i + 1, field: 'invoiceNumber', reason: 'Missing invoice number', raw: row });
+            } else if (isNaN(amount)) {
+                skipped.push({ row: i + 1, field: 'amount', reason: `Invalid amount "${cell(row, colMap.amount)}"`, raw: row });
+            } else if (seen.has(number)) {
+                // Invoice numbers are unique, the first row of the file wins
+                repeated++;
+            } else {
+                seen.add(number);
+                rows.push({ invoiceDate: date, paymentType: type, invoiceNumber: number, recipient, amount, invoiceType: isCreditNote(number, amount) ? 'CREDIT_NOTE' : 'INVOICE' });
+                if (!minDate || date < minDate) minDate = date;
+                if (!maxDate || date > maxDate) maxDate = date;
             }
-            resolve({ type: 'BOOKING', count, dateRangeStart: minDate || undefined, dateRangeEnd: maxDate || undefined, logs });
+        } catch (e) {
+            console.error("Error parsing Ibelsa row", row, e);
+            skipped.push({ row: i + 1, reason: String(e), raw: row });
+        }
+    }
+
+    // Compare with invoices imported before: new, changed or unchanged
+    const existing = await prisma.invoice.findMany({
+        where: { invoiceNumber: { in: rows.map(r => r.invoiceNumber) } },
+        select: { id: true, invoiceNumber: true, invoiceDate: true, paymentType: true, recipient: true, amount: true, isReconciled: true, manualStatus: true }
+    });
+    const existingByNumber = new Map(existing.map(e => [e.invoiceNumber, e]));
+    const newRows = rows.filter(r => !existingByNumber.has(r.invoiceNumber));
+    const changed = rows
+        .filter(r => existingByNumber.has(r.invoiceNumber))
+        .map(r => ({ row: r, invoice: existingByNumber.get(r.invoiceNumber)!, changes: invoiceChanges(existingByNumber.get(r.invoiceNumber)!, r) }))
+        .filter(c => c.changes.length > 0);
+    const unchanged = rows.length - newRows.length - changed.length;
+    const creditNotes = rows.filter(r => r.invoiceType === 'CREDIT_NOTE').length;
+
+    const logs = [`Mapping profile: ${profile}`, `${newRows.length} new, ${changed.length} changed, ${unchanged} unchanged invoices`, `${creditNotes} credit notes`];
+    if (repeated > 0) logs.push(`${repeated} repeated invoice numbers ignored`);
+    const result: ParsedData = { type: 'IBELSA', count: newRows.length + changed.length, duplicates: unchanged, dateRangeStart: minDate || undefined, dateRangeEnd: maxDate || undefined, logs, skipped };
+    // Payment types seen for the first time get a mapping to their settlement channel (paymentTypes.ts)
+    const paymentTypes = rows.map(r => r.paymentType);
+    if (options.dryRun) {
+        const newTypes = await findNewPaymentTypes(paymentTypes);
+        if (newTypes.length > 0) logs.push(describeNewPaymentTypes(newTypes));
+        return { ...result, preview: buildPreview(records[0], colMap, rows, skipped, options) };
+    }
+    const newTypes = await addPaymentTypes(paymentTypes);
+    if (newTypes.length > 0) logs.push(describeNewPaymentTypes(newTypes));
+    const channels = await loadChannels();
+
+    if (newRows.length > 0) {
+        await prisma.invoice.createMany({
+            data: newRows.map(r => {
+                const isCash = isSettledWithoutPayment(channelOf(channels, r.paymentType));
+                return {
+                    ...r,
+                    importedFileId: options.importedFileId,
+                    // Cash and voucher payments are auto-reconciled — no matching needed
+                    isReconciled: isCash,
+                    manualStatus: isCash,
+                    reconciledDate: isCash ? new Date() : null
+                };
+            }),
+            skipDuplicates: true
         });
+    }
+
+    // Changed invoices take the new values; see reopensInvoice for when the invoice is reconciled again
+    let reopened = 0;
+    for (const { row, invoice, changes } of changed) {
+        const reopen = reopensInvoice(invoice, changes);
+        const isCash = isSettledWithoutPayment(channelOf(channels, row.paymentType));
+        const matchFilter = { OR: [{ invoiceId: invoice.id }, { creditNoteId: invoice.id }] };
+        const creditNoteIds = reopen
+            ? nettedCreditNotes(invoice.id, await prisma.reconciliationMatch.findMany({ where: matchFilter, select: { invoiceId: true, creditNoteId: true } }))
+            : [];
+        await prisma.$transaction([
+            ...(reopen ? [
+                prisma.reconciliationMatch.deleteMany({ where: matchFilter }),
+                prisma.invoice.updateMany({
+                    where: { id: { in: creditNoteIds } },
+                    data: { isReconciled: false, manualStatus: false, reconciledDate: null }
+                })
+            ] : []),
+            prisma.invoice.update({
+                where: { id: invoice.id },
+                data: {
+                    invoiceDate: row.invoiceDate,
+                    paymentType: row.paymentType,
+                    recipient: row.recipient,
+                    amount: row.amount,
+                    invoiceType: row.invoiceType,
+                    ...(reopen ? { isReconciled: isCash, manualStatus: isCash, reconciledDate: isCash ? new Date() : null } : {})
+                }
+            }),
+            prisma.invoiceChange.createMany({
+                data: changes.map(c => ({ ...c, invoiceId: invoice.id, importedFileId: options.importedFileId }))
+            })
+        ]);
+        if (reopen) reopened++;
+    }
+    if (reopened > 0) logs.push(`${reopened} reconciled invoices reopened because amount or payment type changed`);
+
+    const linked = await linkCreditNotes();
+    logs.push(`${linked} credit notes linked to their invoice`);
+    return result;
+}
+
+// Link credit notes to the invoice they correct. The original may come with a later (or earlier) export,
+// so every import retries the credit notes that are still unlinked.
+async function linkCreditNotes(): Promise<number> {
+    const open = await prisma.invoice.findMany({
+        where: { invoiceType: 'CREDIT_NOTE', originalInvoiceId: null },
+        select: { id: true, invoiceNumber: true, invoiceDate: true, paymentType: true, amount: true }
     });
+    let linked = 0;
+    for (const note of open) {
+        const correction = note.invoiceNumber.match(/^(?:rechnungskorrektur|storno|gutschrift)\b.*?\brechnung\s+(\d+)/i);
+        const folio = note.invoiceNumber.match(/^folio\s*#\s*([\w-]+)/i);
+        let original: { id: number } | null = null;
+
+        if (correction) {
+            // "Rechnungskorrektur 2272 / Rechnung 19076 / ..." corrects "Rechnung 19076 / Folio #..."
+            original = await prisma.invoice.findFirst({
+                where: {
+                    invoiceType: 'INVOICE',
+                    OR: [{ invoiceNumber: `Rechnung ${correction[1]}` }, { invoiceNumber: { startsWith: `Rechnung ${correction[1]} ` } }]
+                },
+                select: { id: true }
+            });
+        } else if (folio) {
+            // Reversal of a reopened folio: the latest earlier invoice of that folio with the same total and payment type
+            // (the reissued invoice usually has the same total but the payment type that was actually used)
+            original = await prisma.invoice.findFirst({
+                where: {
+                    invoiceType: 'INVOICE',
+                    invoiceNumber: { endsWith: `Folio #${folio[1]}` },
+                    paymentType: note.paymentType,
+                    amount: { gte: -note.amount - 0.01, lte: -note.amount + 0.01 },
+                    invoiceDate: { lte: note.invoiceDate },
+                    creditNotes: { none: {} }
+                },
+                orderBy: { invoiceDate: 'desc' },
+                select: { id: true }
+            });
+        }
+
+        if (original) {
+            await prisma.invoice.update({ where: { id: note.id }, data: { originalInvoiceId: original.id } });
+            linked++;
+        }
+    }
+    return linked;
 }
 
-async function parseIbelsa(content: string): Promise<ParsedData> {
-    const delimiter = detectDelimiter(content);
-    return new Promise((resolve, reject) => {
-        parse(content, { delimiter, from_line: 2, relax_quotes: true }, async (err, records) => {
-            if (err) return reject(err);
+async function parseBank(records: string[][], options: ProcessOptions): Promise<ParsedData> {
+    const { profile, columns: colMap } = await resolveMapping('BANK', records[0] || []);
 
-            let count = 0;
-            let minDate: Date | null = null;
-            let maxDate: Date | null = null;
-            const upsertOps: any[] = [];
-
-            for (const row of records) {
-                try {
-                    const date = parseDate(row[0]);
-                    const type = row[1];
-                    const number = row[2];
-                    const recipient = row[3];
-                    const amount = parseAmount(row[5]);
-
-                    if (date && number) {
-                        const isCash = type?.toLowerCase() === 'bar';
-                        upsertOps.push(
-                            prisma.invoice.upsert({
-                                where: { invoiceNumber: number },
-                                update: {},
-                                create: {
-                                    invoiceDate: date,
-                                    paymentType: type,
-                                    invoiceNumber: number,
-                                    recipient: recipient,
-                                    amount: amount,
-                                    // Bar (cash) payments are auto-reconciled — no matching needed
-                                    isReconciled: isCash,
-                                    manualStatus: isCash,
-                                    reconciledDate: isCash ? new Date() : null
-                                }
-                            })
-                        );
-                        count++;
-                        if (!minDate || date < minDate) minDate = date;
-                        if (!maxDate || date > maxDate) maxDate = date;
-                    }
-                } catch (e) {
-                    console.error("Error parsing Ibelsa row", row, e);
-                }
-            }
+    const createData: BankTransactionRow[] = [];
+    const skipped: SkippedRow[] = [];
+    const fingerprint = createBankFingerprinter();
 
-            if (upsertOps.length > 0) {
-                await prisma.$transaction(upsertOps);
+    for (let i = 1; i < records.length; i++) {
+        const row = records[i];
+        if (isBlankRow(row)) continue;
+        try {
+            const date = parseDate(cell(row, colMap.bookingDate));
+            const name = cell(row, colMap.counterparty);
+            const desc = cell(row, colMap.purpose);
+            const amount = parseAmount(cell(row, colMap.amount));
+
+            if (!date) {
+                skipped.push({ row: i + 1, field: 'bookingDate', reason: `Missing or invalid booking date "${cell(row, colMap.bookingDate)}"`, raw: row });
+            } else if (isNaN(amount)) {
+                skipped.push({ row: i + 1, field: 'amount', reason: `Invalid amount "${cell(row, colMap.amount)}"`, raw: row });
+            } else {
+                createData.push({
+                    bookingDate: date,
+                    senderReceiver: name,
+                    description: desc,
+                    amount: amount,
+                    fingerprint: fingerprint({ bookingDate: date, amount, counterparty: name, purpose: desc })
+                });
             }
-            resolve({ type: 'IBELSA', count, dateRangeStart: minDate || undefined, dateRangeEnd: maxDate || undefined });
+        } catch (e) {
+            console.error("Error parsing Bank row", row, e);
+            skipped.push({ row: i + 1, reason: String(e), raw: row });
+        }
+    }
+
+    return await saveBankTransactions(createData, skipped, [`Mapping profile: ${profile}`], options, buildPreview(records[0], colMap, createData, skipped, options));
+}
+
+type BankTransactionRow = {
+    bookingDate: Date;
+    valueDate?: Date | null;
+    amount: number;
+    currency?: string;
+    senderReceiver: string;
+    counterpartyIban?: string | null;
+    description: string;
+    reference?: string | null;
+    endToEndId?: string | null;
+    fingerprint: string;
+};
+
+// Shared by the CSV and the structured statement parsers: insert new rows, skip already imported ones
+async function saveBankTransactions(createData: BankTransactionRow[], skipped: SkippedRow[], logs: string[], options: ProcessOptions, preview: ImportPreview): Promise<ParsedData> {
+    let minDate: Date | null = null;
+    let maxDate: Date | null = null;
+    for (const d of createData) {
+        if (!minDate || d.bookingDate < minDate) minDate = d.bookingDate;
+        if (!maxDate || d.bookingDate > maxDate) maxDate = d.bookingDate;
+    }
+
+    const result: ParsedData = { type: 'BANK', count: createData.length, dateRangeStart: minDate || undefined, dateRangeEnd: maxDate || undefined, skipped };
+    if (options.dryRun) {
+        const existing = await prisma.bankTransaction.findMany({
+            where: { fingerprint: { in: createData.map(d => d.fingerprint) } },
+            select: { fingerprint: true }
         });
-    });
+        const duplicates = existing.length;
+        return { ...result, count: createData.length - duplicates, duplicates, logs: [...logs, `${duplicates} duplicate rows already imported`], preview };
+    }
+
+    let inserted = 0;
+    if (createData.length > 0) {
+        // Rows whose fingerprint already exists were imported before (same or overlapping export)
+        const data = createData.map(d => ({ ...d, importedFileId: options.importedFileId }));
+        inserted = (await prisma.bankTransaction.createMany({ data, skipDuplicates: true })).count;
+    }
+    const duplicates = createData.length - inserted;
+    return { ...result, count: inserted, duplicates, logs: [...logs, `${duplicates} duplicate rows skipped`] };
 }
 
-async function parseBank(content: string): Promise<ParsedData> {
-    const delimiter = detectDelimiter(content);
-    return new Promise((resolve, reject) => {
-        parse(content, { delimiter, from_line: 2, relax_quotes: true }, async (err, records) => {
-            if (err) return reject(err);
+// CAMT.053 / MT940 statements: entries are already structured, no column mapping needed
+async function parseBankStatement(entries: StatementEntry[], format: string, options: ProcessOptions): Promise<ParsedData> {
+    console.log(`Parsing ${format} statement with ${entries.length} entries`);
+    const fingerprint = createBankFingerprinter();
 
-            let count = 0;
-            let minDate: Date | null = null;
-            let maxDate: Date | null = null;
-            const createData: any[] = [];
-
-            for (const row of records) {
-                try {
-                    const date = parseDate(row[4]);
-                    const name = row[6];
-                    const desc = row[10];
-                    const amount = parseAmount(row[11]);
-
-                    if (date) {
-                        createData.push({
-                            bookingDate: date,
-                            senderReceiver: name,
-                            description: desc,
-                            amount: amount
-                        });
-                        count++;
-                        if (!minDate || date < minDate) minDate = date;
-                        if (!maxDate || date > maxDate) maxDate = date;
-                    }
-                } catch (e) {
-                    console.error("Error parsing Bank row", row, e);
-                }
+    const createData: BankTransactionRow[] = entries.map(e => ({
+        bookingDate: e.bookingDate,
+        valueDate: e.valueDate,
+        amount: e.amount,
+        currency: e.currency,
+        senderReceiver: e.counterparty,
+        counterpartyIban: e.counterpartyIban,
+        description: e.purpose,
+        reference: e.reference,
+        endToEndId: e.endToEndId,
+        fingerprint: fingerprint(e)
+    }));
+
+    return await saveBankTransactions(createData, [], [`Format: ${format}`], options, buildPreview([], {}, createData, [], options));
+}
+
+async function parseNexi(records: string[][], options: ProcessOptions): Promise<ParsedData> {
+    console.log(`Nexi records found: ${records.length - 1}`);
+    if (records.length > 1) {
+        console.log("First Nexi row:", records[1]);
+    }
+
+    const { profile, columns: colMap } = await resolveMapping('NEXI', records[0] || []);
+    let minDate: Date | null = null;
+    let maxDate: Date | null = null;
+    const createData: {
+        transactionDate: Date;
+        transactionTime: string | null;
+        cardType: string;
+        amount: number;
+        grossAmount: number;
+        fee: number | null;
+        feeVat: number | null;
+        terminalId: string | null;
+        authCode: string | null;
+        settlementId: string;
+        fingerprint: string;
+    }[] = [];
+    const skipped: SkippedRow[] = [];
+    const fingerprint = createFingerprinter();
+
+    for (let i = 1; i < records.length; i++) {
+        const row = records[i];
+        if (isBlankRow(row)) continue;
+        try {
+            if (row.length < 3) {
+                console.warn("Skipping Nexi row, too few columns:", row);
+                skipped.push({ row: i + 1, reason: 'Too few columns', raw: row });
+                continue;
             }
 
-            if (createData.length > 0) {
-                await prisma.bankTransaction.createMany({ data: createData });
+            const type = cell(row, colMap.cardType);
+            const date = parseDate(cell(row, colMap.transactionDate));
+            const time = cell(row, colMap.transactionTime).trim();
+            const optionalText = (idx: number) => cell(row, idx).trim() || null;
+            // Fees are shown as deductions in some exports, stored as positive numbers
+            const optionalFee = (idx: number) => cell(row, idx).trim() ? Math.abs(parseAmount(cell(row, idx))) : null;
+
+            let amount = parseAmount(cell(row, colMap.amount));
+            let gross = parseAmount(cell(row, colMap.grossAmount));
+            const fee = optionalFee(colMap.fee);
+            const feeVat = optionalFee(colMap.feeVat);
+
+            if (amount === 0 && gross > 0) {
+                amount = gross;
             }
-            resolve({ type: 'BANK', count, dateRangeStart: minDate || undefined, dateRangeEnd: maxDate || undefined });
+
+            if (date && !Number.isFinite(amount)) {
+                skipped.push({ row: i + 1, field: 'amount', reason: `Invalid amount "${cell(row, colMap.amount)}"`, raw: row });
+            } else if (date && !Number.isFinite(gross)) {
+                skipped.push({ row: i + 1, field: 'grossAmount', reason: `Invalid gross amount "${cell(row, colMap.grossAmount)}"`, raw: row });
+            } else if (date && [fee, feeVat].some(f => f !== null && !Number.isFinite(f))) {
+                skipped.push({ row: i + 1, field: 'fee', reason: `Invalid fee "${cell(row, colMap.fee)}" or fee VAT "${cell(row, colMap.feeVat)}"`, raw: row });
+            } else if (date) {
+                createData.push({
+                    transactionDate: date,
+                    transactionTime: time || null,
+                    cardType: type,
+                    amount: amount,
+                    grossAmount: gross,
+                    fee,
+                    feeVat,
+                    terminalId: optionalText(colMap.terminalId),
+                    authCode: optionalText(colMap.authCode),
+                    // Empty until Nexi has paid the transaction out
+                    settlementId: cell(row, colMap.settlementId).trim(),
+                    fingerprint: fingerprint(date, time, type, amount)
+                });
+                if (!minDate || date < minDate) minDate = date;
+                if (!maxDate || date > maxDate) maxDate = date;
+            } else {
+                console.warn("Nexi row skipped, invalid date:", cell(row, colMap.transactionDate));
+                skipped.push({ row: i + 1, field: 'transactionDate', reason: `Missing or invalid transaction date "${cell(row, colMap.transactionDate)}"`, raw: row });
+            }
+        } catch (e) {
+            console.error("Error parsing Nexi row", row, e);
+            skipped.push({ row: i + 1, reason: String(e), raw: row });
+        }
+    }
+
+    const settlementIds = [...new Set(createData.map(d => d.settlementId).filter(Boolean))];
+    const result: ParsedData = { type: 'NEXI', count: createData.length, dateRangeStart: minDate || undefined, dateRangeEnd: maxDate || undefined, skipped };
+    if (options.dryRun) {
+        const existing = await prisma.cardPayment.findMany({
+            where: { fingerprint: { in: createData.map(d => d.fingerprint) } },
+            select: { fingerprint: true }
         });
-    });
+        const duplicates = existing.length;
+        return { ...result, count: createData.length - duplicates, duplicates, logs: [`Mapping profile: ${profile}`, `${settlementIds.length} settlements`, `${duplicates} duplicate rows already imported`], preview: buildPreview(records[0], colMap, createData, skipped, options) };
+    }
+
+    // Create the settlement batches, so card payments can reference them
+    const settlements = await prisma.$transaction(settlementIds.map(settlementId => prisma.nexiSettlement.upsert({
+        where: { settlementId },
+        update: {},
+        create: {
+            settlementId,
+            settlementDate: createData.filter(d => d.settlementId === settlementId)
+                .reduce((latest, d) => d.transactionDate > latest ? d.transactionDate : latest, new Date(0)),
+            importedFileId: options.importedFileId
+        }
+    })));
+    const settlementIdMap = new Map(settlements.map(s => [s.settlementId, s.id]));
+
+    let inserted = 0;
+    if (createData.length > 0) {
+        // Rows whose fingerprint already exists were imported before (same or overlapping export)
+        const data = createData.map(({ settlementId, ...d }) => ({ ...d, nexiSettlementId: settlementIdMap.get(settlementId), importedFileId: options.importedFileId }));
+        inserted = (await prisma.cardPayment.createMany({ data, skipDuplicates: true })).count;
+
+        // Transactions imported while still unsettled get their settlement from the newer export
+        await prisma.$transaction(settlements.map(s => prisma.cardPayment.updateMany({
+            where: { fingerprint: { in: createData.filter(d => d.settlementId === s.settlementId).map(d => d.fingerprint) }, nexiSettlementId: null },
+            data: { nexiSettlementId: s.id }
+        })));
+    }
+    await refreshNexiSettlementTotals(settlements.map(s => s.id));
+
+    const duplicates = createData.length - inserted;
+    return { ...result, count: inserted, duplicates, logs: [`Mapping profile: ${profile}`, `${settlementIds.length} settlements`, `${duplicates} duplicate rows skipped`] };
 }
 
-async function parseNexi(content: string): Promise<ParsedData> {
-    const delimiter = detectDelimiter(content);
-    console.log(`Parsing Nexi with delimiter: '${delimiter}'`);
+// Airbnb transaction history and Expedia payment reports: one row per paid out reservation.
+// Airbnb also lists the payouts themselves (and e.g. resolution payouts without a code), those are no reservations.
+async function parseOtaPayments(channel: 'AIRBNB' | 'EXPEDIA', records: string[][], options: ProcessOptions): Promise<ParsedData> {
+    const { profile, columns: colMap } = await resolveMapping(channel, records[0] || []);
+    console.log(`${channel} column mapping (profile "${profile}"):`, colMap);
 
-    return new Promise((resolve, reject) => {
-        parse(content, { delimiter, from_line: 2, relax_quotes: true }, async (err, records) => {
-            if (err) return reject(err);
+    let minDate: Date | null = null;
+    let maxDate: Date | null = null;
+    let payoutRows = 0;
+    const createData: {
+        channel: string;
+        referenceNumber: string;
+        transactionType: string | null;
+        guestName: string | null;
+        checkInDate: Date | null;
+        checkOutDate: Date | null;
+        payoutDate: Date;
+        amount: number;
+        grossAmount: number | null;
+        commission: number | null;
+        currency: string;
+        payoutReference: string | null;
+        fingerprint: string;
+    }[] = [];
+    const skipped: SkippedRow[] = [];
+    const fingerprint = createFingerprinter();
+    // English exports write MM/dd/yyyy unless a date shows otherwise
+    const dateOrder = detectSlashOrder(records.slice(1).flatMap(row => [colMap.payoutDate, colMap.checkInDate, colMap.checkOutDate].map(idx => cell(row, idx)))) || 'MDY';
 
-            console.log(`Nexi records found: ${records.length}`);
-            if (records.length > 0) {
-                console.log("First Nexi row:", records[0]);
+    for (let i = 1; i < records.length; i++) {
+        const row = records[i];
+        if (isBlankRow(row)) continue;
+        try {
+            const type = cell(row, colMap.transactionType).trim();
+            if (/^(payout|auszahlung)$/i.test(type)) {
+                payoutRows++;
+                continue;
             }
 
-            let count = 0;
-            let minDate: Date | null = null;
-            let maxDate: Date | null = null;
-            const createData: any[] = [];
-
-            for (const row of records) {
-                try {
-                    if (row.length < 3) {
-                        console.warn("Skipping Nexi row, too few columns:", row);
-                        continue;
-                    }
-
-                    const type = row[1];
-                    const date = parseDate(row[2]);
-
-                    let amount = parseAmount(row[10]);
-                    let gross = parseAmount(row[11]);
-
-                    if (amount === 0 && gross > 0) {
-                        amount = gross;
-                    }
-
-                    if (date) {
-                        createData.push({
-                            transactionDate: date,
-                            cardType: type,
-                            amount: amount,
-                            grossAmount: gross
-                        });
-                        count++;
-                        if (!minDate || date < minDate) minDate = date;
-                        if (!maxDate || date > maxDate) maxDate = date;
-                    } else {
-                        console.warn("Nexi row skipped, invalid date:", row[2]);
-                    }
-                } catch (e) {
-                    console.error("Error parsing Nexi row", row, e);
-                }
+            const ref = cell(row, colMap.referenceNumber).trim();
+            const payoutDate = parseDate(cell(row, colMap.payoutDate), dateOrder);
+            const amount = parseAmount(cell(row, colMap.amount));
+            const optionalAmount = (idx: number) => cell(row, idx).trim() ? parseAmount(cell(row, idx)) : null;
+            const optionalText = (idx: number) => cell(row, idx).trim() || null;
+
+            if (!ref) {
+                skipped.push({ row: i + 1, field: 'referenceNumber', reason: 'Missing reservation reference', raw: row });
+                continue;
+            }
+            if (!payoutDate) {
+                skipped.push({ row: i + 1, field: 'payoutDate', reason: `Missing or invalid payout date "${cell(row, colMap.payoutDate)}"`, raw: row });
+                continue;
+            }
+            if (isNaN(amount)) {
+                skipped.push({ row: i + 1, field: 'amount', reason: `Invalid amount "${cell(row, colMap.amount)}"`, raw: row });
+                continue;
+            }
+
+            const checkInDate = parseDate(cell(row, colMap.checkInDate), dateOrder);
+            let checkOutDate = parseDate(cell(row, colMap.checkOutDate), dateOrder);
+            const nights = parseInt(cell(row, colMap.nights));
+            if (!checkOutDate && checkInDate && nights > 0) {
+                checkOutDate = new Date(checkInDate.getFullYear(), checkInDate.getMonth(), checkInDate.getDate() + nights);
             }
+            const commission = optionalAmount(colMap.commission);
+
+            createData.push({
+                channel,
+                referenceNumber: ref,
+                transactionType: type || null,
+                guestName: optionalText(colMap.guestName),
+                checkInDate,
+                checkOutDate,
+                payoutDate,
+                amount,
+                grossAmount: optionalAmount(colMap.grossAmount),
+                // Fees are shown as deductions in some exports, stored as positive numbers
+                commission: commission !== null ? Math.abs(commission) : null,
+                currency: optionalText(colMap.currency) || 'EUR',
+                payoutReference: optionalText(colMap.payoutReference),
+                fingerprint: fingerprint(channel, ref, type, payoutDate, amount)
+            });
+            if (!minDate || payoutDate < minDate) minDate = payoutDate;
+            if (!maxDate || payoutDate > maxDate) maxDate = payoutDate;
+        } catch (e) {
+            console.error(`Error parsing ${channel} row`, row, e);
+            skipped.push({ row: i + 1, reason: String(e), raw: row });
+        }
+    }
+
+    const logs = [`Mapping profile: ${profile}`];
+    if (payoutRows > 0) logs.push(`${payoutRows} payout rows ignored`);
+    const result: ParsedData = { type: channel, count: createData.length, dateRangeStart: minDate || undefined, dateRangeEnd: maxDate || undefined, skipped };
+    const fingerprints = createData.map(d => d.fingerprint);
+
+    if (options.dryRun) {
+        const duplicates = await prisma.otaPayment.count({ where: { fingerprint: { in: fingerprints } } });
+        return { ...result, count: createData.length - duplicates, duplicates, logs: [...logs, `${duplicates} duplicate rows already imported`], preview: buildPreview(records[0], colMap, createData, skipped, options) };
+    }
+
+    let inserted = 0;
+    if (createData.length > 0) {
+        // Rows whose fingerprint already exists were imported before (same or overlapping export)
+        const data = createData.map(d => ({ ...d, importedFileId: options.importedFileId }));
+        inserted = (await prisma.otaPayment.createMany({ data, skipDuplicates: true })).count;
+    }
+    const duplicates = createData.length - inserted;
+    return { ...result, count: inserted, duplicates, logs: [...logs, `${duplicates} duplicate rows skipped`] };
+}
+
+// PayPal, Stripe and SumUp reports: one row per guest payment. Payouts to the bank account are either
+// separate rows (PayPal "Allgemeine Abbuchung" / bank withdrawals) or a payout ID on every payment (Stripe, SumUp).
+async function parseProviderPayments(provider: 'PAYPAL' | 'STRIPE' | 'SUMUP', records: string[][], options: ProcessOptions): Promise<ParsedData> {
+    const { profile, columns: colMap } = await resolveMapping(provider, records[0] || []);
+    console.log(`${provider} column mapping (profile "${profile}"):`, colMap);
+
+    let minDate: Date | null = null;
+    let maxDate: Date | null = null;
+    let ignoredRows = 0;
+    const payments: {
+        provider: string;
+        transactionId: string;
+        transactionDate: Date;
+        transactionType: string | null;
+        customer: string | null;
+        reference: string | null;
+        grossAmount: number;
+        fee: number | null;
+        netAmount: number;
+        currency: string;
+        payoutId: string;
+        payoutDate: Date | null;
+    }[] = [];
+    // Withdrawals listed in the report itself, with the amount that reaches the bank
+    const withdrawals: { payoutId: string; payoutDate: Date; amount: number; currency: string }[] = [];
+    const skipped: SkippedRow[] = [];
+    // Reports come as MM/dd or dd/MM depending on the account's language; ambiguous dates are rejected
+    // unless another date of the report decides the order
+    const dateOrder = detectSlashOrder(records.slice(1).flatMap(row => [cell(row, colMap.transactionDate), cell(row, colMap.payoutDate)]));
+
+    for (let i = 1; i < records.length; i++) {
+        const row = records[i];
+        if (isBlankRow(row)) continue;
+        try {
+            const status = cell(row, colMap.status).trim();
+            if (/^(failed|fehlgeschlagen|canceled|cancelled|storniert|abgebrochen|denied|abgelehnt|pending|ausstehend)/i.test(status)) {
+                ignoredRows++;
+                continue;
+            }
+
+            const transactionId = cell(row, colMap.transactionId).trim();
+            const date = parseDate(cell(row, colMap.transactionDate), dateOrder);
+            const type = cell(row, colMap.transactionType).trim();
+            const gross = parseAmount(cell(row, colMap.grossAmount));
+            const optionalText = (idx: number) => cell(row, idx).trim() || null;
+            const currency = optionalText(colMap.currency)?.toUpperCase() || 'EUR';
+
+            if (!transactionId) {
+                skipped.push({ row: i + 1, field: 'transactionId', reason: 'Missing transaction ID', raw: row });
+                continue;
+            }
+            if (!date) {
+                skipped.push({ row: i + 1, field: 'transactionDate', reason: `Missing, invalid or ambiguous (dd/MM or MM/dd) date "${cell(row, colMap.transactionDate)}"`, raw: row });
+                continue;
+            }
+            if (isNaN(gross)) {
+                skipped.push({ row: i + 1, field: 'grossAmount', reason: `Invalid amount "${cell(row, colMap.grossAmount)}"`, raw: row });
+                continue;
+            }
+
+            if (gross < 0 && /abbuchung|bankkonto|withdraw|payout|auszahlung|transfer/i.test(type)) {
+                withdrawals.push({ payoutId: transactionId, payoutDate: date, amount: Math.abs(gross), currency });
+                continue;
+            }
+
+            // Fees are shown as deductions in some exports, stored as positive numbers
+            const fee = cell(row, colMap.fee).trim() ? Math.abs(parseAmount(cell(row, colMap.fee))) : null;
+            const net = cell(row, colMap.netAmount).trim()
+                ? parseAmount(cell(row, colMap.netAmount))
+                : Math.round((gross - (fee || 0)) * 100) / 100;
+
+            payments.push({
+                provider,
+                transactionId,
+                transactionDate: date,
+                transactionType: type || null,
+                customer: optionalText(colMap.customer),
+                reference: optionalText(colMap.reference),
+                grossAmount: gross,
+                fee,
+                netAmount: isNaN(net) ? gross : net,
+                currency,
+                payoutId: cell(row, colMap.payoutId).trim(),
+                payoutDate: parseDate(cell(row, colMap.payoutDate), dateOrder)
+            });
+            if (!minDate || date < minDate) minDate = date;
+            if (!maxDate || date > maxDate) maxDate = date;
+        } catch (e) {
+            console.error(`Error parsing ${provider} row`, row, e);
+            skipped.push({ row: i + 1, reason: String(e), raw: row });
+        }
+    }
 
-            if (createData.length > 0) {
-                await prisma.cardPayment.createMany({ data: createData });
+    const payoutIds = [...new Set([...withdrawals.map(w => w.payoutId), ...payments.map(p => p.payoutId).filter(Boolean)])];
+    const logs = [`Mapping profile: ${profile}`, `${payoutIds.length} payouts`];
+    if (ignoredRows > 0) logs.push(`${ignoredRows} failed, cancelled or pending rows ignored`);
+    const result: ParsedData = { type: provider, count: payments.length, dateRangeStart: minDate || undefined, dateRangeEnd: maxDate || undefined, skipped };
+
+    if (options.dryRun) {
+        const duplicates = await prisma.providerPayment.count({
+            where: { provider, transactionId: { in: payments.map(p => p.transactionId) } }
+        });
+        return { ...result, count: payments.length - duplicates, duplicates, logs: [...logs, `${duplicates} duplicate rows already imported`], preview: buildPreview(records[0], colMap, payments, skipped, options) };
+    }
+
+    // Create the payouts first, so payments can reference them
+    const payouts = await prisma.$transaction(payoutIds.map(payoutId => {
+        const withdrawal = withdrawals.find(w => w.payoutId === payoutId);
+        const linked = payments.filter(p => p.payoutId === payoutId);
+        const payoutDate = withdrawal?.payoutDate || linked.find(p => p.payoutDate)?.payoutDate
+            || linked.reduce((latest, p) => p.transactionDate > latest ? p.transactionDate : latest, new Date(0));
+        return prisma.providerPayout.upsert({
+            where: { provider_payoutId: { provider, payoutId } },
+            update: withdrawal ? { amount: withdrawal.amount } : {},
+            create: {
+                provider,
+                payoutId,
+                payoutDate,
+                currency: withdrawal?.currency || linked[0]?.currency || 'EUR',
+                amount: withdrawal?.amount || 0,
+                importedFileId: options.importedFileId
             }
-            resolve({ type: 'NEXI', count, dateRangeStart: minDate || undefined, dateRangeEnd: maxDate || undefined });
         });
+    }));
+    const payoutIdMap = new Map(payouts.map(p => [p.payoutId, p.id]));
+
+    // Existing transactions are kept, only a payout that was not known yet is filled in; a transaction
+    // already linked to a payout stays with it
+    const existing = await prisma.providerPayment.findMany({
+        where: { provider, transactionId: { in: payments.map(p => p.transactionId) } },
+        select: { transactionId: true, providerPayoutId: true }
     });
+    const existingIds = new Set(existing.map(e => e.transactionId));
+    const linkedIds = new Set(existing.filter(e => e.providerPayoutId !== null).map(e => e.transactionId));
+    if (payments.length > 0) {
+        await prisma.$transaction(payments.map(({ payoutId, payoutDate, ...p }) => prisma.providerPayment.upsert({
+            where: { provider_transactionId: { provider, transactionId: p.transactionId } },
+            update: linkedIds.has(p.transactionId) ? {} : { providerPayoutId: payoutIdMap.get(payoutId) },
+            create: { ...p, providerPayoutId: payoutIdMap.get(payoutId), importedFileId: options.importedFileId }
+        })));
+    }
+    await refreshProviderPayoutTotals(payouts.map(p => p.id));
+
+    const duplicates = payments.filter(p => existingIds.has(p.transactionId)).length;
+    return { ...result, count: payments.length - duplicates, duplicates, logs: [...logs, `${duplicates} duplicate rows skipped`] };
 }
+
+// Recalculate payout totals from the payments linked to them. Withdrawals without linked payments
+// (PayPal) keep the amount taken from the report.
+export async function refreshProviderPayoutTotals(payoutIds: number[]) {
+    if (payoutIds.length === 0) return;
+    const totals = await prisma.providerPayment.groupBy({
+        by: ['providerPayoutId'],
+        where: { providerPayoutId: { in: payoutIds } },
+        _sum: { netAmount: true },
+        _count: { _all: true }
+    });
+    await prisma.$transaction(payoutIds.map(id => {
+        const t = totals.find(total => total.providerPayoutId === id);
+        const count = t?._count._all || 0;
+        return prisma.providerPayout.update({
+            where: { id },
+            data: count > 0
+                ? { transactionCount: count, amount: Math.round((t?._sum.netAmount || 0) * 100) / 100 }
+                : { transactionCount: 0 }
+        });
+    }));
+}
+
+// Recalculate settlement totals from the card payments linked to them.
+// VAT on the service charge is missing from some exports; a value taken from the bank credit is kept then.
+export async function refreshNexiSettlementTotals(settlementIds: number[]) {
+    if (settlementIds.length === 0) return;
+    const [totals, settlements] = await Promise.all([
+        prisma.cardPayment.groupBy({
+            by: ['nexiSettlementId'],
+            where: { nexiSettlementId: { in: settlementIds } },
+            _sum: { amount: true, grossAmount: true, fee: true, feeVat: true },
+            _max: { transactionDate: true },
+            _count: { _all: true }
+        }),
+        prisma.nexiSettlement.findMany({ where: { id: { in: settlementIds } }, select: { id: true, feeVat: true } })
+    ]);
+    const round = (n: number) => Math.round(n * 100) / 100;
+    await prisma.$transaction(settlements.map(s => {
+        const t = totals.find(total => total.nexiSettlementId === s.id);
+        const grossAmount = round(t?._sum.grossAmount || t?._sum.amount || 0);
+        const fees = round(t?._sum.fee || 0);
+        const feeVat = round(t?._sum.feeVat || s.feeVat);
+        return prisma.nexiSettlement.update({
+            where: { id: s.id },
+            data: {
+                transactionCount: t?._count._all || 0,
+                settlementDate: t?._max.transactionDate || undefined,
+                grossAmount,
+                fees,
+                feeVat,
+                netAmount: round(grossAmount - fees - feeVat)
+            }
+        });
+    }));
+}
+
+// --- Parser registry ---
+
+registerParser({
+    type: 'BOOKING',
+    label: 'Booking.com',
+    detect: header => header.some(h => h.toLowerCase().includes('booking.com')) ? 1 : signatureScore(header, [
+        ['Referenznummer', 'Reference number'],
+        ['Auszahlungsnummer', 'Payout ID', 'Datum der Auszahlung', 'Payout date'],
+        ['Check-in', 'Anreise'],
+        ['Buchungsstatus', 'Reservation status', 'Name des Gastes', 'Guest name']
+    ]),
+    parse: parseBooking
+});
+
+registerParser({
+    type: 'IBELSA',
+    label: 'Ibelsa',
+    detect: header => header.some(h => h.toLowerCase().includes('ibelsa')) ? 1 : signatureScore(header, [
+        ['Rechnungsdatum', 'Invoice date'],
+        ['Rechnungsnummer', 'Invoice number'],
+        ['Zahlungsart', 'Payment type'],
+        ['Rechnungsempfänger', 'Recipient'],
+        ['Gesamt', 'Total']
+    ]),
+    parse: parseIbelsa
+});
+
+registerParser({
+    type: 'BANK',
+    label: 'Bank account',
+    detect: header => signatureScore(header, [
+        ['Buchungstag', 'Buchungsdatum', 'Booking date'],
+        ['Valutadatum', 'Value date'],
+        ['Verwendungszweck', 'Purpose'],
+        ['Name Zahlungsbeteiligter', 'Zahlungsempfänger', 'Auftraggeber', 'Counterparty'],
+        ['IBAN Zahlungsbeteiligter', 'IBAN'],
+        ['Betrag', 'Amount']
+    ]),
+    parse: parseBank
+});
+
+registerParser({
+    type: 'NEXI',
+    label: 'Nexi',
+    detect: header => signatureScore(header, [
+        ['Kartenart', 'Card type'],
+        ['Transaktionsdatum', 'Belegdatum', 'Transaction date'],
+        ['Umsatz Brutto', 'Bruttoumsatz', 'Zahlbetrag'],
+        ['Terminal ID'],
+        ['Zahlungsnummer']
+    ]),
+    parse: parseNexi
+});
+
+registerParser({
+    type: 'AIRBNB',
+    label: 'Airbnb',
+    detect: header => header.some(h => h.toLowerCase().includes('airbnb')) ? 1 : signatureScore(header, [
+        ['Bestätigungscode', 'Confirmation code'],
+        ['Bruttoeinnahmen', 'Gross earnings'],
+        ['Nächte', 'Nights'],
+        ['Inserat', 'Listing'],
+        ['Ausgezahlt', 'Paid out'],
+        ['Servicegebühr', 'Service fee']
+    ]),
+    parse: (records, options) => parseOtaPayments('AIRBNB', records, options)
+});
+
+registerParser({
+    type: 'EXPEDIA',
+    label: 'Expedia',
+    detect: header => header.some(h => h.toLowerCase().includes('expedia')) ? 1 : signatureScore(header, [
+        ['Reservierungs-ID', 'Reservation ID', 'Reiseplannummer', 'Itinerary number'],
+        ['Anreisedatum', 'Check-in date'],
+        ['Abreisedatum', 'Check-out date'],
+        ['Kompensation', 'Compensation', 'Provision', 'Commission'],
+        ['Zahlungsdatum', 'Payment date'],
+        ['Buchungsbetrag', 'Reservierungsbetrag', 'Booking amount', 'Reservation amount']
+    ]),
+    parse: (records, options) => parseOtaPayments('EXPEDIA', records, options)
+});
+
+registerParser({
+    type: 'PAYPAL',
+    label: 'PayPal',
+    detect: header => signatureScore(header, [
+        ['Transaktionscode', 'Transaction ID'],
+        ['Brutto', 'Gross'],
+        ['Entgelt', 'Gebühr', 'Fee'],
+        ['Netto', 'Net'],
+        ['Absender E-Mail-Adresse', 'From Email Address'],
+        ['Auswirkung auf Guthaben', 'Balance Impact']
+    ]),
+    parse: (records, options) => parseProviderPayments('PAYPAL', records, options)
+});
+
+registerParser({
+    type: 'STRIPE',
+    label: 'Stripe',
+    detect: header => signatureScore(header, [
+        ['Created date (UTC)', 'Created (UTC)', 'created_utc'],
+        ['Amount Refunded', 'reporting_category'],
+        ['Customer Email', 'customer_email', 'Customer ID', 'customer_id'],
+        ['Fee'],
+        ['automatic_payout_id', 'Transfer', 'Payout ID'],
+        ['Captured', 'Card ID', 'payment_intent_id', 'PaymentIntent ID']
+    ]),
+    parse: (records, options) => parseProviderPayments('STRIPE', records, options)
+});
+
+registerParser({
+    type: 'SUMUP',
+    label: 'SumUp',
+    detect: header => header.some(h => h.toLowerCase().includes('sumup')) ? 1 : signatureScore(header, [
+        ['Transaktions-ID', 'Transaction ID'],
+        ['Zahlungsart', 'Payment type', 'Transaktionsart', 'Transaction type'],
+        ['Kartennummer', 'Card number', 'Kartentyp', 'Card type'],
+        ['Gebühr', 'Fee'],
+        ['Auszahlungs-ID', 'Auszahlungsreferenz', 'Payout ID', 'Payout reference'],
+        ['Auszahlungsdatum', 'Payout date']
+    ]),
+    parse: (records, options) => parseProviderPayments('SUMUP', records, options)
+});
@@ -0,0 +1,83 @@
+import { PrismaClient } from '@prisma/client';
+import { RULE_SOURCES, ReconciliationRules, loadRules, routeSource } from './rules';
+
+const prisma = new PrismaClient();
+
+// Where the money of an invoice arrives, per Ibelsa payment type. The payment sources of rules.ts
+// are reconciled against their payments; cash and vouchers need no payment and are settled directly;
+// NONE is never reconciled automatically (e.g. complimentary or internal invoices).
+export const SETTLEMENT_CHANNELS = [...RULE_SOURCES, 'CASH', 'VOUCHER', 'NONE'] as const;
+export type SettlementChannel = typeof SETTLEMENT_CHANNELS[number];
+
+// Payment type -> channel, null while a type is unmapped
+export type ChannelMap = Map<string, SettlementChannel | null>;
+
+export function isSettledWithoutPayment(channel: SettlementChannel | null | undefined): boolean {
+    return channel === 'CASH' || channel === 'VOUCHER';
+}
+
+// Channel proposed for a type seen for the first time: the rule keywords, "Bar" is cash
+export function suggestChannel(paymentType: string, rules: ReconciliationRules): SettlementChannel | null {
+    const type = paymentType.trim().toLowerCase();
+    if (type === 'bar' || type === 'barzahlung') return 'CASH';
+    if (type.includes('gutschein') || type.includes('voucher')) return 'VOUCHER';
+    return routeSource(paymentType, rules);
+}
+
+export async function loadChannels(): Promise<ChannelMap> {
+    const rows = await prisma.paymentTypeMapping.findMany();
+    return new Map(rows.map(r => [r.paymentType, r.channel as SettlementChannel | null]));
+}
+
+export function channelOf(channels: ChannelMap, paymentType: string): SettlementChannel | null {
+    return channels.get(paymentType.trim()) ?? null;
+}
+
+type NewPaymentType = { paymentType: string; channel: SettlementChannel | null };
+
+// Payment types without a mapping yet, with the suggested channel (or none)
+export async function findNewPaymentTypes(paymentTypes: string[]): Promise<NewPaymentType[]> {
+    const known = await loadChannels();
+    const types = [...new Set(paymentTypes.map(t => t.trim()))].filter(t => t && !known.has(t)).sort();
+    if (types.length === 0) return [];
+
+    const rules = await loadRules();
+    return types.map(paymentType => ({ paymentType, channel: suggestChannel(paymentType, rules) }));
+}
+
+// Store the mappings of types seen for the first time. Returns them so the import can report them.
+export async function addPaymentTypes(paymentTypes: string[]): Promise<NewPaymentType[]> {
+    const added = await findNewPaymentTypes(paymentTypes);
+    if (added.length > 0) {
+        await prisma.paymentTypeMapping.createMany({ data: added, skipDuplicates: true });
+    }
+    return added;
+}
+
+// Summary for the import log: "Girocard -> CARD, Rechnung (unmapped)"
+export function describeNewPaymentTypes(added: NewPaymentType[]): string {
+    return `New payment types: ${added.map(a => a.channel ? `${a.paymentType} -> ${a.channel}` : `${a.paymentType} (unmapped)`).join(', ')}`;
+}
+
+export function isSettlementChannel(value: unknown): value is SettlementChannel {
+    return SETTLEMENT_CHANNELS.includes(value as SettlementChannel);
+}
+
+// All payment types with their channel and how many (open) invoices use them; unmapped types first
+export async function paymentTypeReport() {
+    const [mappings, counts] = await Promise.all([
+        prisma.paymentTypeMapping.findMany({ orderBy: { paymentType: 'asc' } }),
+        prisma.invoice.groupBy({ by: ['paymentType', 'isReconciled'], _count: { _all: true } })
+    ]);
+    const invoices = new Map<string, { total: number; open: number }>();
+    for (const c of counts) {
+        const type = c.paymentType.trim();
+        const entry = invoices.get(type) || { total: 0, open: 0 };
+        entry.total += c._count._all;
+        if (!c.isReconciled) entry.open += c._count._all;
+        invoices.set(type, entry);
+    }
+    return mappings
+        .map(m => ({ ...m, invoiceCount: invoices.get(m.paymentType)?.total || 0, openCount: invoices.get(m.paymentType)?.open || 0 }))
+        .sort((a, b) => Number(a.channel !== null) - Number(b.channel !== null));
+}
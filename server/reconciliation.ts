@@ -1,209 +1,529 @@
-import { PrismaClient, Invoice, BankTransaction, BookingPayment, CardPayment } from '@prisma/client';
+import { PrismaClient } from '@prisma/client';
+import { Candidate, PaymentKey, SUGGESTIONS_PER_INVOICE, optimalAssignment } from './matchScoring';
+import { loadRules } from './rules';
+import { PayoutLink, RunChanges, revertPlan } from './reconciliationRuns';
+import { addPaymentTypes, channelOf, isSettledWithoutPayment, loadChannels } from './paymentTypes';
+import {
+    AMOUNT_TOLERANCE, BankWithMatches, bankCandidates, bookingCandidates, differenceInDays, isOpenBankTransaction, isOpenPayment, matchBulkInMemory,
+    matchPartialInMemory, matchSplitInMemory, netCreditNotes, nexiCandidates, otaCandidates, providerCandidates, rankCandidates
+} from './matching';
 
 const prisma = new PrismaClient();
 
-const DATE_TOLERANCE_DAYS = 5; // Standard tolerance (Nexi, etc.)
-const BANK_DATE_TOLERANCE_DAYS = 60; // Bank transfer tolerance (2 months)
-const AMOUNT_TOLERANCE = 0.01;
+// Tolerances and lookback for invoice matching are configurable, see rules.ts; which payments an
+// invoice is matched against depends on the channel its payment type is mapped to (paymentTypes.ts).
+// The matching itself works on the loaded data only (matching.ts); this module loads and stores.
 
-type BookingWithMatches = BookingPayment & { matches: { id: number }[] };
-type CardWithMatches = CardPayment & { matches: { id: number }[] };
-type BankWithMatches = BankTransaction & { matches: { id: number }[] };
+// What started a run: the dashboard button, the schedule or an inbox import (reconciliationSchedule.ts)
+export type RunTrigger = 'MANUAL' | 'SCHEDULED' | 'IMPORT';
 
-export async function runReconciliation() {
-    console.log("Starting reconciliation...");
+// Runs must not overlap, both would take the same payments
+let running = false;
 
-    // 1. Load ALL data in a single batch (instead of per-invoice queries)
-    // Only load payments from last 9 months to keep memory usage low
-    const nineMonthsAgo = new Date();
-    nineMonthsAgo.setMonth(nineMonthsAgo.getMonth() - 9);
+export function isReconciliationRunning(): boolean {
+    return running;
+}
+
+export async function runReconciliation(trigger: RunTrigger = 'MANUAL') {
+    if (running) throw new Error('A reconciliation run is already in progress');
+    running = true;
+    try {
+        return await reconcile(trigger);
+    } finally {
+        running = false;
+    }
+}
+
+async function reconcile(trigger: RunTrigger) {
+    console.log(`Starting reconciliation (${trigger})...`);
 
-    const [invoices, bookingPayments, cardPayments, bankTransactions] = await Promise.all([
-        prisma.invoice.findMany({ where: { isReconciled: false } }),
+    // The rules in effect and every match created are recorded with the run
+    const rules = await loadRules();
+    const run = await prisma.reconciliationRun.create({ data: { trigger, rules: JSON.stringify(rules) } });
+
+    // 1. Load ALL data in a single batch (instead of per-invoice queries)
+    // Only load payments within the lookback period to keep memory usage low
+    const lookbackStart = new Date();
+    lookbackStart.setMonth(lookbackStart.getMonth() - rules.lookbackMonths);
+
+    const [invoices, bookingPayments, cardPayments, otaPayments, providerPayments, bankTransactions] = await Promise.all([
+        prisma.invoice.findMany({
+            where: { isReconciled: false },
+            orderBy: [{ invoiceDate: 'asc' }, { id: 'asc' }],
+            include: {
+                creditNotes: { select: { id: true, amount: true, isReconciled: true } },
+                matches: { select: { amount: true } } // Partial payments from earlier runs
+            }
+        }),
         prisma.bookingPayment.findMany({
-            where: { checkInDate: { gte: nineMonthsAgo } },
-            include: { matches: { select: { id: true } } }
+            where: { checkInDate: { gte: lookbackStart } },
+            include: { matches: { select: { id: true } }, flag: { select: { id: true } } },
+            orderBy: { id: 'asc' }
         }),
         prisma.cardPayment.findMany({
-            where: { transactionDate: { gte: nineMonthsAgo } },
-            include: { matches: { select: { id: true } } }
+            where: { transactionDate: { gte: lookbackStart } },
+            include: { matches: { select: { id: true } }, flag: { select: { id: true } } },
+            orderBy: { id: 'asc' }
+        }),
+        prisma.otaPayment.findMany({
+            where: { payoutDate: { gte: lookbackStart } },
+            include: { matches: { select: { id: true } } },
+            orderBy: { id: 'asc' }
+        }),
+        prisma.providerPayment.findMany({
+            where: { transactionDate: { gte: lookbackStart } },
+            include: { matches: { select: { id: true } } },
+            orderBy: { id: 'asc' }
         }),
         prisma.bankTransaction.findMany({
-            where: { bookingDate: { gte: nineMonthsAgo } },
-            include: { matches: { select: { id: true } } }
+            where: { bookingDate: { gte: lookbackStart } },
+            include: {
+                matches: { select: { id: true } }, bookingPayouts: { select: { id: true } }, nexiSettlements: { select: { id: true } }, providerPayouts: { select: { id: true } },
+                flag: { select: { id: true } }
+            },
+            orderBy: { id: 'asc' }
         })
     ]);
 
-    console.log(`Loaded: ${invoices.length} unreconciled invoices, ${bookingPayments.length} booking payments, ${cardPayments.length} card payments, ${bankTransactions.length} bank transactions`);
+    // Invoices imported before payment types were mapped bring their types along
+    await addPaymentTypes(invoices.map(i => i.paymentType));
+    const channels = await loadChannels();
+
+    console.log(`Loaded: ${invoices.length} unreconciled invoices, ${bookingPayments.length} booking payments, ${cardPayments.length} card payments, ${otaPayments.length} Airbnb/Expedia payments, ${providerPayments.length} PayPal/Stripe/SumUp payments, ${bankTransactions.length} bank transactions`);
 
     // 2. Index payments by amount range for fast lookup
-    const availableBookings = bookingPayments.filter(p => p.matches.length === 0);
-    const availableCards = cardPayments.filter(p => p.matches.length === 0);
-    const availableBanks = bankTransactions.filter(p => p.matches.length === 0);
+    // Payments flagged as needing no invoice are left out
+    const availableBookings = bookingPayments.filter(isOpenPayment);
+    const availableCards = cardPayments.filter(isOpenPayment);
+    const availableOta = otaPayments.filter(isOpenPayment);
+    const availableProvider = providerPayments.filter(isOpenPayment);
+    // Bank transfers already assigned to a payout or settlement are not invoice payments. A flagged transfer
+    // may still be one, so only invoice matching leaves it out.
+    const availableBanks = bankTransactions.filter(t => isOpenBankTransaction(t) && isOpenPayment(t));
 
     // Track which payments we've already matched in this run (to avoid double-matching)
     const matchedBookingIds = new Set<number>();
     const matchedCardIds = new Set<number>();
+    const matchedOtaIds = new Set<number>();
+    const matchedProviderIds = new Set<number>();
     const matchedBankIds = new Set<number>();
+    const matchedIds: Record<PaymentKey, Set<number>> = {
+        bookingPaymentId: matchedBookingIds,
+        otaPaymentId: matchedOtaIds,
+        providerPaymentId: matchedProviderIds,
+        cardPaymentId: matchedCardIds,
+        bankTransactionId: matchedBankIds
+    };
 
     // 3. Match in memory — collect all results
     const matchesToCreate: any[] = [];
     const invoiceIdsToReconcile: number[] = [];
-
-    for (const invoice of invoices) {
-        let matchFound = false;
+    const settledWithoutPayment: number[] = []; // Cash and vouchers
+    const candidatesByInvoice = new Map<number, Candidate[]>();
+    let partiallyPaid = 0;
+
+    // Credit notes themselves are settled together with the invoice they correct
+    const openInvoices = invoices.filter(i => i.originalInvoiceId === null).map(i => netCreditNotes(i));
+
+    // Bulk transfers first: single-invoice matching would otherwise take the invoices of a collective payment.
+    // Only bank transfer invoices: card, Booking.com or OTA invoices named in a purpose are paid through their own channel.
+    const bankInvoices = openInvoices.map(o => o.invoice).filter(i => channelOf(channels, i.paymentType) === 'BANK');
+    const bulkInvoiceIds = matchBulkInMemory(bankInvoices, availableBanks, matchedBankIds, matchesToCreate, rules.sources.BANK);
+    const bulkTransfers = new Set(matchesToCreate.map(m => m.bankTransactionId)).size;
+
+    // Score all candidate payments of every invoice first; which invoice gets which payment is
+    // decided for all of them together below, so one invoice cannot take another's payment
+    for (const { invoice, cancelled } of openInvoices) {
+        if (cancelled || bulkInvoiceIds.has(invoice.id)) continue;
+        const source = channelOf(channels, invoice.paymentType);
+        let candidates: Candidate[] = [];
 
         // A. Booking.com
-        if (invoice.paymentType.toLowerCase().includes('booking.com')) {
-            matchFound = matchBookingInMemory(invoice, availableBookings, matchedBookingIds, matchesToCreate);
+        if (source === 'BOOKING') {
+            candidates = bookingCandidates(invoice, availableBookings, matchedBookingIds, rules.sources.BOOKING);
+        }
+        // A2. Airbnb / Expedia
+        else if (source === 'AIRBNB' || source === 'EXPEDIA') {
+            candidates = otaCandidates(invoice, source, availableOta, matchedOtaIds, rules.sources[source]);
+        }
+        // A3. PayPal / Stripe / SumUp
+        else if (source === 'PAYPAL' || source === 'STRIPE' || source === 'SUMUP') {
+            candidates = providerCandidates(invoice, source, availableProvider, matchedProviderIds, rules.sources[source]);
         }
         // B. Nexi (Card)
-        else if (isCardPayment(invoice.paymentType)) {
-            matchFound = matchNexiInMemory(invoice, availableCards, matchedCardIds, matchesToCreate);
+        else if (source === 'CARD') {
+            candidates = nexiCandidates(invoice, availableCards, matchedCardIds, rules.sources.CARD);
         }
         // C. Bank Transfer
-        else if (invoice.paymentType.toLowerCase().includes('bank')) {
-            matchFound = matchBankInMemory(invoice, availableBanks, matchedBankIds, matchesToCreate);
+        else if (source === 'BANK') {
+            candidates = bankCandidates(invoice, availableBanks, matchedBankIds, rules.sources.BANK);
+        }
+        candidatesByInvoice.set(invoice.id, rankCandidates(candidates));
+    }
+
+    // Only exact amounts above the threshold are taken automatically
+    const assignment = optimalAssignment([...candidatesByInvoice].flatMap(([invoiceId, candidates]) => candidates
+        .filter(c => c.exactAmount && c.score >= rules.autoAcceptThreshold)
+        .map(candidate => ({ invoiceId, candidate }))));
+    const assignedByInvoice = new Map(assignment.map(a => [a.invoiceId, a.candidate]));
+    for (const { candidate } of assignment) {
+        matchedIds[candidate.paymentKey].add(candidate.paymentId);
+    }
+
+    for (const { invoice, credits, cancelled } of openInvoices) {
+        const creditMatches = credits.map(c => ({ invoiceId: invoice.id, creditNoteId: c.id, matchType: 'CREDIT_NOTE', confidence: 1.0, amount: c.amount }));
+        if (cancelled) {
+            matchesToCreate.push(...creditMatches);
+            invoiceIdsToReconcile.push(invoice.id, ...credits.map(c => c.id));
+            continue;
+        }
+        // Mapped to cash or voucher after the import (see parseIbelsa)
+        const source = channelOf(channels, invoice.paymentType);
+        if (isSettledWithoutPayment(source)) {
+            matchesToCreate.push(...creditMatches);
+            settledWithoutPayment.push(invoice.id, ...credits.map(c => c.id));
+            continue;
+        }
+
+        // Paid by a bulk transfer or assigned above
+        let matchFound = bulkInvoiceIds.has(invoice.id);
+        const assigned = assignedByInvoice.get(invoice.id);
+        if (assigned) {
+            matchesToCreate.push({
+                invoiceId: invoice.id,
+                [assigned.paymentKey]: assigned.paymentId,
+                matchType: assigned.referenceHit ? 'MANUAL_REF' : 'AUTOMATIC',
+                confidence: assigned.score,
+                amount: invoice.amount,
+                factors: JSON.stringify(assigned.factors)
+            });
+            matchFound = true;
+        }
+
+        // D. Split payments: card and bank payments that only add up to the invoice together.
+        // Without a complete set, transfers that clearly belong to the invoice are kept as partial payments.
+        if (!matchFound && (source === 'CARD' || source === 'BANK')) {
+            matchFound = matchSplitInMemory(invoice, availableCards, availableBanks, matchedCardIds, matchedBankIds, matchesToCreate, rules.sources[source]);
+            if (!matchFound && matchPartialInMemory(invoice, availableBanks, matchedBankIds, matchesToCreate, rules.sources.BANK) > 0) {
+                partiallyPaid++;
+            }
         }
 
         if (matchFound) {
-            invoiceIdsToReconcile.push(invoice.id);
+            matchesToCreate.push(...creditMatches);
+            invoiceIdsToReconcile.push(invoice.id, ...credits.map(c => c.id));
         }
     }
 
-    // 4. Write all results in a single transaction
-    if (matchesToCreate.length > 0) {
-        await prisma.$transaction([
-            prisma.reconciliationMatch.createMany({ data: matchesToCreate }),
-            ...invoiceIdsToReconcile.map(id =>
-                prisma.invoice.update({
-                    where: { id },
-                    data: { isReconciled: true, reconciledDate: new Date() }
-                })
-            )
-        ]);
-    }
+    // Candidates not taken by this run stay as suggestions for the dashboard
+    const reconciled = new Set(invoiceIdsToReconcile);
+    const suggestions = [...candidatesByInvoice].filter(([invoiceId]) => !reconciled.has(invoiceId)).flatMap(([invoiceId, candidates]) => candidates
+        .filter(c => !matchedIds[c.paymentKey].has(c.paymentId))
+        .slice(0, SUGGESTIONS_PER_INVOICE)
+        .map((c, i) => ({ invoiceId, [c.paymentKey]: c.paymentId, rank: i + 1, score: c.score, factors: JSON.stringify(c.factors) })));
+
+    const suggested = new Set(suggestions.map(s => s.invoiceId)).size;
+
+    // 4. Write all results in a single transaction; suggestions of earlier runs are replaced
+    await prisma.$transaction([
+        prisma.matchSuggestion.deleteMany({}),
+        prisma.matchSuggestion.createMany({ data: suggestions }),
+        prisma.reconciliationMatch.createMany({ data: matchesToCreate.map(m => ({ ...m, runId: run.id })) }),
+        ...invoiceIdsToReconcile.map(id =>
+            prisma.invoice.update({
+                where: { id },
+                data: { isReconciled: true, reconciledDate: new Date() }
+            })
+        ),
+        prisma.invoice.updateMany({
+            where: { id: { in: settledWithoutPayment } },
+            data: { isReconciled: true, manualStatus: true, reconciledDate: new Date() }
+        })
+    ]);
 
-    console.log(`Reconciliation complete. Matched ${invoiceIdsToReconcile.length} invoices.`);
-    return { matches: invoiceIdsToReconcile.length };
+    // The bank transactions were loaded before this run's matches were written: the transfers matched
+    // to invoices above are passed along so a payout cannot take them as well
+    const changes: RunChanges = {
+        settledInvoiceIds: settledWithoutPayment,
+        bookingPayouts: await reconcileBookingPayouts(bankTransactions, matchedBankIds),
+        nexiSettlements: await reconcileNexiSettlements(bankTransactions, matchedBankIds),
+        providerPayouts: await reconcileProviderPayouts(bankTransactions, matchedBankIds)
+    };
+    const payouts = changes.bookingPayouts.length;
+    const settlements = changes.nexiSettlements.length;
+    const providerPayouts = changes.providerPayouts.length;
+
+    const result = {
+        matches: invoiceIdsToReconcile.length,
+        settledWithoutPayment: settledWithoutPayment.length,
+        bulkTransfers,
+        partiallyPaid,
+        suggested,
+        bySource: countBySource(matchesToCreate),
+        payouts,
+        settlements,
+        providerPayouts
+    };
+    await prisma.reconciliationRun.update({
+        where: { id: run.id },
+        data: { finishedAt: new Date(), result: JSON.stringify(result), changes: JSON.stringify(changes) }
+    });
+
+    console.log(`Reconciliation run ${run.id} complete. Matched ${invoiceIdsToReconcile.length} invoices (${bulkTransfers} bulk transfers, ${partiallyPaid} more partially paid, ${suggested} with suggestions), ${payouts} Booking.com payouts, ${settlements} Nexi settlements, ${providerPayouts} PayPal/Stripe/SumUp payouts.`);
+    return { runId: run.id, ...result };
 }
 
-// --- In-Memory Matchers ---
-
-function matchBookingInMemory(
-    invoice: Invoice,
-    payments: BookingWithMatches[],
-    matchedIds: Set<number>,
-    results: any[]
-): boolean {
-    const BOOKING_DATE_TOLERANCE = 5;
-
-    for (const payment of payments) {
-        if (matchedIds.has(payment.id)) continue;
+// Accept a stored suggestion from the dashboard: the invoice is matched with the suggested payment
+// (and its open credit notes), like an automatic match but with matchType "MANUAL" and the user who accepted it.
+// Returns null if the suggestion no longer exists, an error if the payment was matched meanwhile.
+export async function acceptSuggestion(id: number, user?: string): Promise<{ invoiceId: number } | { error: string } | null> {
+    const suggestion = await prisma.matchSuggestion.findUnique({
+        where: { id },
+        include: {
+            invoice: {
+                include: {
+                    creditNotes: { select: { id: true, amount: true, isReconciled: true } },
+                    matches: { select: { amount: true } }
+                }
+            }
+        }
+    });
+    if (!suggestion) return null;
+
+    const key = (['bookingPaymentId', 'otaPaymentId', 'providerPaymentId', 'cardPaymentId', 'bankTransactionId'] as PaymentKey[])
+        .find(k => suggestion[k] !== null)!;
+    const paymentId = suggestion[key]!;
+    if (await prisma.reconciliationMatch.count({ where: { [key]: paymentId } }) > 0) {
+        return { error: 'Payment is already matched to another invoice' };
+    }
 
-        // Amount check
-        if (Math.abs(payment.amount - invoice.amount) > AMOUNT_TOLERANCE) continue;
+    const { invoice } = suggestion;
+    const credits = invoice.creditNotes.filter(c => !c.isReconciled);
+    const paid = invoice.matches.reduce((sum, m) => sum + (m.amount || 0), 0);
+    const openAmount = Math.round((invoice.amount + credits.reduce((sum, c) => sum + c.amount, 0) - paid) * 100) / 100;
+
+    await prisma.$transaction([
+        prisma.reconciliationMatch.createMany({
+            data: [
+                { invoiceId: invoice.id, [key]: paymentId, matchType: 'MANUAL', confidence: suggestion.score, amount: openAmount, factors: suggestion.factors, createdBy: user },
+                ...credits.map(c => ({ invoiceId: invoice.id, creditNoteId: c.id, matchType: 'CREDIT_NOTE', confidence: 1.0, amount: c.amount, createdBy: user }))
+            ]
+        }),
+        prisma.invoice.updateMany({
+            where: { id: { in: [invoice.id, ...credits.map(c => c.id)] } },
+            data: { isReconciled: true, reconciledDate: new Date() }
+        }),
+        // Other suggestions for this invoice or this payment are obsolete
+        prisma.matchSuggestion.deleteMany({ where: { OR: [{ invoiceId: invoice.id }, { [key]: paymentId }] } })
+    ]);
+    return { invoiceId: invoice.id };
+}
 
-        // Date check: invoice date within check-in to payout window ± tolerance
-        const invoiceTime = invoice.invoiceDate.getTime();
-        const checkInTime = payment.checkInDate.getTime() - (BOOKING_DATE_TOLERANCE * 24 * 60 * 60 * 1000);
-        const payoutTime = payment.payoutDate.getTime() + (BOOKING_DATE_TOLERANCE * 24 * 60 * 60 * 1000);
+// Remove every match a run created and reopen the invoices (and credit notes) reconciled through them,
+// the cash and voucher invoices it settled and the payouts and settlements it linked to a bank transfer.
+// Invoices checked off by hand since stay reconciled. Returns null if the run does not exist, an error if it cannot be reverted.
+export async function revertRun(id: number): Promise<{ removedMatches: number; reopenedInvoices: number; reopenedPayouts: number } | { error: string } | null> {
+    const run = await prisma.reconciliationRun.findUnique({
+        where: { id },
+        include: { matches: { select: { id: true, invoiceId: true, creditNoteId: true } } }
+    });
+    if (!run) return null;
+    if (run.revertedAt) return { error: 'Run was already reverted' };
+    if (!run.finishedAt) return { error: 'Run did not finish' };
+
+    const plan = revertPlan(run.matches, run.changes);
+    // A link made by a later run (after the transfer was removed and imported again) stays
+    const unlink = { bankTransactionId: null, matchConfidence: null, reconciledDate: null };
+    const [, removed, reopened, settled, ...unlinked] = await prisma.$transaction([
+        prisma.reconciliationRun.updateMany({ where: { id }, data: { revertedAt: new Date() } }),
+        prisma.reconciliationMatch.deleteMany({ where: { runId: id } }),
+        prisma.invoice.updateMany({
+            where: { id: { in: plan.matchedInvoiceIds }, isReconciled: true, manualStatus: false },
+            data: { isReconciled: false, reconciledDate: null }
+        }),
+        prisma.invoice.updateMany({
+            where: { id: { in: plan.settledInvoiceIds }, isReconciled: true },
+            data: { isReconciled: false, manualStatus: false, reconciledDate: null }
+        }),
+        ...plan.bookingPayouts.map(l => prisma.bookingPayout.updateMany({ where: l, data: unlink })),
+        ...plan.nexiSettlements.map(l => prisma.nexiSettlement.updateMany({ where: l, data: { ...unlink, payoutDate: null } })),
+        ...plan.providerPayouts.map(l => prisma.providerPayout.updateMany({ where: l, data: unlink }))
+    ]);
+    const reopenedPayouts = unlinked.reduce((sum, u) => sum + u.count, 0);
+    console.log(`Reverted reconciliation run ${id}: ${removed.count} matches removed, ${reopened.count + settled.count} invoices and ${reopenedPayouts} payouts reopened`);
+    return { removedMatches: removed.count, reopenedInvoices: reopened.count + settled.count, reopenedPayouts };
+}
 
-        const refMatch = invoice.recipient.includes(payment.referenceNumber) ||
-            (invoice.comment && invoice.comment.includes(payment.referenceNumber));
+// Matches of a run per payment source, for the run history
+function countBySource(matches: any[]): Record<string, number> {
+    const sources: [string, string][] = [
+        ['bookingPaymentId', 'BOOKING'], ['otaPaymentId', 'OTA'], ['providerPaymentId', 'PROVIDER'],
+        ['cardPaymentId', 'CARD'], ['bankTransactionId', 'BANK'], ['creditNoteId', 'CREDIT_NOTE']
+    ];
+    const counts: Record<string, number> = {};
+    for (const match of matches) {
+        const source = sources.find(([key]) => match[key] != null)?.[1];
+        if (source) counts[source] = (counts[source] || 0) + 1;
+    }
+    return counts;
+}
 
-        const dateMatch = invoiceTime >= checkInTime && invoiceTime <= payoutTime;
+// --- Payout-level reconciliation ---
+
+const PAYOUT_DATE_TOLERANCE_DAYS = 7;
+
+// Match each open Booking.com payout against the single incoming transfer from Booking.com.
+// The bank purpose carries the payout ID ("NO.<payoutId>/ID.<hotelId>"); without it the
+// payout total and a transfer date shortly after the payout date have to agree.
+// Transfers in usedBankIds are taken already; the ones linked to a payout are added. Returns the links made.
+async function reconcileBookingPayouts(bankTransactions: BankWithMatches[], usedBankIds: Set<number>): Promise<PayoutLink[]> {
+    const payouts = await prisma.bookingPayout.findMany({ where: { bankTransactionId: null } });
+    if (payouts.length === 0) return [];
+
+    const candidates = bankTransactions.filter(t =>
+        t.amount > 0 &&
+        isOpenBankTransaction(t) &&
+        (t.senderReceiver || '').toLowerCase().includes('booking.com')
+    );
+    const updates: { id: number; bankTransactionId: number; matchConfidence: number }[] = [];
+
+    // Pass 1: payout ID in the purpose
+    for (const payout of payouts) {
+        const bank = candidates.find(t => !usedBankIds.has(t.id) && (t.description || '').includes(payout.payoutId));
+        if (bank) {
+            usedBankIds.add(bank.id);
+            updates.push({ id: payout.id, bankTransactionId: bank.id, matchConfidence: 1.0 });
+        }
+    }
 
-        if (dateMatch || refMatch) {
-            matchedIds.add(payment.id);
-            results.push({
-                invoiceId: invoice.id,
-                bookingPaymentId: payment.id,
-                matchType: refMatch ? 'MANUAL_REF' : 'AUTOMATIC',
-                confidence: refMatch ? 1.0 : 0.85
-            });
-            return true;
+    // Pass 2: amount + date, closest transfer wins
+    for (const payout of payouts) {
+        if (updates.some(u => u.id === payout.id)) continue;
+        const bank = candidates
+            .filter(t => !usedBankIds.has(t.id) && Math.abs(t.amount - payout.netAmount) <= AMOUNT_TOLERANCE)
+            .map(t => ({ t, diff: differenceInDays(t.bookingDate, payout.payoutDate) }))
+            .filter(({ diff }) => diff >= -1 && diff <= PAYOUT_DATE_TOLERANCE_DAYS)
+            .sort((a, b) => a.diff - b.diff)[0]?.t;
+        if (bank) {
+            usedBankIds.add(bank.id);
+            updates.push({ id: payout.id, bankTransactionId: bank.id, matchConfidence: 0.8 });
         }
     }
-    return false;
+
+    if (updates.length > 0) {
+        await prisma.$transaction(updates.map(u =>
+            prisma.bookingPayout.update({
+                where: { id: u.id },
+                data: { bankTransactionId: u.bankTransactionId, matchConfidence: u.matchConfidence, reconciledDate: new Date() }
+            })
+        ));
+    }
+    return updates.map(u => ({ id: u.id, bankTransactionId: u.bankTransactionId }));
 }
 
-function matchNexiInMemory(
-    invoice: Invoice,
-    payments: CardWithMatches[],
-    matchedIds: Set<number>,
-    results: any[]
-): boolean {
-    for (const payment of payments) {
-        if (matchedIds.has(payment.id)) continue;
-
-        if (Math.abs(payment.amount - invoice.amount) > AMOUNT_TOLERANCE) continue;
-
-        const diffDays = Math.abs(differenceInDays(invoice.invoiceDate, payment.transactionDate));
-        if (diffDays <= DATE_TOLERANCE_DAYS) {
-            matchedIds.add(payment.id);
-            results.push({
-                invoiceId: invoice.id,
-                cardPaymentId: payment.id,
-                matchType: 'AUTOMATIC',
-                confidence: 0.9
+// Match each open Nexi settlement against its bank credit. Girocard batches are collected as
+// "CONCARDIS GIR-<id>" under the hotel's own name, credit card batches come from Nexi with
+// "ZAHL-NR<id>:...:UST<vat>" in the purpose. Without the number, net amount and date have to agree.
+// Transfers in usedBankIds are taken already; the ones linked to a settlement are added. Returns the links made.
+async function reconcileNexiSettlements(bankTransactions: BankWithMatches[], usedBankIds: Set<number>): Promise<PayoutLink[]> {
+    const settlements = await prisma.nexiSettlement.findMany({ where: { bankTransactionId: null } });
+    if (settlements.length === 0) return [];
+
+    const candidates = bankTransactions.filter(t => t.amount > 0 && isOpenBankTransaction(t));
+    const updates: { id: number; bankTransactionId: number; payoutDate: Date; matchConfidence: number; feeVat?: number; netAmount?: number }[] = [];
+
+    // Pass 1: settlement number in the purpose
+    for (const settlement of settlements) {
+        const bank = candidates.find(t => !usedBankIds.has(t.id) && referencesSettlement(t.description || '', settlement.settlementId));
+        if (bank) {
+            usedBankIds.add(bank.id);
+            // The Nexi export leaves the VAT on the service charge empty, the credit advice states it
+            const vat = settlement.feeVat === 0 ? (bank.description || '').match(/UST([\d.]+,\d{2})/) : null;
+            const feeVat = vat ? parseFloat(vat[1].replace(/\./g, '').replace(',', '.')) : undefined;
+            updates.push({
+                id: settlement.id,
+                bankTransactionId: bank.id,
+                payoutDate: bank.bookingDate,
+                matchConfidence: 1.0,
+                feeVat,
+                netAmount: feeVat !== undefined ? Math.round((settlement.netAmount - feeVat) * 100) / 100 : undefined
             });
-            return true;
         }
     }
-    return false;
-}
 
-function matchBankInMemory(
-    invoice: Invoice,
-    payments: BankWithMatches[],
-    matchedIds: Set<number>,
-    results: any[]
-): boolean {
-    for (const payment of payments) {
-        if (matchedIds.has(payment.id)) continue;
-
-        if (Math.abs(payment.amount - invoice.amount) > AMOUNT_TOLERANCE) continue;
-
-        const diffDays = Math.abs(differenceInDays(invoice.invoiceDate, payment.bookingDate));
-
-        if (diffDays <= BANK_DATE_TOLERANCE_DAYS) {
-            const nameMatch = payment.senderReceiver && invoice.recipient &&
-                (payment.senderReceiver.toLowerCase().includes(invoice.recipient.toLowerCase()) ||
-                    invoice.recipient.toLowerCase().includes(payment.senderReceiver.toLowerCase()));
-
-            const invoiceNum = extractInvoiceNumber(invoice.invoiceNumber);
-            const descMatch = invoiceNum && payment.description && payment.description.includes(invoiceNum);
-
-            if (nameMatch || descMatch) {
-                matchedIds.add(payment.id);
-                results.push({
-                    invoiceId: invoice.id,
-                    bankTransactionId: payment.id,
-                    matchType: descMatch ? 'MANUAL_REF' : 'AUTOMATIC',
-                    confidence: descMatch ? 1.0 : 0.8
-                });
-                return true;
-            }
+    // Pass 2: amount + date from Nexi / Concardis, closest credit wins
+    for (const settlement of settlements) {
+        if (updates.some(u => u.id === settlement.id)) continue;
+        const bank = candidates
+            .filter(t => !usedBankIds.has(t.id) && Math.abs(t.amount - settlement.netAmount) <= AMOUNT_TOLERANCE)
+            .filter(t => /nexi|concardis/i.test(`${t.senderReceiver || ''} ${t.description || ''}`))
+            .map(t => ({ t, diff: differenceInDays(t.bookingDate, settlement.settlementDate) }))
+            .filter(({ diff }) => diff >= 0 && diff <= PAYOUT_DATE_TOLERANCE_DAYS)
+            .sort((a, b) => a.diff - b.diff)[0]?.t;
+        if (bank) {
+            usedBankIds.add(bank.id);
+            updates.push({ id: settlement.id, bankTransactionId: bank.id, payoutDate: bank.bookingDate, matchConfidence: 0.8 });
         }
     }
-    return false;
+
+    if (updates.length > 0) {
+        await prisma.$transaction(updates.map(({ id, ...data }) =>
+            prisma.nexiSettlement.update({
+                where: { id },
+                data: { ...data, reconciledDate: new Date() }
+            })
+        ));
+    }
+    return updates.map(u => ({ id: u.id, bankTransactionId: u.bankTransactionId }));
 }
 
-// --- Helpers ---
+// Match each open PayPal / Stripe / SumUp payout against the bank credit from that provider.
+// Stripe and SumUp put the payout ID into the purpose; otherwise amount and date have to agree.
+// Transfers in usedBankIds are taken already; the ones linked to a payout are added. Returns the links made.
+async function reconcileProviderPayouts(bankTransactions: BankWithMatches[], usedBankIds: Set<number>): Promise<PayoutLink[]> {
+    const payouts = await prisma.providerPayout.findMany({ where: { bankTransactionId: null } });
+    if (payouts.length === 0) return [];
+
+    const candidates = bankTransactions.filter(t => t.amount > 0 && isOpenBankTransaction(t));
+    const updates: { id: number; bankTransactionId: number; matchConfidence: number }[] = [];
+
+    // Pass 1: payout ID in the purpose
+    for (const payout of payouts) {
+        const bank = candidates.find(t => !usedBankIds.has(t.id) && (t.description || '').replace(/\s+/g, '').includes(payout.payoutId));
+        if (bank) {
+            usedBankIds.add(bank.id);
+            updates.push({ id: payout.id, bankTransactionId: bank.id, matchConfidence: 1.0 });
+        }
+    }
 
-function differenceInDays(d1: Date, d2: Date): number {
-    const oneDay = 24 * 60 * 60 * 1000;
-    return Math.round((d1.getTime() - d2.getTime()) / oneDay);
-}
+    // Pass 2: amount + date from the provider, closest credit wins
+    for (const payout of payouts) {
+        if (updates.some(u => u.id === payout.id)) continue;
+        const bank = candidates
+            .filter(t => !usedBankIds.has(t.id) && Math.abs(t.amount - payout.amount) <= AMOUNT_TOLERANCE)
+            .filter(t => `${t.senderReceiver || ''} ${t.description || ''}`.toLowerCase().includes(payout.provider.toLowerCase()))
+            .map(t => ({ t, diff: differenceInDays(t.bookingDate, payout.payoutDate) }))
+            .filter(({ diff }) => diff >= 0 && diff <= PAYOUT_DATE_TOLERANCE_DAYS)
+            .sort((a, b) => a.diff - b.diff)[0]?.t;
+        if (bank) {
+            usedBankIds.add(bank.id);
+            updates.push({ id: payout.id, bankTransactionId: bank.id, matchConfidence: 0.8 });
+        }
+    }
 
-function isCardPayment(type: string): boolean {
-    const t = type.toLowerCase();
-    return t.includes('ec-karte') || t.includes('visa') || t.includes('mastercard') || t.includes('maestro') || t.includes('visa electron');
+    if (updates.length > 0) {
+        await prisma.$transaction(updates.map(u =>
+            prisma.providerPayout.update({
+                where: { id: u.id },
+                data: { bankTransactionId: u.bankTransactionId, matchConfidence: u.matchConfidence, reconciledDate: new Date() }
+            })
+        ));
+    }
+    return updates.map(u => ({ id: u.id, bankTransactionId: u.bankTransactionId }));
 }
 
-function extractInvoiceNumber(fullNumber: string): string | null {
-    if (!fullNumber) return null;
-    const match = fullNumber.match(/(\d+)/);
-    return match ? match[0] : null;
+function referencesSettlement(description: string, settlementId: string): boolean {
+    const purpose = description.replace(/\s+/g, '');
+    // Short credit card batch numbers ("000142") only count in their ZAHL-NR field
+    return purpose.includes(`ZAHL-NR${settlementId}`) || (settlementId.length >= 8 && purpose.includes(settlementId));
 }
@@ -0,0 +1,28 @@
+// What a reconciliation run changed besides its matches (reconciliation.ts), stored with the run so
+// revertRun can undo it. Nothing here reads or writes the database.
+
+// Bank transfer a run linked to a Booking.com payout, Nexi settlement or PayPal / Stripe / SumUp payout
+export interface PayoutLink {
+    id: number;
+    bankTransactionId: number;
+}
+
+export interface RunChanges {
+    settledInvoiceIds: number[]; // Cash and voucher invoices and their credit notes, settled without payment
+    bookingPayouts: PayoutLink[];
+    nexiSettlements: PayoutLink[];
+    providerPayouts: PayoutLink[];
+}
+
+// What reverting a run undoes: the invoices and credit notes reconciled through its matches, the invoices
+// it settled without payment and its payout links. Runs recorded before their changes were have only matches.
+export function revertPlan(matches: { invoiceId: number; creditNoteId: number | null }[], changes: string | null): RunChanges & { matchedInvoiceIds: number[] } {
+    const recorded: Partial<RunChanges> = changes ? JSON.parse(changes) : {};
+    return {
+        matchedInvoiceIds: [...new Set(matches.flatMap(m => [m.invoiceId, m.creditNoteId]).filter((i): i is number => i !== null))],
+        settledInvoiceIds: recorded.settledInvoiceIds || [],
+        bookingPayouts: recorded.bookingPayouts || [],
+        nexiSettlements: recorded.nexiSettlements || [],
+        providerPayouts: recorded.providerPayouts || []
+    };
+}
@@ -0,0 +1,41 @@
+import { RunTrigger, isReconciliationRunning, runReconciliation } from './reconciliation';
+
+// Reconciliation runs without pressing the button, both off by default:
+//
+//   RECONCILE_INTERVAL_MINUTES   run every N minutes
+//   RECONCILE_AFTER_IMPORT       "true": run after files were imported (uploads and inbox)
+
+const IMPORT_DELAY_SECONDS = 15; // Files uploaded or dropped together start a single run
+
+let afterImport = false;
+let importTimer: NodeJS.Timeout | null = null;
+
+export function startReconciliationSchedule() {
+    afterImport = process.env.RECONCILE_AFTER_IMPORT === 'true';
+    const intervalMinutes = parseInt(process.env.RECONCILE_INTERVAL_MINUTES || '') || 0;
+    if (intervalMinutes > 0) {
+        setInterval(() => {
+            // A run still going (e.g. started by hand) covers this one
+            if (!isReconciliationRunning()) triggerRun('SCHEDULED');
+        }, intervalMinutes * 60 * 1000);
+    }
+    if (intervalMinutes > 0 || afterImport) {
+        console.log(`Reconciliation ${intervalMinutes > 0 ? `every ${intervalMinutes} min` : 'not scheduled'}${afterImport ? ', after imports' : ''}`);
+    }
+}
+
+// Called for every imported file; the run starts once no further file arrived for a moment
+export function reconcileAfterImport() {
+    if (!afterImport) return;
+    if (importTimer) clearTimeout(importTimer);
+    importTimer = setTimeout(() => {
+        importTimer = null;
+        // Payments imported during a run may not have been loaded by it: try again later
+        if (isReconciliationRunning()) reconcileAfterImport();
+        else triggerRun('IMPORT');
+    }, IMPORT_DELAY_SECONDS * 1000);
+}
+
+function triggerRun(trigger: RunTrigger) {
+    runReconciliation(trigger).catch(err => console.error(`Reconciliation (${trigger}) failed:`, err));
+}
@@ -0,0 +1,221 @@
+import { PrismaClient } from '@prisma/client';
+import { refreshBookingPayoutTotals, refreshNexiSettlementTotals, refreshProviderPayoutTotals } from './parsers';
+
+const prisma = new PrismaClient();
+
+const PREVIEW_SAMPLE_SIZE = 20;
+
+export interface RollbackPreview {
+    file: { id: number; originalName: string; type: string; importDate: Date };
+    invoices: number;
+    bookingPayments: number;
+    cardPayments: number;
+    otaPayments: number;
+    providerPayments: number;
+    bankTransactions: number;
+    bookingPayouts: number; // Payouts left without reservations
+    nexiSettlements: number; // Settlements left without card payments
+    providerPayouts: number; // PayPal / Stripe / SumUp payouts of the file or left without payments
+    invoiceChanges: number; // Changes to invoices of other files that are reverted
+    matches: number;
+    unreconciledInvoices: number; // Invoices of other files that lose their only match
+    samples: {
+        invoices: { id: number; invoiceNumber: string; amount: number }[];
+        bookingPayments: { id: number; referenceNumber: string; amount: number }[];
+        cardPayments: { id: number; transactionDate: Date; cardType: string; amount: number }[];
+        otaPayments: { id: number; channel: string; referenceNumber: string; amount: number }[];
+        providerPayments: { id: number; provider: string; transactionId: string; grossAmount: number }[];
+        bankTransactions: { id: number; bookingDate: Date; senderReceiver: string | null; amount: number }[];
+    };
+}
+
+// Collect everything an imported file introduced, plus the matches that depend on it
+async function collectRollback(fileId: number) {
+    const file = await prisma.importedFile.findUnique({ where: { id: fileId } });
+    if (!file) return null;
+
+    const where = { importedFileId: fileId };
+    const [invoices, bookingPayments, cardPayments, otaPayments, providerPayments, bankTransactions] = await Promise.all([
+        prisma.invoice.findMany({ where, select: { id: true, invoiceNumber: true, amount: true } }),
+        prisma.bookingPayment.findMany({ where, select: { id: true, referenceNumber: true, amount: true, bookingPayoutId: true } }),
+        prisma.cardPayment.findMany({ where, select: { id: true, transactionDate: true, cardType: true, amount: true, nexiSettlementId: true } }),
+        prisma.otaPayment.findMany({ where, select: { id: true, channel: true, referenceNumber: true, amount: true } }),
+        prisma.providerPayment.findMany({ where, select: { id: true, provider: true, transactionId: true, grossAmount: true, providerPayoutId: true } }),
+        prisma.bankTransaction.findMany({ where, select: { id: true, bookingDate: true, senderReceiver: true, amount: true } })
+    ]);
+
+    const invoiceIds = invoices.map(i => i.id);
+    const matches = await prisma.reconciliationMatch.findMany({
+        where: {
+            OR: [
+                { invoiceId: { in: invoiceIds } },
+                { creditNoteId: { in: invoiceIds } },
+                { bookingPaymentId: { in: bookingPayments.map(p => p.id) } },
+                { cardPaymentId: { in: cardPayments.map(p => p.id) } },
+                { otaPaymentId: { in: otaPayments.map(p => p.id) } },
+                { providerPaymentId: { in: providerPayments.map(p => p.id) } },
+                { bankTransactionId: { in: bankTransactions.map(t => t.id) } }
+            ]
+        },
+        select: { id: true, invoiceId: true, creditNoteId: true }
+    });
+
+    // Invoices (and credit notes) that stay in the database but lose a match they are reconciled through.
+    // With split payments one removed part is enough, the remaining parts stay as partial payments.
+    const matchIds = new Set(matches.map(m => m.id));
+    const otherInvoiceIds = [...new Set(matches.flatMap(m => [m.invoiceId, m.creditNoteId])
+        .filter((id): id is number => id !== null && !invoiceIds.includes(id)))];
+    const otherInvoices = await prisma.invoice.findMany({
+        where: { id: { in: otherInvoiceIds }, isReconciled: true, manualStatus: false },
+        select: { id: true, matches: { select: { id: true } }, creditNoteMatches: { select: { id: true } } }
+    });
+    const unreconcileIds = otherInvoices
+        .filter(inv => [...inv.matches, ...inv.creditNoteMatches].some(m => matchIds.has(m.id)))
+        .map(inv => inv.id);
+
+    // Values the file changed on invoices it did not create, newest change first
+    const invoiceChanges = await prisma.invoiceChange.findMany({
+        where: { importedFileId: fileId, invoiceId: { notIn: invoiceIds } },
+        orderBy: { id: 'desc' }
+    });
+
+    // Payouts that lose reservations: emptied ones are removed, the others get new totals
+    const removedBookingIds = new Set(bookingPayments.map(p => p.id));
+    const payouts = await prisma.bookingPayout.findMany({
+        where: { id: { in: [...new Set(bookingPayments.map(p => p.bookingPayoutId).filter((id): id is number => id !== null))] } },
+        select: { id: true, bookingPayments: { select: { id: true } } }
+    });
+    const emptyPayoutIds = payouts.filter(p => p.bookingPayments.every(b => removedBookingIds.has(b.id))).map(p => p.id);
+    const refreshPayoutIds = payouts.map(p => p.id).filter(id => !emptyPayoutIds.includes(id));
+
+    // Same for Nexi settlements losing card payments
+    const removedCardIds = new Set(cardPayments.map(p => p.id));
+    const settlements = await prisma.nexiSettlement.findMany({
+        where: { id: { in: [...new Set(cardPayments.map(p => p.nexiSettlementId).filter((id): id is number => id !== null))] } },
+        select: { id: true, cardPayments: { select: { id: true } } }
+    });
+    const emptySettlementIds = settlements.filter(s => s.cardPayments.every(c => removedCardIds.has(c.id))).map(s => s.id);
+    const refreshSettlementIds = settlements.map(s => s.id).filter(id => !emptySettlementIds.includes(id));
+
+    // Provider payouts: the file's own withdrawals go, as do payouts losing all their payments
+    const removedProviderIds = new Set(providerPayments.map(p => p.id));
+    const providerPayouts = await prisma.providerPayout.findMany({
+        where: {
+            OR: [
+                { importedFileId: fileId },
+                { id: { in: [...new Set(providerPayments.map(p => p.providerPayoutId).filter((id): id is number => id !== null))] } }
+            ]
+        },
+        select: { id: true, importedFileId: true, payments: { select: { id: true } } }
+    });
+    const emptyProviderPayoutIds = providerPayouts
+        .filter(p => p.payments.every(pay => removedProviderIds.has(pay.id)) && (p.payments.length > 0 || p.importedFileId === fileId))
+        .map(p => p.id);
+    const refreshProviderPayoutIds = providerPayouts.map(p => p.id).filter(id => !emptyProviderPayoutIds.includes(id));
+
+    return { file, invoices, bookingPayments, cardPayments, otaPayments, providerPayments, bankTransactions, matches, unreconcileIds, emptyPayoutIds, refreshPayoutIds, emptySettlementIds, refreshSettlementIds, emptyProviderPayoutIds, refreshProviderPayoutIds, invoiceChanges };
+}
+
+export async function previewRollback(fileId: number): Promise<RollbackPreview | null> {
+    const data = await collectRollback(fileId);
+    if (!data) return null;
+
+    return {
+        file: { id: data.file.id, originalName: data.file.originalName, type: data.file.type, importDate: data.file.importDate },
+        invoices: data.invoices.length,
+        bookingPayments: data.bookingPayments.length,
+        cardPayments: data.cardPayments.length,
+        otaPayments: data.otaPayments.length,
+        providerPayments: data.providerPayments.length,
+        bankTransactions: data.bankTransactions.length,
+        bookingPayouts: data.emptyPayoutIds.length,
+        nexiSettlements: data.emptySettlementIds.length,
+        providerPayouts: data.emptyProviderPayoutIds.length,
+        invoiceChanges: data.invoiceChanges.length,
+        matches: data.matches.length,
+        unreconciledInvoices: data.unreconcileIds.length,
+        samples: {
+            invoices: data.invoices.slice(0, PREVIEW_SAMPLE_SIZE),
+            bookingPayments: data.bookingPayments.slice(0, PREVIEW_SAMPLE_SIZE).map(({ id, referenceNumber, amount }) => ({ id, referenceNumber, amount })),
+            cardPayments: data.cardPayments.slice(0, PREVIEW_SAMPLE_SIZE).map(({ id, transactionDate, cardType, amount }) => ({ id, transactionDate, cardType, amount })),
+            otaPayments: data.otaPayments.slice(0, PREVIEW_SAMPLE_SIZE),
+            providerPayments: data.providerPayments.slice(0, PREVIEW_SAMPLE_SIZE).map(({ id, provider, transactionId, grossAmount }) => ({ id, provider, transactionId, grossAmount })),
+            bankTransactions: data.bankTransactions.slice(0, PREVIEW_SAMPLE_SIZE)
+        }
+    };
+}
+
+// Old values of changed invoices, per invoice. Changes are sorted newest first,
+// so the oldest value of a field is written last and wins.
+function revertedInvoiceValues(changes: { invoiceId: number; field: string; oldValue: string | null }[]) {
+    const values = new Map<number, Record<string, Date | string | number>>();
+    for (const change of changes) {
+        const data = values.get(change.invoiceId) || {};
+        const old = change.oldValue ?? '';
+        if (change.field === 'amount') data.amount = parseFloat(old);
+        else if (change.field === 'invoiceDate') data.invoiceDate = new Date(`${old}T00:00:00`);
+        else data[change.field] = old;
+        values.set(change.invoiceId, data);
+    }
+    return values;
+}
+
+// Remove exactly the records an imported file created, the matches depending on them and the file entry itself
+export async function rollbackImportedFile(fileId: number) {
+    const data = await collectRollback(fileId);
+    if (!data) return null;
+
+    await prisma.$transaction([
+        prisma.reconciliationMatch.deleteMany({ where: { id: { in: data.matches.map(m => m.id) } } }),
+        prisma.invoice.updateMany({
+            where: { id: { in: data.unreconcileIds } },
+            data: { isReconciled: false, reconciledDate: null }
+        }),
+        prisma.invoice.deleteMany({ where: { importedFileId: fileId } }),
+        ...[...revertedInvoiceValues(data.invoiceChanges)].map(([id, values]) =>
+            prisma.invoice.update({ where: { id }, data: values })
+        ),
+        prisma.invoiceChange.deleteMany({ where: { importedFileId: fileId } }),
+        prisma.bookingPayment.deleteMany({ where: { importedFileId: fileId } }),
+        prisma.bookingPayout.deleteMany({ where: { id: { in: data.emptyPayoutIds } } }),
+        // Payouts reconciled against a removed bank transfer are open again
+        prisma.bookingPayout.updateMany({
+            where: { bankTransactionId: { in: data.bankTransactions.map(t => t.id) } },
+            data: { bankTransactionId: null, matchConfidence: null, reconciledDate: null }
+        }),
+        prisma.cardPayment.deleteMany({ where: { importedFileId: fileId } }),
+        prisma.nexiSettlement.deleteMany({ where: { id: { in: data.emptySettlementIds } } }),
+        prisma.otaPayment.deleteMany({ where: { importedFileId: fileId } }),
+        prisma.providerPayment.deleteMany({ where: { importedFileId: fileId } }),
+        prisma.providerPayout.deleteMany({ where: { id: { in: data.emptyProviderPayoutIds } } }),
+        prisma.providerPayout.updateMany({
+            where: { bankTransactionId: { in: data.bankTransactions.map(t => t.id) } },
+            data: { bankTransactionId: null, matchConfidence: null, reconciledDate: null }
+        }),
+        prisma.nexiSettlement.updateMany({
+            where: { bankTransactionId: { in: data.bankTransactions.map(t => t.id) } },
+            data: { bankTransactionId: null, payoutDate: null, matchConfidence: null, reconciledDate: null }
+        }),
+        prisma.bankTransaction.deleteMany({ where: { importedFileId: fileId } }),
+        prisma.importedFile.delete({ where: { id: fileId } })
+    ]);
+    await refreshBookingPayoutTotals(data.refreshPayoutIds);
+    await refreshNexiSettlementTotals(data.refreshSettlementIds);
+    await refreshProviderPayoutTotals(data.refreshProviderPayoutIds);
+
+    console.log(`Rolled back import ${fileId} (${data.file.originalName}): ${data.invoices.length} invoices, ${data.bookingPayments.length} booking payments, ${data.cardPayments.length} card payments, ${data.otaPayments.length} OTA payments, ${data.providerPayments.length} provider payments, ${data.bankTransactions.length} bank transactions, ${data.matches.length} matches`);
+    return {
+        invoices: data.invoices.length,
+        bookingPayments: data.bookingPayments.length,
+        cardPayments: data.cardPayments.length,
+        otaPayments: data.otaPayments.length,
+        providerPayments: data.providerPayments.length,
+        bankTransactions: data.bankTransactions.length,
+        bookingPayouts: data.emptyPayoutIds.length,
+        nexiSettlements: data.emptySettlementIds.length,
+        providerPayouts: data.emptyProviderPayoutIds.length,
+        invoiceChanges: data.invoiceChanges.length,
+        matches: data.matches.length,
+        unreconciledInvoices: data.unreconcileIds.length
+    };
+}
@@ -0,0 +1,98 @@
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Payment sources an invoice is reconciled against. A payment type seen for the first time is
+// mapped to the first source (in this order) with a keyword contained in it, "Booking.com Kreditkarte"
+// is Booking.com; the mapping can be changed afterwards, see paymentTypes.ts.
+export const RULE_SOURCES = ['BOOKING', 'AIRBNB', 'EXPEDIA', 'PAYPAL', 'STRIPE', 'SUMUP', 'CARD', 'BANK'] as const;
+export type RuleSource = typeof RULE_SOURCES[number];
+
+export interface SourceRules {
+    keywords: string[]; // Payment type contains one of these (case-insensitive)
+    dateToleranceDays: number; // Booking.com / Airbnb / Expedia: days around the check-in to payout window
+    amountTolerance: number; // EUR
+}
+
+export interface ReconciliationRules {
+    lookbackMonths: number; // Payments older than this are not considered
+    autoAcceptThreshold: number; // Minimum score for automatic matches, see matchScoring.ts
+    sources: Record<RuleSource, SourceRules>;
+}
+
+export const DEFAULT_RULES: ReconciliationRules = {
+    lookbackMonths: 9,
+    autoAcceptThreshold: 0.8,
+    sources: {
+        BOOKING: { keywords: ['booking.com'], dateToleranceDays: 5, amountTolerance: 0.01 },
+        AIRBNB: { keywords: ['airbnb'], dateToleranceDays: 5, amountTolerance: 0.01 },
+        EXPEDIA: { keywords: ['expedia'], dateToleranceDays: 5, amountTolerance: 0.01 },
+        PAYPAL: { keywords: ['paypal'], dateToleranceDays: 5, amountTolerance: 0.01 },
+        STRIPE: { keywords: ['stripe'], dateToleranceDays: 5, amountTolerance: 0.01 },
+        SUMUP: { keywords: ['sumup', 'sum up'], dateToleranceDays: 5, amountTolerance: 0.01 },
+        CARD: { keywords: ['ec-karte', 'girocard', 'visa', 'mastercard', 'maestro', 'visa electron', 'amex', 'american express'], dateToleranceDays: 5, amountTolerance: 0.01 },
+        BANK: { keywords: ['bank', 'überweisung', 'ueberweisung'], dateToleranceDays: 60, amountTolerance: 0.01 } // Transfers arrive up to two months late
+    }
+};
+
+const GENERAL_KEY = 'GENERAL'; // Row holding lookbackMonths and autoAcceptThreshold
+
+// Stored rules merged over the defaults: sources or settings never saved keep their default
+export async function loadRules(): Promise<ReconciliationRules> {
+    const rows = await prisma.reconciliationRule.findMany();
+    const stored = new Map(rows.map(r => [r.key, JSON.parse(r.settings)]));
+    const sources = {} as Record<RuleSource, SourceRules>;
+    for (const source of RULE_SOURCES) {
+        sources[source] = { ...DEFAULT_RULES.sources[source], ...stored.get(source) };
+    }
+    return { ...DEFAULT_RULES, ...stored.get(GENERAL_KEY), sources };
+}
+
+export async function saveRules(rules: ReconciliationRules): Promise<ReconciliationRules> {
+    const { sources, ...general } = rules;
+    const rows: [string, object][] = [[GENERAL_KEY, general], ...RULE_SOURCES.map(s => [s, sources[s]] as [string, object])];
+    await prisma.$transaction(rows.map(([key, settings]) =>
+        prisma.reconciliationRule.upsert({
+            where: { key },
+            create: { key, settings: JSON.stringify(settings) },
+            update: { settings: JSON.stringify(settings) }
+        })
+    ));
+    return loadRules();
+}
+
+export async function resetRules(): Promise<ReconciliationRules> {
+    await prisma.reconciliationRule.deleteMany({});
+    return DEFAULT_RULES;
+}
+
+export function validateRules(rules: any): string | null {
+    if (!rules || typeof rules !== 'object') return 'rules must be an object';
+    if (!Number.isInteger(rules.lookbackMonths) || rules.lookbackMonths < 1 || rules.lookbackMonths > 36) {
+        return 'lookbackMonths must be a whole number between 1 and 36';
+    }
+    if (typeof rules.autoAcceptThreshold !== 'number' || rules.autoAcceptThreshold <= 0 || rules.autoAcceptThreshold > 1) {
+        return 'autoAcceptThreshold must be between 0 and 1';
+    }
+    if (!rules.sources || typeof rules.sources !== 'object') return 'sources must be an object';
+    for (const source of RULE_SOURCES) {
+        const s = rules.sources[source];
+        if (!s) return `Rules for ${source} missing`;
+        if (!Array.isArray(s.keywords) || s.keywords.some((k: unknown) => typeof k !== 'string' || !k.trim())) {
+            return `Keywords for ${source} must be a list of non-empty strings`;
+        }
+        if (typeof s.dateToleranceDays !== 'number' || s.dateToleranceDays < 0 || s.dateToleranceDays > 365) {
+            return `Date tolerance for ${source} must be between 0 and 365 days`;
+        }
+        if (typeof s.amountTolerance !== 'number' || s.amountTolerance < 0 || s.amountTolerance > 100) {
+            return `Amount tolerance for ${source} must be between 0 and 100`;
+        }
+    }
+    return null;
+}
+
+// Source suggested for a new payment type, null if no keyword matches (e.g. "Bar")
+export function routeSource(paymentType: string, rules: ReconciliationRules): RuleSource | null {
+    const type = paymentType.toLowerCase();
+    return RULE_SOURCES.find(source => rules.sources[source].keywords.some(k => type.includes(k.toLowerCase()))) ?? null;
+}
@@ -47,17 +47,46 @@ async function createTables() {
                 "updatedAt" TIMESTAMP(3) NOT NULL
             );
             CREATE UNIQUE INDEX IF NOT EXISTS "Invoice_invoiceNumber_key" ON "Invoice"("invoiceNumber");
+            ALTER TABLE "Invoice" ADD COLUMN IF NOT EXISTS "importedFileId" INTEGER REFERENCES "ImportedFile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+            ALTER TABLE "Invoice" ADD COLUMN IF NOT EXISTS "invoiceType" TEXT NOT NULL DEFAULT 'INVOICE';
+            ALTER TABLE "Invoice" ADD COLUMN IF NOT EXISTS "originalInvoiceId" INTEGER REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+            CREATE TABLE IF NOT EXISTS "InvoiceChange" (
+                "id" SERIAL PRIMARY KEY,
+                "invoiceId" INTEGER NOT NULL,
+                "field" TEXT NOT NULL,
+                "oldValue" TEXT,
+                "newValue" TEXT,
+                "importedFileId" INTEGER,
+                "changedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+                CONSTRAINT "InvoiceChange_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+                CONSTRAINT "InvoiceChange_importedFileId_fkey" FOREIGN KEY ("importedFileId") REFERENCES "ImportedFile"("id") ON DELETE SET NULL ON UPDATE CASCADE
+            );
+            CREATE INDEX IF NOT EXISTS "InvoiceChange_invoiceId_idx" ON "InvoiceChange"("invoiceId");
 
             CREATE TABLE IF NOT EXISTS "BankTransaction" (
                 "id" SERIAL PRIMARY KEY,
                 "bookingDate" TIMESTAMP(3) NOT NULL,
+                "valueDate" TIMESTAMP(3),
                 "amount" DOUBLE PRECISION NOT NULL,
                 "currency" TEXT NOT NULL DEFAULT 'EUR',
                 "senderReceiver" TEXT,
+                "counterpartyIban" TEXT,
                 "description" TEXT,
+                "reference" TEXT,
+                "endToEndId" TEXT,
+                "fingerprint" TEXT,
                 "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
                 "updatedAt" TIMESTAMP(3) NOT NULL
             );
+            ALTER TABLE "BankTransaction" ADD COLUMN IF NOT EXISTS "fingerprint" TEXT;
+            ALTER TABLE "BankTransaction" ADD COLUMN IF NOT EXISTS "valueDate" TIMESTAMP(3);
+            ALTER TABLE "BankTransaction" ADD COLUMN IF NOT EXISTS "counterpartyIban" TEXT;
+            ALTER TABLE "BankTransaction" ADD COLUMN IF NOT EXISTS "reference" TEXT;
+            ALTER TABLE "BankTransaction" ADD COLUMN IF NOT EXISTS "endToEndId" TEXT;
+            ALTER TABLE "BankTransaction" ADD COLUMN IF NOT EXISTS "importedFileId" INTEGER REFERENCES "ImportedFile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+            CREATE UNIQUE INDEX IF NOT EXISTS "BankTransaction_fingerprint_key" ON "BankTransaction"("fingerprint");
 
             CREATE TABLE IF NOT EXISTS "BookingPayment" (
                 "id" SERIAL PRIMARY KEY,
@@ -71,6 +100,124 @@ async function createTables() {
                 "updatedAt" TIMESTAMP(3) NOT NULL
             );
             CREATE UNIQUE INDEX IF NOT EXISTS "BookingPayment_referenceNumber_key" ON "BookingPayment"("referenceNumber");
+            ALTER TABLE "BookingPayment" ADD COLUMN IF NOT EXISTS "importedFileId" INTEGER REFERENCES "ImportedFile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+            CREATE TABLE IF NOT EXISTS "BookingPayout" (
+                "id" SERIAL PRIMARY KEY,
+                "payoutId" TEXT NOT NULL,
+                "payoutDate" TIMESTAMP(3) NOT NULL,
+                "currency" TEXT NOT NULL DEFAULT 'EUR',
+                "reservationCount" INTEGER NOT NULL DEFAULT 0,
+                "grossAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+                "commission" DOUBLE PRECISION NOT NULL DEFAULT 0,
+                "paymentCharge" DOUBLE PRECISION NOT NULL DEFAULT 0,
+                "netAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+                "bankTransactionId" INTEGER,
+                "matchConfidence" DOUBLE PRECISION,
+                "reconciledDate" TIMESTAMP(3),
+                "importedFileId" INTEGER,
+                "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "updatedAt" TIMESTAMP(3) NOT NULL,
+
+                CONSTRAINT "BookingPayout_bankTransactionId_fkey" FOREIGN KEY ("bankTransactionId") REFERENCES "BankTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+                CONSTRAINT "BookingPayout_importedFileId_fkey" FOREIGN KEY ("importedFileId") REFERENCES "ImportedFile"("id") ON DELETE SET NULL ON UPDATE CASCADE
+            );
+            CREATE UNIQUE INDEX IF NOT EXISTS "BookingPayout_payoutId_key" ON "BookingPayout"("payoutId");
+            ALTER TABLE "BookingPayout" ADD COLUMN IF NOT EXISTS "grossAmount" DOUBLE PRECISION NOT NULL DEFAULT 0;
+            ALTER TABLE "BookingPayout" ADD COLUMN IF NOT EXISTS "paymentCharge" DOUBLE PRECISION NOT NULL DEFAULT 0;
+            ALTER TABLE "BookingPayment" ADD COLUMN IF NOT EXISTS "grossAmount" DOUBLE PRECISION;
+            ALTER TABLE "BookingPayment" ADD COLUMN IF NOT EXISTS "commission" DOUBLE PRECISION;
+            ALTER TABLE "BookingPayment" ADD COLUMN IF NOT EXISTS "paymentCharge" DOUBLE PRECISION;
+            ALTER TABLE "BookingPayment" ADD COLUMN IF NOT EXISTS "netAmount" DOUBLE PRECISION;
+            ALTER TABLE "BookingPayment" ADD COLUMN IF NOT EXISTS "bookingPayoutId" INTEGER REFERENCES "BookingPayout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+            CREATE TABLE IF NOT EXISTS "OtaPayment" (
+                "id" SERIAL PRIMARY KEY,
+                "channel" TEXT NOT NULL,
+                "referenceNumber" TEXT NOT NULL,
+                "transactionType" TEXT,
+                "guestName" TEXT,
+                "checkInDate" TIMESTAMP(3),
+                "checkOutDate" TIMESTAMP(3),
+                "payoutDate" TIMESTAMP(3) NOT NULL,
+                "amount" DOUBLE PRECISION NOT NULL,
+                "grossAmount" DOUBLE PRECISION,
+                "commission" DOUBLE PRECISION,
+                "currency" TEXT NOT NULL DEFAULT 'EUR',
+                "payoutReference" TEXT,
+                "fingerprint" TEXT NOT NULL,
+                "importedFileId" INTEGER,
+                "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "updatedAt" TIMESTAMP(3) NOT NULL,
+
+                CONSTRAINT "OtaPayment_importedFileId_fkey" FOREIGN KEY ("importedFileId") REFERENCES "ImportedFile"("id") ON DELETE SET NULL ON UPDATE CASCADE
+            );
+            CREATE UNIQUE INDEX IF NOT EXISTS "OtaPayment_fingerprint_key" ON "OtaPayment"("fingerprint");
+
+            CREATE TABLE IF NOT EXISTS "ProviderPayout" (
+                "id" SERIAL PRIMARY KEY,
+                "provider" TEXT NOT NULL,
+                "payoutId" TEXT NOT NULL,
+                "payoutDate" TIMESTAMP(3) NOT NULL,
+                "currency" TEXT NOT NULL DEFAULT 'EUR',
+                "transactionCount" INTEGER NOT NULL DEFAULT 0,
+                "amount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+                "bankTransactionId" INTEGER,
+                "matchConfidence" DOUBLE PRECISION,
+                "reconciledDate" TIMESTAMP(3),
+                "importedFileId" INTEGER,
+                "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "updatedAt" TIMESTAMP(3) NOT NULL,
+
+                CONSTRAINT "ProviderPayout_bankTransactionId_fkey" FOREIGN KEY ("bankTransactionId") REFERENCES "BankTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+                CONSTRAINT "ProviderPayout_importedFileId_fkey" FOREIGN KEY ("importedFileId") REFERENCES "ImportedFile"("id") ON DELETE SET NULL ON UPDATE CASCADE
+            );
+            CREATE UNIQUE INDEX IF NOT EXISTS "ProviderPayout_provider_payoutId_key" ON "ProviderPayout"("provider", "payoutId");
+
+            CREATE TABLE IF NOT EXISTS "ProviderPayment" (
+                "id" SERIAL PRIMARY KEY,
+                "provider" TEXT NOT NULL,
+                "transactionId" TEXT NOT NULL,
+                "transactionDate" TIMESTAMP(3) NOT NULL,
+                "transactionType" TEXT,
+                "customer" TEXT,
+                "reference" TEXT,
+                "grossAmount" DOUBLE PRECISION NOT NULL,
+                "fee" DOUBLE PRECISION,
+                "netAmount" DOUBLE PRECISION NOT NULL,
+                "currency" TEXT NOT NULL DEFAULT 'EUR',
+                "providerPayoutId" INTEGER,
+                "importedFileId" INTEGER,
+                "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "updatedAt" TIMESTAMP(3) NOT NULL,
+
+                CONSTRAINT "ProviderPayment_providerPayoutId_fkey" FOREIGN KEY ("providerPayoutId") REFERENCES "ProviderPayout"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+                CONSTRAINT "ProviderPayment_importedFileId_fkey" FOREIGN KEY ("importedFileId") REFERENCES "ImportedFile"("id") ON DELETE SET NULL ON UPDATE CASCADE
+            );
+            CREATE UNIQUE INDEX IF NOT EXISTS "ProviderPayment_provider_transactionId_key" ON "ProviderPayment"("provider", "transactionId");
+
+            CREATE TABLE IF NOT EXISTS "NexiSettlement" (
+                "id" SERIAL PRIMARY KEY,
+                "settlementId" TEXT NOT NULL,
+                "settlementDate" TIMESTAMP(3) NOT NULL,
+                "payoutDate" TIMESTAMP(3),
+                "currency" TEXT NOT NULL DEFAULT 'EUR',
+                "transactionCount" INTEGER NOT NULL DEFAULT 0,
+                "grossAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+                "fees" DOUBLE PRECISION NOT NULL DEFAULT 0,
+                "feeVat" DOUBLE PRECISION NOT NULL DEFAULT 0,
+                "netAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+                "bankTransactionId" INTEGER,
+                "matchConfidence" DOUBLE PRECISION,
+                "reconciledDate" TIMESTAMP(3),
+                "importedFileId" INTEGER,
+                "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "updatedAt" TIMESTAMP(3) NOT NULL,
+
+                CONSTRAINT "NexiSettlement_bankTransactionId_fkey" FOREIGN KEY ("bankTransactionId") REFERENCES "BankTransaction"("id") ON DELETE SET NULL ON UPDATE CASCADE,
+                CONSTRAINT "NexiSettlement_importedFileId_fkey" FOREIGN KEY ("importedFileId") REFERENCES "ImportedFile"("id") ON DELETE SET NULL ON UPDATE CASCADE
+            );
+            CREATE UNIQUE INDEX IF NOT EXISTS "NexiSettlement_settlementId_key" ON "NexiSettlement"("settlementId");
 
             CREATE TABLE IF NOT EXISTS "CardPayment" (
                 "id" SERIAL PRIMARY KEY,
@@ -78,9 +225,19 @@ async function createTables() {
                 "cardType" TEXT NOT NULL,
                 "amount" DOUBLE PRECISION NOT NULL,
                 "grossAmount" DOUBLE PRECISION,
+                "fingerprint" TEXT,
                 "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
                 "updatedAt" TIMESTAMP(3) NOT NULL
             );
+            ALTER TABLE "CardPayment" ADD COLUMN IF NOT EXISTS "fingerprint" TEXT;
+            ALTER TABLE "CardPayment" ADD COLUMN IF NOT EXISTS "importedFileId" INTEGER REFERENCES "ImportedFile"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+            ALTER TABLE "CardPayment" ADD COLUMN IF NOT EXISTS "transactionTime" TEXT;
+            ALTER TABLE "CardPayment" ADD COLUMN IF NOT EXISTS "terminalId" TEXT;
+            ALTER TABLE "CardPayment" ADD COLUMN IF NOT EXISTS "authCode" TEXT;
+            ALTER TABLE "CardPayment" ADD COLUMN IF NOT EXISTS "fee" DOUBLE PRECISION;
+            ALTER TABLE "CardPayment" ADD COLUMN IF NOT EXISTS "feeVat" DOUBLE PRECISION;
+            ALTER TABLE "CardPayment" ADD COLUMN IF NOT EXISTS "nexiSettlementId" INTEGER REFERENCES "NexiSettlement"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+            CREATE UNIQUE INDEX IF NOT EXISTS "CardPayment_fingerprint_key" ON "CardPayment"("fingerprint");
 
             CREATE TABLE IF NOT EXISTS "ReconciliationMatch" (
                 "id" SERIAL PRIMARY KEY,
@@ -97,6 +254,104 @@ async function createTables() {
                 CONSTRAINT "ReconciliationMatch_bookingPaymentId_fkey" FOREIGN KEY ("bookingPaymentId") REFERENCES "BookingPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE,
                 CONSTRAINT "ReconciliationMatch_cardPaymentId_fkey" FOREIGN KEY ("cardPaymentId") REFERENCES "CardPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE
             );
+            ALTER TABLE "ReconciliationMatch" ADD COLUMN IF NOT EXISTS "otaPaymentId" INTEGER REFERENCES "OtaPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+            ALTER TABLE "ReconciliationMatch" ADD COLUMN IF NOT EXISTS "providerPaymentId" INTEGER REFERENCES "ProviderPayment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+            ALTER TABLE "ReconciliationMatch" ADD COLUMN IF NOT EXISTS "creditNoteId" INTEGER REFERENCES "Invoice"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+            ALTER TABLE "ReconciliationMatch" ADD COLUMN IF NOT EXISTS "amount" DOUBLE PRECISION;
+            ALTER TABLE "ReconciliationMatch" ADD COLUMN IF NOT EXISTS "factors" TEXT;
+            ALTER TABLE "ReconciliationMatch" ADD COLUMN IF NOT EXISTS "createdBy" TEXT;
+
+            CREATE TABLE IF NOT EXISTS "MatchSuggestion" (
+                "id" SERIAL PRIMARY KEY,
+                "invoiceId" INTEGER NOT NULL,
+                "rank" INTEGER NOT NULL,
+                "score" DOUBLE PRECISION NOT NULL,
+                "factors" TEXT NOT NULL,
+                "bankTransactionId" INTEGER,
+                "bookingPaymentId" INTEGER,
+                "cardPaymentId" INTEGER,
+                "otaPaymentId" INTEGER,
+                "providerPaymentId" INTEGER,
+                "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+                CONSTRAINT "MatchSuggestion_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "Invoice"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+                CONSTRAINT "MatchSuggestion_bankTransactionId_fkey" FOREIGN KEY ("bankTransactionId") REFERENCES "BankTransaction"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+                CONSTRAINT "MatchSuggestion_bookingPaymentId_fkey" FOREIGN KEY ("bookingPaymentId") REFERENCES "BookingPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+                CONSTRAINT "MatchSuggestion_cardPaymentId_fkey" FOREIGN KEY ("cardPaymentId") REFERENCES "CardPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+                CONSTRAINT "MatchSuggestion_otaPaymentId_fkey" FOREIGN KEY ("otaPaymentId") REFERENCES "OtaPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+                CONSTRAINT "MatchSuggestion_providerPaymentId_fkey" FOREIGN KEY ("providerPaymentId") REFERENCES "ProviderPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE
+            );
+            CREATE INDEX IF NOT EXISTS "MatchSuggestion_invoiceId_idx" ON "MatchSuggestion"("invoiceId");
+
+            CREATE TABLE IF NOT EXISTS "MappingProfile" (
+                "id" SERIAL PRIMARY KEY,
+                "name" TEXT NOT NULL,
+                "source" TEXT NOT NULL,
+                "fields" TEXT NOT NULL,
+                "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "updatedAt" TIMESTAMP(3) NOT NULL
+            );
+            CREATE UNIQUE INDEX IF NOT EXISTS "MappingProfile_name_key" ON "MappingProfile"("name");
+
+            CREATE TABLE IF NOT EXISTS "ReconciliationRule" (
+                "id" SERIAL PRIMARY KEY,
+                "key" TEXT NOT NULL,
+                "settings" TEXT NOT NULL,
+                "updatedAt" TIMESTAMP(3) NOT NULL
+            );
+            CREATE UNIQUE INDEX IF NOT EXISTS "ReconciliationRule_key_key" ON "ReconciliationRule"("key");
+
+            CREATE TABLE IF NOT EXISTS "PaymentTypeMapping" (
+                "id" SERIAL PRIMARY KEY,
+                "paymentType" TEXT NOT NULL,
+                "channel" TEXT,
+                "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "updatedAt" TIMESTAMP(3) NOT NULL
+            );
+            CREATE UNIQUE INDEX IF NOT EXISTS "PaymentTypeMapping_paymentType_key" ON "PaymentTypeMapping"("paymentType");
+
+            CREATE TABLE IF NOT EXISTS "ReconciliationRun" (
+                "id" SERIAL PRIMARY KEY,
+                "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "finishedAt" TIMESTAMP(3),
+                "rules" TEXT NOT NULL,
+                "result" TEXT
+            );
+            ALTER TABLE "ReconciliationRun" ADD COLUMN IF NOT EXISTS "trigger" TEXT NOT NULL DEFAULT 'MANUAL';
+            ALTER TABLE "ReconciliationRun" ADD COLUMN IF NOT EXISTS "revertedAt" TIMESTAMP(3);
+            ALTER TABLE "ReconciliationMatch" ADD COLUMN IF NOT EXISTS "runId" INTEGER REFERENCES "ReconciliationRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+            CREATE TABLE IF NOT EXISTS "ImportRowError" (
+                "id" SERIAL PRIMARY KEY,
+                "importedFileId" INTEGER NOT NULL,
+                "row" INTEGER NOT NULL,
+                "field" TEXT,
+                "reason" TEXT NOT NULL,
+                "raw" TEXT,
+                "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+                CONSTRAINT "ImportRowError_importedFileId_fkey" FOREIGN KEY ("importedFileId") REFERENCES "ImportedFile"("id") ON DELETE CASCADE ON UPDATE CASCADE
+            );
+            CREATE INDEX IF NOT EXISTS "ImportRowError_importedFileId_idx" ON "ImportRowError"("importedFileId");
+
+            CREATE TABLE IF NOT EXISTS "PaymentFlag" (
+                "id" SERIAL PRIMARY KEY,
+                "flag" TEXT NOT NULL,
+                "note" TEXT,
+                "createdBy" TEXT,
+                "bankTransactionId" INTEGER,
+                "cardPaymentId" INTEGER,
+                "bookingPaymentId" INTEGER,
+                "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "updatedAt" TIMESTAMP(3) NOT NULL,
+
+                CONSTRAINT "PaymentFlag_bankTransactionId_fkey" FOREIGN KEY ("bankTransactionId") REFERENCES "BankTransaction"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+                CONSTRAINT "PaymentFlag_cardPaymentId_fkey" FOREIGN KEY ("cardPaymentId") REFERENCES "CardPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+                CONSTRAINT "PaymentFlag_bookingPaymentId_fkey" FOREIGN KEY ("bookingPaymentId") REFERENCES "BookingPayment"("id") ON DELETE CASCADE ON UPDATE CASCADE
+            );
+            CREATE UNIQUE INDEX IF NOT EXISTS "PaymentFlag_bankTransactionId_key" ON "PaymentFlag"("bankTransactionId");
+            CREATE UNIQUE INDEX IF NOT EXISTS "PaymentFlag_cardPaymentId_key" ON "PaymentFlag"("cardPaymentId");
+            CREATE UNIQUE INDEX IF NOT EXISTS "PaymentFlag_bookingPaymentId_key" ON "PaymentFlag"("bookingPaymentId");
         `);
 
         console.log('Tables created successfully!');
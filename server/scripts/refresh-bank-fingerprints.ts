@@ -0,0 +1,51 @@
+import { PrismaClient } from '@prisma/client';
+import { createBankFingerprinter } from '../parsers';
+
+const prisma = new PrismaClient();
+
+// Recompute the fingerprints of stored bank transactions since they no longer depend on the file format
+// (bankIdentity in bankStatements.ts), so re-importing an earlier file still finds its rows. Rows are
+// fingerprinted per imported file in import order, like the import does. A transaction imported twice
+// (once as CSV, once as CAMT.053 / MT940) gets the same fingerprint twice: the later row keeps its old
+// one and is listed, it can be removed with its file or by hand.
+async function refreshBankFingerprints() {
+    try {
+        await refresh();
+    } catch (e) {
+        console.error('Error refreshing bank fingerprints:', e);
+    } finally {
+        await prisma.$disconnect();
+    }
+}
+
+async function refresh() {
+    const rows = await prisma.bankTransaction.findMany({
+        orderBy: { id: 'asc' },
+        select: { id: true, importedFileId: true, bookingDate: true, amount: true, senderReceiver: true, description: true, fingerprint: true }
+    });
+
+    const fingerprinters = new Map<number | null, ReturnType<typeof createBankFingerprinter>>();
+    const taken = new Set<string>();
+    const updates: { id: number; fingerprint: string }[] = [];
+    for (const row of rows) {
+        if (!fingerprinters.has(row.importedFileId)) fingerprinters.set(row.importedFileId, createBankFingerprinter());
+        const fingerprint = fingerprinters.get(row.importedFileId)!({
+            bookingDate: row.bookingDate, amount: row.amount, counterparty: row.senderReceiver || '', purpose: row.description || ''
+        });
+        if (taken.has(fingerprint)) {
+            console.log(`Bank transaction ${row.id} (${row.bookingDate.toLocaleDateString('de-DE')}, ${row.amount.toFixed(2)}, file ${row.importedFileId}) was imported before`);
+            continue;
+        }
+        taken.add(fingerprint);
+        if (fingerprint !== row.fingerprint) updates.push({ id: row.id, fingerprint });
+    }
+
+    // A new fingerprint may still be held by a row updated later: all are cleared first
+    await prisma.$transaction([
+        ...updates.map(u => prisma.bankTransaction.update({ where: { id: u.id }, data: { fingerprint: null } })),
+        ...updates.map(u => prisma.bankTransaction.update({ where: { id: u.id }, data: { fingerprint: u.fingerprint } }))
+    ]);
+    console.log(`${updates.length} of ${rows.length} bank transaction fingerprints updated`);
+}
+
+refreshBankFingerprints();
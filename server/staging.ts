@@ -0,0 +1,27 @@
+import fs from 'fs';
+import path from 'path';
+
+// Uploads parsed as a preview wait in a staging folder until they are committed or discarded (index.ts).
+// A preview nobody confirms or discards (e.g. the tab was closed) expires after STAGED_FILE_TTL_HOURS.
+export const STAGED_FILE_TTL_HOURS = 24;
+
+// Remove staged uploads older than the TTL; returns how many were removed
+export function removeExpiredStagedFiles(stagingDir: string, now = new Date()): number {
+    if (!fs.existsSync(stagingDir)) return 0;
+    const cutoff = now.getTime() - STAGED_FILE_TTL_HOURS * 60 * 60 * 1000;
+    let removed = 0;
+    for (const name of fs.readdirSync(stagingDir)) {
+        const filePath = path.join(stagingDir, name);
+        try {
+            const stat = fs.statSync(filePath);
+            if (stat.isFile() && stat.mtimeMs < cutoff) {
+                fs.unlinkSync(filePath);
+                removed++;
+            }
+        } catch (e) {
+            console.error(`Error removing expired staged file ${name}:`, e);
+        }
+    }
+    if (removed > 0) console.log(`Removed ${removed} expired staged uploads`);
+    return removed;
+}
@@ -0,0 +1,59 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bankIdentity, parseCamt053, parseMt940 } from '../bankStatements';
+
+// One incoming transfer as the bank delivers it in each format
+const camt = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+<Ntry>
+    <Amt Ccy="EUR">250.00</Amt><CdtDbtInd>CRDT</CdtDbtInd>
+    <BookgDt><Dt>2025-06-12</Dt></BookgDt><ValDt><Dt>2025-06-12</Dt></ValDt>
+    <NtryDtls><TxDtls>
+        <Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs>
+        <RltdPties><Dbtr><Nm>Hans Müller-Lüdenscheidt Reisebüro GmbH</Nm></Dbtr><DbtrAcct><Id><IBAN>DE02120300000000202051</IBAN></Id></DbtrAcct></RltdPties>
+        <RmtInf><Ustrd>Rechnung 18763 / 2025 Zimmer 12</Ustrd></RmtInf>
+    </TxDtls></NtryDtls>
+</Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+
+const mt940 = [
+    ':20:STARTUMSE',
+    ':25:12030000/0000202051',
+    ':28C:00001/001',
+    ':60F:C250611EUR1000,00',
+    ':61:2506120612CR250,00NTRFNONREF',
+    ':86:166?00GUTSCHR. UEBERWEISUNG?20EREF+NOTPROVIDED?21SVWZ+Rechnung 18763 / 2025 ?22Zimmer 12',
+    '?32HANS MUELLER-LUEDENSCHEIDT ?33REISEBUERO GMBH',
+    ':62F:C250612EUR1250,00',
+    '-'
+].join('\n');
+
+const csv = {
+    bookingDate: new Date(2025, 5, 12),
+    amount: 250,
+    counterparty: 'Hans Müller-Lüdenscheidt Reisebüro GmbH',
+    purpose: 'EREF+NOTPROVIDED SVWZ+Rechnung 18763 / 2025 Zimmer 12'
+};
+
+describe('bankIdentity', () => {
+    test('is the same for a transfer from a CSV export, a CAMT.053 and an MT940 statement', () => {
+        const [fromCamt] = parseCamt053(camt);
+        const [fromMt940] = parseMt940(mt940);
+        assert.deepEqual(bankIdentity(fromCamt), bankIdentity(csv));
+        assert.deepEqual(bankIdentity(fromMt940), bankIdentity(csv));
+    });
+
+    test('ignores case, spacing and punctuation', () => {
+        assert.deepEqual(
+            bankIdentity({ ...csv, counterparty: 'HANS MUELLER LUEDENSCHEIDT REISEBUERO GMBH', purpose: 'Rechnung 18763/2025\nZimmer 12' }),
+            bankIdentity(csv)
+        );
+    });
+
+    test('tells transfers with another date, amount, name or purpose apart', () => {
+        assert.notDeepEqual(bankIdentity({ ...csv, bookingDate: new Date(2025, 5, 13) }), bankIdentity(csv));
+        assert.notDeepEqual(bankIdentity({ ...csv, amount: 205 }), bankIdentity(csv));
+        assert.notDeepEqual(bankIdentity({ ...csv, counterparty: 'Erika Schmidt' }), bankIdentity(csv));
+        assert.notDeepEqual(bankIdentity({ ...csv, purpose: 'Rechnung 18764 / 2025 Zimmer 12' }), bankIdentity(csv));
+    });
+});
@@ -0,0 +1,72 @@
+import { BankTransaction, CardPayment, Invoice } from '@prisma/client';
+import { BankWithMatches, InvoiceWithCredits } from '../matching';
+import { SourceRules } from '../rules';
+
+// Records as the reconciliation run loads them, with only the fields a test cares about set
+
+export const rules: SourceRules = { keywords: [], dateToleranceDays: 14, amountTolerance: 0.01 };
+
+export function invoice(fields: Partial<InvoiceWithCredits> = {}): InvoiceWithCredits {
+    const base: Invoice = {
+        id: 1,
+        invoiceDate: new Date(2025, 5, 10),
+        paymentType: 'Banküberweisung',
+        invoiceNumber: 'Rechnung 18763 / 2025',
+        recipient: 'Hans Müller',
+        amount: 100,
+        isReconciled: false,
+        reconciledDate: null,
+        manualStatus: false,
+        comment: null,
+        dunningStatus: null,
+        dunningMethod: null,
+        dunningDate: null,
+        importedFileId: null,
+        invoiceType: 'INVOICE',
+        originalInvoiceId: null,
+        createdAt: new Date(2025, 5, 10),
+        updatedAt: new Date(2025, 5, 10)
+    };
+    return { ...base, creditNotes: [], matches: [], ...fields };
+}
+
+export function bank(fields: Partial<BankTransaction> = {}): BankWithMatches {
+    const base: BankTransaction = {
+        id: 1,
+        bookingDate: new Date(2025, 5, 12),
+        valueDate: null,
+        amount: 100,
+        currency: 'EUR',
+        senderReceiver: null,
+        counterpartyIban: null,
+        description: null,
+        reference: null,
+        endToEndId: null,
+        fingerprint: null,
+        importedFileId: null,
+        createdAt: new Date(2025, 5, 12),
+        updatedAt: new Date(2025, 5, 12)
+    };
+    return { ...base, ...fields, matches: [], bookingPayouts: [], nexiSettlements: [], providerPayouts: [] };
+}
+
+export function card(fields: Partial<CardPayment> = {}): CardPayment & { matches: { id: number }[] } {
+    const base: CardPayment = {
+        id: 1,
+        transactionDate: new Date(2025, 5, 10),
+        cardType: 'Visa',
+        amount: 100,
+        grossAmount: null,
+        transactionTime: null,
+        terminalId: null,
+        authCode: null,
+        fee: null,
+        feeVat: null,
+        fingerprint: null,
+        importedFileId: null,
+        nexiSettlementId: null,
+        createdAt: new Date(2025, 5, 10),
+        updatedAt: new Date(2025, 5, 10)
+    };
+    return { ...base, ...fields, matches: [] };
+}
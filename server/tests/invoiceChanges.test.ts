@@ -0,0 +1,59 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { invoiceChanges, nettedCreditNotes, reopensInvoice } from '../invoiceChanges';
+import { netCreditNotes } from '../matching';
+import { invoice } from './fixtures';
+
+describe('invoiceChanges', () => {
+    test('lists the changed fields as text', () => {
+        const stored = invoice({ amount: 250 });
+        const row = { ...stored, amount: 280, recipient: ' Hans Müller ', invoiceDate: new Date(2025, 5, 11) };
+        assert.deepEqual(invoiceChanges(stored, row), [
+            { field: 'invoiceDate', oldValue: '2025-06-10', newValue: '2025-06-11' },
+            { field: 'amount', oldValue: '250.00', newValue: '280.00' }
+        ]);
+    });
+
+    test('finds nothing in an unchanged row', () => {
+        const stored = invoice();
+        assert.deepEqual(invoiceChanges(stored, { ...stored, amount: 100.001 }), []);
+    });
+});
+
+describe('reopensInvoice', () => {
+    const changed = (field: string) => [{ field, oldValue: 'a', newValue: 'b' }];
+
+    test('reopens an automatically reconciled invoice whose amount or payment type changed', () => {
+        assert.equal(reopensInvoice({ isReconciled: true, manualStatus: false }, changed('amount')), true);
+        assert.equal(reopensInvoice({ isReconciled: true, manualStatus: false }, changed('paymentType')), true);
+    });
+
+    test('keeps invoices reconciled for other changes, by hand or not at all', () => {
+        assert.equal(reopensInvoice({ isReconciled: true, manualStatus: false }, changed('recipient')), false);
+        assert.equal(reopensInvoice({ isReconciled: true, manualStatus: true }, changed('amount')), false);
+        assert.equal(reopensInvoice({ isReconciled: false, manualStatus: false }, changed('amount')), false);
+    });
+});
+
+describe('nettedCreditNotes', () => {
+    test('re-importing a changed invoice releases its credit note for the next run', () => {
+        // Invoice 1 over 250 was paid with 200 after credit note 2 over -50 was netted against it
+        const matches = [
+            { invoiceId: 1, creditNoteId: null },
+            { invoiceId: 1, creditNoteId: 2 }
+        ];
+        const stored = invoice({ amount: 250, isReconciled: true });
+        const changes = invoiceChanges(stored, { ...stored, amount: 260 });
+        assert.equal(reopensInvoice(stored, changes), true);
+        assert.deepEqual(nettedCreditNotes(1, matches), [2]);
+
+        // Reopened with its credit note, the invoice expects the netted amount again
+        const reopened = invoice({ amount: 260, creditNotes: [{ id: 2, amount: -50, isReconciled: false }] });
+        assert.equal(netCreditNotes(reopened).invoice.amount, 210);
+    });
+
+    test('leaves credit notes of other invoices alone', () => {
+        // Invoice 1 is itself a credit note netted against invoice 5
+        assert.deepEqual(nettedCreditNotes(1, [{ invoiceId: 5, creditNoteId: 1 }, { invoiceId: 1, creditNoteId: null }]), []);
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { amountFactor, dateFactor, nameFactor, nameSimilarity, referenceFactor, scoreCandidate } from '../matchScoring';
+import { rankCandidates } from '../matching';
+
+describe('amountFactor', () => {
+    test('is exact within the tolerance', () => {
+        assert.deepEqual(amountFactor(100, 100.005, 0.01), { factor: 'amount', score: 1, detail: 'Betrag exakt' });
+    });
+
+    test('scores near misses at most 0.5, falling to 0 at 5% off', () => {
+        assert.equal(amountFactor(100, 102, 0.01)?.score, 0.3);
+        assert.equal(amountFactor(100, 98, 0.01)?.detail, 'Betrag weicht um -2,00 € ab');
+        assert.equal(amountFactor(100, 100.02, 0.01)?.score, 0.5);
+    });
+
+    test('drops payments more than 5% off', () => {
+        assert.equal(amountFactor(100, 105.5, 0.01), null);
+    });
+});
+
+describe('dateFactor', () => {
+    test('is 1 on the day, 0.5 at the tolerance and 0 at twice of it', () => {
+        assert.equal(dateFactor(0, 5).score, 1);
+        assert.equal(dateFactor(5, 5).score, 0.5);
+        assert.equal(dateFactor(10, 5).score, 0);
+        assert.equal(dateFactor(30, 5).score, 0);
+    });
+
+    test('describes the distance', () => {
+        assert.equal(dateFactor(0, 5).detail, 'Gleicher Tag');
+        assert.equal(dateFactor(0, 5, 'Zwischen Anreise und Auszahlung').detail, 'Zwischen Anreise und Auszahlung');
+        assert.equal(dateFactor(3, 5).detail, '3 Tage Abstand');
+        assert.equal(dateFactor(3, 5).days, 3);
+    });
+
+    test('a tolerance of 0 only accepts the exact date', () => {
+        assert.equal(dateFactor(0, 0).score, 1);
+        assert.equal(dateFactor(1, 0).score, 0);
+    });
+});
+
+describe('nameFactor', () => {
+    test('needs a name on both sides', () => {
+        assert.deepEqual(nameFactor('Hans Müller', null), { factor: 'name', score: 0, detail: 'Kein Name in der Zahlung' });
+        assert.equal(nameFactor(null, 'Hans Müller').score, 0);
+    });
+
+    test('matches contained names and spelled out umlauts', () => {
+        assert.equal(nameSimilarity('Müller', 'Hans Müller GmbH'), 1);
+        assert.equal(nameSimilarity('Hans Müller', 'MUELLER HANS'), 1);
+        assert.equal(nameFactor('Hans Müller', 'MUELLER HANS').detail, 'Name "MUELLER HANS" (100%)');
+    });
+
+    test('scores the share of common words', () => {
+        assert.equal(nameSimilarity('Reisebuero Sonne Berlin', 'Sonne Reisen Hamburg'), 0.33);
+    });
+
+    test('scores unrelated names 0', () => {
+        assert.equal(nameFactor('Hans Müller', 'Erika Schmidt').score, 0);
+        assert.equal(nameFactor('Hans Müller', 'Erika Schmidt').detail, 'Name "Erika Schmidt" passt nicht');
+    });
+});
+
+describe('scoreCandidate', () => {
+    test('weighs the factors per channel', () => {
+        const candidate = scoreCandidate('card', 'cardPaymentId', 7, [amountFactor(100, 100, 0.01), dateFactor(5, 5)]);
+        assert.equal(candidate.score, 0.85);
+        assert.deepEqual(candidate.factors.map(f => [f.factor, f.points]), [['amount', 0.7], ['date', 0.15]]);
+        assert.equal(candidate.exactAmount, true);
+        assert.equal(candidate.referenceHit, false);
+        assert.equal(candidate.days, 5);
+    });
+
+    test('drops factors the channel does not use', () => {
+        const candidate = scoreCandidate('card', 'cardPaymentId', 7, [amountFactor(100, 100, 0.01), dateFactor(0, 5), nameFactor('Hans Müller', 'Hans Müller')]);
+        assert.deepEqual(candidate.factors.map(f => f.factor), ['amount', 'date']);
+    });
+
+    test('caps the score at 1', () => {
+        const candidate = scoreCandidate('bank', 'bankTransactionId', 1, [
+            amountFactor(100, 100, 0.01),
+            dateFactor(0, 5),
+            nameFactor('Hans Müller', 'Hans Müller'),
+            referenceFactor(true, 'Rechnungsnummer 18763 im Verwendungszweck')
+        ]);
+        assert.equal(candidate.score, 1);
+        assert.equal(candidate.referenceHit, true);
+    });
+
+    test('a near miss is no exact amount', () => {
+        const candidate = scoreCandidate('bank', 'bankTransactionId', 1, [amountFactor(100, 102, 0.01), dateFactor(0, 5)]);
+        assert.equal(candidate.exactAmount, false);
+    });
+});
+
+describe('rankCandidates', () => {
+    const card = (id: number, days: number) =>
+        scoreCandidate('card', 'cardPaymentId', id, [amountFactor(100, 100, 0.01), dateFactor(days, 5)]);
+
+    test('sorts by score, then payment ID', () => {
+        const ranked = rankCandidates([card(3, 4), card(2, 0), card(1, 4)]);
+        assert.deepEqual(ranked.map(c => c.paymentId), [2, 1, 3]);
+    });
+
+    test('drops candidates outside the date window unless they carry a reference', () => {
+        const farOff = card(1, 20);
+        const withReference = scoreCandidate('bank', 'bankTransactionId', 2, [
+            amountFactor(100, 100, 0.01),
+            dateFactor(20, 5),
+            referenceFactor(true, 'Rechnungsnummer 18763 im Verwendungszweck')
+        ]);
+        assert.deepEqual(rankCandidates([farOff, withReference]).map(c => c.paymentId), [2]);
+    });
+
+    test('an exact-date rule keeps candidates of the same day', () => {
+        const sameDay = scoreCandidate('card', 'cardPaymentId', 1, [amountFactor(100, 100, 0.01), dateFactor(0, 0)]);
+        const nextDay = scoreCandidate('card', 'cardPaymentId', 2, [amountFactor(100, 100, 0.01), dateFactor(1, 0)]);
+        assert.deepEqual(rankCandidates([sameDay, nextDay]).map(c => c.paymentId), [1]);
+    });
+});
@@ -0,0 +1,237 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bankCandidates, findCombination, isOpenBankTransaction, isOpenPayment, matchBulkInMemory, matchPartialInMemory, matchSplitInMemory, netCreditNotes } from '../matching';
+import { bank, card, invoice, rules } from './fixtures';
+
+describe('netCreditNotes', () => {
+    const credit = (id: number, amount: number, isReconciled = false) => ({ id, amount, isReconciled });
+
+    test('expects the full amount without credit notes or payments', () => {
+        const { invoice: open, credits, cancelled } = netCreditNotes(invoice({ amount: 250 }));
+        assert.equal(open.amount, 250);
+        assert.deepEqual(credits, []);
+        assert.equal(cancelled, false);
+    });
+
+    test('deducts open credit notes', () => {
+        const { invoice: open, credits, cancelled } = netCreditNotes(invoice({ amount: 250, creditNotes: [credit(2, -50), credit(3, -20.5)] }));
+        assert.equal(open.amount, 179.5);
+        assert.deepEqual(credits.map(c => c.id), [2, 3]);
+        assert.equal(cancelled, false);
+    });
+
+    test('ignores credit notes settled before', () => {
+        const { invoice: open, credits } = netCreditNotes(invoice({ amount: 250, creditNotes: [credit(2, -50, true)] }));
+        assert.equal(open.amount, 250);
+        assert.deepEqual(credits, []);
+    });
+
+    test('an invoice fully cancelled by credit notes expects nothing', () => {
+        const { invoice: open, cancelled } = netCreditNotes(invoice({ amount: 100, creditNotes: [credit(2, -60), credit(3, -40)] }));
+        assert.equal(open.amount, 0);
+        assert.equal(cancelled, true);
+    });
+
+    test('an invoice of 0 without credit notes is not cancelled', () => {
+        assert.equal(netCreditNotes(invoice({ amount: 0 })).cancelled, false);
+    });
+
+    test('deducts partial payments matched before', () => {
+        const { invoice: open } = netCreditNotes(invoice({ amount: 300, creditNotes: [credit(2, -50)], matches: [{ amount: 100 }, { amount: null }] }));
+        assert.equal(open.amount, 150);
+    });
+
+    test('rounds to the cent', () => {
+        const { invoice: open } = netCreditNotes(invoice({ amount: 100.1, creditNotes: [credit(2, -33.37)], matches: [{ amount: 0.2 }] }));
+        assert.equal(open.amount, 66.53);
+    });
+
+    test('keeps the other invoice fields', () => {
+        const { invoice: open } = netCreditNotes(invoice({ id: 7, invoiceNumber: 'Rechnung 18800 / 2025', amount: 90, creditNotes: [credit(8, -10)] }));
+        assert.equal(open.id, 7);
+        assert.equal(open.invoiceNumber, 'Rechnung 18800 / 2025');
+    });
+});
+
+describe('matchPartialInMemory', () => {
+    const instalments = () => [
+        bank({ id: 1, amount: 100, bookingDate: new Date(2025, 5, 12), description: 'RE 18763 Rate 1' }),
+        bank({ id: 2, amount: 100, bookingDate: new Date(2025, 5, 20), description: 'Rechnung 18763/2025 Rate 2' })
+    ];
+
+    test('keeps transfers naming the invoice as partial payments', () => {
+        const matchedIds = new Set<number>();
+        const results: any[] = [];
+        assert.equal(matchPartialInMemory(invoice({ amount: 300 }), instalments(), matchedIds, results, rules), 2);
+        assert.deepEqual(results, [
+            { invoiceId: 1, bankTransactionId: 1, matchType: 'PARTIAL', confidence: 0.9, amount: 100 },
+            { invoiceId: 1, bankTransactionId: 2, matchType: 'PARTIAL', confidence: 0.9, amount: 100 }
+        ]);
+        assert.deepEqual([...matchedIds], [1, 2]);
+    });
+
+    test('stops before the open amount is covered', () => {
+        const results: any[] = [];
+        assert.equal(matchPartialInMemory(invoice({ amount: 150 }), instalments(), new Set(), results, rules), 1);
+        assert.deepEqual(results.map(r => r.bankTransactionId), [1]);
+    });
+
+    test('leaves a transfer paying the whole amount to the regular matching', () => {
+        assert.equal(matchPartialInMemory(invoice({ amount: 100 }), instalments(), new Set(), [], rules), 0);
+    });
+
+    test('needs the invoice number, the sender name alone is not enough', () => {
+        const fromRecipient = bank({ amount: 50, senderReceiver: 'Hans Müller', description: 'Anzahlung' });
+        assert.equal(matchPartialInMemory(invoice({ amount: 300 }), [fromRecipient], new Set(), [], rules), 0);
+    });
+
+    test('does not find the number inside a longer one', () => {
+        const other = bank({ amount: 50, description: 'RE 187631' });
+        assert.equal(matchPartialInMemory(invoice({ amount: 300 }), [other], new Set(), [], rules), 0);
+    });
+
+    test('skips transfers outside the date tolerance or matched already', () => {
+        const late = bank({ id: 3, amount: 50, bookingDate: new Date(2025, 7, 1), description: 'RE 18763' });
+        assert.equal(matchPartialInMemory(invoice({ amount: 300 }), [late, ...instalments()], new Set([1, 2]), [], rules), 0);
+    });
+});
+
+describe('matchSplitInMemory', () => {
+    test('combines card payments on the invoice date', () => {
+        const cards = [card({ id: 1, amount: 60 }), card({ id: 2, amount: 25 }), card({ id: 3, amount: 40 })];
+        const matchedCardIds = new Set<number>();
+        const results: any[] = [];
+        assert.equal(matchSplitInMemory(invoice({ amount: 100 }), cards, [], matchedCardIds, new Set(), results, rules), true);
+        assert.deepEqual(results, [
+            { invoiceId: 1, cardPaymentId: 1, amount: 60, matchType: 'SPLIT', confidence: 0.7 },
+            { invoiceId: 1, cardPaymentId: 3, amount: 40, matchType: 'SPLIT', confidence: 0.7 }
+        ]);
+        assert.deepEqual([...matchedCardIds], [1, 3]);
+    });
+
+    test('combines a card payment with a transfer from the recipient', () => {
+        const transfer = bank({ id: 5, amount: 70, senderReceiver: 'Erika Schmidt' });
+        const fromRecipient = bank({ id: 6, amount: 70, senderReceiver: 'Hans Müller' });
+        const results: any[] = [];
+        assert.equal(matchSplitInMemory(invoice({ amount: 100 }), [card({ amount: 30 })], [transfer, fromRecipient], new Set(), new Set(), results, rules), true);
+        assert.deepEqual(results.map(r => r.cardPaymentId ?? r.bankTransactionId), [1, 6]);
+    });
+
+    test('ignores card payments away from the invoice date and transfers without name or number', () => {
+        const lateCard = card({ amount: 50, transactionDate: new Date(2025, 5, 14) });
+        const anonymous = bank({ amount: 50, senderReceiver: 'Erika Schmidt' });
+        assert.equal(matchSplitInMemory(invoice({ amount: 100 }), [lateCard, card({ id: 2, amount: 50 })], [anonymous], new Set(), new Set(), [], rules), false);
+    });
+});
+
+describe('findCombination', () => {
+    const parts = (...amounts: number[]) => amounts.map((amount, id) => ({ id, amount }));
+    const ids = (found: { id: number }[] | null) => found && found.map(p => p.id);
+
+    test('finds payments adding up to the target', () => {
+        assert.deepEqual(ids(findCombination(parts(70, 50, 30), 100, 0.01)), [0, 2]);
+    });
+
+    test('prefers the smallest set', () => {
+        assert.deepEqual(ids(findCombination(parts(25, 25, 25, 25, 60, 40), 100, 0.01)), [4, 5]);
+    });
+
+    test('takes the first candidates among sets of equal size', () => {
+        assert.deepEqual(ids(findCombination(parts(40, 60, 30, 70), 100, 0.01)), [0, 1]);
+    });
+
+    test('allows for the tolerance', () => {
+        assert.deepEqual(ids(findCombination(parts(33.33, 33.33, 33.335), 100, 0.01)), [0, 1, 2]);
+        assert.equal(findCombination(parts(33.33, 33.33, 33.335), 100, 0), null);
+    });
+
+    test('needs at least two and at most four payments', () => {
+        assert.equal(findCombination(parts(100), 100, 0.01), null);
+        assert.equal(findCombination(parts(20, 20, 20, 20, 20), 100, 0.01), null);
+        assert.deepEqual(ids(findCombination(parts(25, 25, 25, 25), 100, 0.01)), [0, 1, 2, 3]);
+    });
+
+    test('returns null without a combination', () => {
+        assert.equal(findCombination(parts(70, 50), 100, 0.01), null);
+        assert.equal(findCombination([], 100, 0.01), null);
+    });
+});
+
+describe('matchBulkInMemory', () => {
+    const invoices = () => [
+        invoice({ id: 1, invoiceNumber: 'Rechnung 18763 / 2025', recipient: 'Reisebüro Sonne', amount: 120 }),
+        invoice({ id: 2, invoiceNumber: 'Rechnung 18764 / 2025', recipient: 'Reisebüro Sonne', amount: 80 }),
+        invoice({ id: 3, invoiceNumber: 'Rechnung 18770 / 2025', recipient: 'Reisebüro Sonne', amount: 50 })
+    ];
+
+    test('allocates a transfer naming the invoices in its purpose', () => {
+        const transfer = bank({ id: 9, amount: 170, description: 'RE 18763, 18770/2025' });
+        const matchedIds = new Set<number>();
+        const results: any[] = [];
+        assert.deepEqual([...matchBulkInMemory(invoices(), [transfer], matchedIds, results, rules)], [1, 3]);
+        assert.deepEqual(results, [
+            { invoiceId: 1, bankTransactionId: 9, matchType: 'BULK', confidence: 1.0, amount: 120 },
+            { invoiceId: 3, bankTransactionId: 9, matchType: 'BULK', confidence: 1.0, amount: 50 }
+        ]);
+        assert.deepEqual([...matchedIds], [9]);
+    });
+
+    test('needs the named invoices to add up to the transfer', () => {
+        const transfer = bank({ amount: 200, description: 'RE 18763, 18770/2025' });
+        assert.equal(matchBulkInMemory(invoices(), [transfer], new Set(), [], rules).size, 0);
+    });
+
+    test('leaves a transfer naming a single invoice to the single invoice matching', () => {
+        const transfer = bank({ amount: 120, senderReceiver: 'Reisebüro Sonne', description: 'RE 18763' });
+        assert.equal(matchBulkInMemory(invoices(), [transfer], new Set(), [], rules).size, 0);
+    });
+
+    test('combines open invoices of the sender without invoice numbers', () => {
+        const transfer = bank({ id: 9, amount: 130, senderReceiver: 'Reisebüro Sonne GmbH', description: 'Sammelzahlung Juni' });
+        const results: any[] = [];
+        assert.deepEqual([...matchBulkInMemory(invoices(), [transfer], new Set(), results, rules)].sort(), [2, 3]);
+        assert.ok(results.every(r => r.matchType === 'BULK' && r.confidence === 0.75));
+    });
+
+    test('does not combine invoices of other recipients', () => {
+        const transfer = bank({ amount: 130, senderReceiver: 'Erika Schmidt', description: 'Sammelzahlung Juni' });
+        assert.equal(matchBulkInMemory(invoices(), [transfer], new Set(), [], rules).size, 0);
+    });
+
+    test('skips invoices outside the date tolerance, paid invoices and used or outgoing transfers', () => {
+        const late = invoices().map(i => ({ ...i, invoiceDate: new Date(2025, 2, 1) }));
+        const transfer = bank({ id: 9, amount: 170, description: 'RE 18763, 18770/2025' });
+        assert.equal(matchBulkInMemory(late, [transfer], new Set(), [], rules).size, 0);
+        const paid = invoices().map(i => i.id === 3 ? { ...i, amount: 0 } : i);
+        assert.equal(matchBulkInMemory(paid, [transfer], new Set(), [], rules).size, 0);
+        assert.equal(matchBulkInMemory(invoices(), [transfer], new Set([9]), [], rules).size, 0);
+        assert.equal(matchBulkInMemory(invoices(), [{ ...transfer, amount: -170 }], new Set(), [], rules).size, 0);
+    });
+
+    test('gives every invoice to one transfer only', () => {
+        const first = bank({ id: 8, amount: 170, description: 'RE 18763, 18770/2025' });
+        const second = bank({ id: 9, amount: 170, description: 'RE 18763, 18770/2025' });
+        const results: any[] = [];
+        matchBulkInMemory(invoices(), [first, second], new Set(), results, rules);
+        assert.deepEqual([...new Set(results.map(r => r.bankTransactionId))], [8]);
+    });
+});
+
+describe('isOpenPayment', () => {
+    test('takes payments without match or flag', () => {
+        assert.equal(isOpenPayment(card()), true);
+        assert.equal(isOpenPayment({ ...card(), flag: null }), true);
+    });
+
+    test('leaves out matched and flagged payments', () => {
+        assert.equal(isOpenPayment({ ...card(), matches: [{ id: 1 }] }), false);
+        assert.equal(isOpenPayment({ ...card(), flag: { id: 1 } }), false);
+    });
+
+    test('a transfer flagged as refund is no candidate for the invoice it would pay', () => {
+        const refund = { ...bank({ id: 5, senderReceiver: 'Hans Müller', description: 'RE 18763' }), flag: { id: 1 } };
+        const transfer = bank({ id: 6, senderReceiver: 'Hans Müller' });
+        const available = [refund, transfer].filter(t => isOpenBankTransaction(t) && isOpenPayment(t));
+        assert.deepEqual(bankCandidates(invoice(), available, new Set(), rules).map(c => c.paymentId), [6]);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candidate, optimalAssignment } from '../matchScoring';
+
+const candidate = (paymentId: number, score: number, days = 0): Candidate => ({
+    paymentKey: 'bankTransactionId', paymentId, score, exactAmount: true, referenceHit: false, days, factors: []
+});
+const pair = (invoiceId: number, paymentId: number, score: number, days = 0) => ({ invoiceId, candidate: candidate(paymentId, score, days) });
+const assigned = (pairs: ReturnType<typeof pair>[]) =>
+    optimalAssignment(pairs).map(p => [p.invoiceId, p.candidate.paymentId]).sort((a, b) => a[0] - b[0]);
+
+describe('optimalAssignment', () => {
+    test('matches as many invoices as possible, even if one gives up its best payment', () => {
+        // Greedy by score would give payment 1 to invoice 1 and leave invoice 2 without a payment
+        const pairs = [pair(1, 1, 0.95), pair(1, 2, 0.85), pair(2, 1, 0.9)];
+        assert.deepEqual(assigned(pairs), [[1, 2], [2, 1]]);
+    });
+
+    test('takes the highest total score among complete assignments', () => {
+        const pairs = [pair(1, 1, 0.9), pair(1, 2, 0.8), pair(2, 1, 0.8), pair(2, 2, 0.9)];
+        assert.deepEqual(assigned(pairs), [[1, 1], [2, 2]]);
+    });
+
+    test('prefers fewer days between invoice and payment on equal scores', () => {
+        const pairs = [pair(1, 1, 0.9, 4), pair(1, 2, 0.9, 1)];
+        assert.deepEqual(assigned(pairs), [[1, 2]]);
+    });
+
+    test('gives a payment wanted by several invoices to the best one only', () => {
+        const pairs = [pair(1, 1, 0.85), pair(2, 1, 0.95), pair(3, 1, 0.9)];
+        assert.deepEqual(assigned(pairs), [[2, 1]]);
+    });
+
+    test('uses every payment at most once', () => {
+        const pairs = [pair(1, 1, 0.9), pair(1, 2, 0.9), pair(2, 2, 0.9), pair(2, 3, 0.9), pair(3, 3, 0.9), pair(3, 1, 0.9)];
+        const payments = optimalAssignment(pairs).map(p => p.candidate.paymentId);
+        assert.equal(payments.length, 3);
+        assert.equal(new Set(payments).size, 3);
+    });
+
+    test('solves unconnected invoices independently', () => {
+        const pairs = [pair(1, 1, 0.9), pair(2, 2, 0.8), pair(3, 3, 0.95), pair(3, 4, 0.85), pair(4, 3, 0.9)];
+        assert.deepEqual(assigned(pairs), [[1, 1], [2, 2], [3, 4], [4, 3]]);
+    });
+
+    test('does not depend on the order of the candidates', () => {
+        const pairs = [pair(1, 1, 0.9), pair(1, 2, 0.9), pair(2, 1, 0.9), pair(2, 2, 0.9), pair(3, 2, 0.85)];
+        const expected = assigned(pairs);
+        assert.deepEqual(assigned([...pairs].reverse()), expected);
+        assert.deepEqual(assigned([pairs[3], pairs[0], pairs[4], pairs[2], pairs[1]]), expected);
+    });
+
+    test('keeps payments of different sources apart', () => {
+        const card = { invoiceId: 2, candidate: { ...candidate(1, 0.9), paymentKey: 'cardPaymentId' as const } };
+        const result = optimalAssignment([pair(1, 1, 0.9), card]);
+        assert.equal(result.length, 2);
+    });
+
+    test('returns nothing without candidates', () => {
+        assert.deepEqual(optimalAssignment([]), []);
+    });
+});
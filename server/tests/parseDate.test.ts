@@ -0,0 +1,61 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectSlashOrder, parseDate } from '../dates';
+
+const day = (date: Date | null) => date && [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+
+describe('parseDate', () => {
+    test('reads German dates with dots', () => {
+        assert.deepEqual(day(parseDate('03.04.2025')), [2025, 4, 3]);
+        assert.deepEqual(day(parseDate('3.4.25')), [2025, 4, 3]);
+    });
+
+    test('reads dates with dashes', () => {
+        assert.deepEqual(day(parseDate('2025-04-03')), [2025, 4, 3]);
+        assert.deepEqual(day(parseDate('03-04-2025')), [2025, 4, 3]);
+    });
+
+    test('reads spelled out months', () => {
+        assert.deepEqual(day(parseDate('14. Okt. 2025')), [2025, 10, 14]);
+        assert.deepEqual(day(parseDate('9 Jun 2025')), [2025, 6, 9]);
+        assert.deepEqual(day(parseDate('"10 Jun 2025"')), [2025, 6, 10]);
+    });
+
+    test('reads slash dates in the given order', () => {
+        assert.deepEqual(day(parseDate('03/04/2025', 'MDY')), [2025, 3, 4]);
+        assert.deepEqual(day(parseDate('03/04/2025', 'DMY')), [2025, 4, 3]);
+        assert.deepEqual(day(parseDate('03/04/25 14:30', 'DMY')), [2025, 4, 3]);
+        assert.deepEqual(day(parseDate('2025/04/03')), [2025, 4, 3]);
+    });
+
+    test('takes a part above 12 as the day, whatever the order', () => {
+        assert.deepEqual(day(parseDate('13/04/2025')), [2025, 4, 13]);
+        assert.deepEqual(day(parseDate('04/13/2025')), [2025, 4, 13]);
+        assert.deepEqual(day(parseDate('13/04/2025', 'MDY')), [2025, 4, 13]);
+    });
+
+    test('rejects ambiguous slash dates without an order', () => {
+        assert.equal(parseDate('03/04/2025'), null);
+        assert.deepEqual(day(parseDate('04/04/2025')), [2025, 4, 4]);
+    });
+
+    test('returns null for empty or unreadable values', () => {
+        assert.equal(parseDate(''), null);
+        assert.equal(parseDate('demnächst'), null);
+    });
+});
+
+describe('detectSlashOrder', () => {
+    test('decides by the values with a part above 12', () => {
+        assert.equal(detectSlashOrder(['03/04/2025', '25/04/2025']), 'DMY');
+        assert.equal(detectSlashOrder(['03/04/2025', '04/25/2025 10:00']), 'MDY');
+    });
+
+    test('is null if no value decides it', () => {
+        assert.equal(detectSlashOrder(['03/04/2025', '05/06/2025', '2025/04/25', '25.04.2025', '']), null);
+    });
+
+    test('is null if the values contradict each other', () => {
+        assert.equal(detectSlashOrder(['25/04/2025', '04/25/2025']), null);
+    });
+});
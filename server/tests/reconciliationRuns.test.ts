@@ -0,0 +1,44 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RunChanges, revertPlan } from '../reconciliationRuns';
+
+describe('revertPlan', () => {
+    const matches = [
+        { invoiceId: 1, creditNoteId: null },
+        { invoiceId: 1, creditNoteId: 2 },
+        { invoiceId: 3, creditNoteId: null }
+    ];
+    const changes: RunChanges = {
+        settledInvoiceIds: [4, 5],
+        bookingPayouts: [{ id: 1, bankTransactionId: 10 }],
+        nexiSettlements: [{ id: 2, bankTransactionId: 11 }],
+        providerPayouts: []
+    };
+
+    test('reopens the invoices and credit notes of the matches once each', () => {
+        assert.deepEqual(revertPlan(matches, JSON.stringify(changes)).matchedInvoiceIds, [1, 2, 3]);
+    });
+
+    test('reopens the cash and voucher invoices the run settled', () => {
+        assert.deepEqual(revertPlan(matches, JSON.stringify(changes)).settledInvoiceIds, [4, 5]);
+    });
+
+    test('a run settling only cash invoices can be reverted without matches', () => {
+        const plan = revertPlan([], JSON.stringify({ ...changes, settledInvoiceIds: [4] }));
+        assert.deepEqual(plan.matchedInvoiceIds, []);
+        assert.deepEqual(plan.settledInvoiceIds, [4]);
+    });
+
+    test('removes the payout and settlement links of the run', () => {
+        const plan = revertPlan(matches, JSON.stringify(changes));
+        assert.deepEqual(plan.bookingPayouts, [{ id: 1, bankTransactionId: 10 }]);
+        assert.deepEqual(plan.nexiSettlements, [{ id: 2, bankTransactionId: 11 }]);
+        assert.deepEqual(plan.providerPayouts, []);
+    });
+
+    test('runs recorded without their changes only revert their matches', () => {
+        assert.deepEqual(revertPlan(matches, null), {
+            matchedInvoiceIds: [1, 2, 3], settledInvoiceIds: [], bookingPayouts: [], nexiSettlements: [], providerPayouts: []
+        });
+    });
+});
@@ -0,0 +1,29 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { STAGED_FILE_TTL_HOURS, removeExpiredStagedFiles } from '../staging';
+
+describe('removeExpiredStagedFiles', () => {
+    const stagingDir = fs.mkdtempSync(path.join(os.tmpdir(), 'staging-'));
+    after(() => fs.rmSync(stagingDir, { recursive: true, force: true }));
+
+    const stage = (name: string, hoursAgo: number) => {
+        const filePath = path.join(stagingDir, name);
+        fs.writeFileSync(filePath, 'Buchungstag;Betrag\n');
+        const time = new Date(Date.now() - hoursAgo * 60 * 60 * 1000);
+        fs.utimesSync(filePath, time, time);
+    };
+
+    test('removes previews older than the TTL and keeps recent ones', () => {
+        stage('1-old.csv', STAGED_FILE_TTL_HOURS + 1);
+        stage('2-recent.csv', 1);
+        assert.equal(removeExpiredStagedFiles(stagingDir), 1);
+        assert.deepEqual(fs.readdirSync(stagingDir), ['2-recent.csv']);
+    });
+
+    test('does nothing without a staging directory', () => {
+        assert.equal(removeExpiredStagedFiles(path.join(stagingDir, 'missing')), 0);
+    });
+});
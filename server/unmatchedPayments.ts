@@ -0,0 +1,134 @@
+import { PrismaClient } from '@prisma/client';
+import { MANUAL_PAYMENT_TYPES, ManualPaymentType } from './manualMatching';
+
+const prisma = new PrismaClient();
+
+// Payments no invoice claimed: incoming bank transfers, Nexi card payments and Booking.com reservations.
+// Often a missing invoice or revenue booked elsewhere; payments that need no invoice are flagged
+// and no longer count as open. Reconciliation runs and the manual search leave flagged payments out.
+export const UNMATCHED_SOURCES = MANUAL_PAYMENT_TYPES;
+export type UnmatchedSource = ManualPaymentType;
+
+export const PAYMENT_FLAGS = ['DEPOSIT', 'NOT_REVENUE', 'REFUND', 'OTHER'] as const;
+export type PaymentFlagType = typeof PAYMENT_FLAGS[number];
+
+const FLAG_KEYS = { bank: 'bankTransactionId', card: 'cardPaymentId', booking: 'bookingPaymentId' } as const;
+
+export interface UnmatchedPaymentRow {
+    source: UnmatchedSource;
+    id: number;
+    date: Date;
+    month: string; // YYYY-MM
+    amount: number;
+    description: string;
+    flag: { flag: string; note: string | null; createdBy: string | null; updatedAt: Date } | null;
+}
+
+export interface UnmatchedFilter {
+    source: UnmatchedSource;
+    month?: string; // YYYY-MM
+    status?: 'open' | 'flagged' | 'all';
+    text?: string;
+}
+
+const flagSelect = { select: { flag: true, note: true, createdBy: true, updatedAt: true } };
+
+async function loadUnmatched(source: UnmatchedSource, month?: string): Promise<UnmatchedPaymentRow[]> {
+    let dateRange: { gte: Date; lt: Date } | undefined;
+    if (month) {
+        const [year, mon] = month.split('-').map(Number);
+        dateRange = { gte: new Date(year, mon - 1, 1), lt: new Date(year, mon, 1) };
+    }
+
+    if (source === 'bank') {
+        const rows = await prisma.bankTransaction.findMany({
+            where: {
+                amount: { gt: 0 }, bookingDate: dateRange,
+                matches: { none: {} }, bookingPayouts: { none: {} }, nexiSettlements: { none: {} }, providerPayouts: { none: {} }
+            },
+            include: { flag: flagSelect },
+            orderBy: [{ bookingDate: 'asc' }, { id: 'asc' }]
+        });
+        return rows.map(t => row('bank', t.id, t.bookingDate, t.amount, [t.senderReceiver, t.description].filter(Boolean).join(' · '), t.flag));
+    }
+    if (source === 'card') {
+        const rows = await prisma.cardPayment.findMany({
+            where: { transactionDate: dateRange, matches: { none: {} } },
+            include: { flag: flagSelect },
+            orderBy: [{ transactionDate: 'asc' }, { id: 'asc' }]
+        });
+        return rows.map(c => row('card', c.id, c.transactionDate, c.amount, [c.cardType, c.transactionTime, c.terminalId && `Terminal ${c.terminalId}`].filter(Boolean).join(' · '), c.flag));
+    }
+    const rows = await prisma.bookingPayment.findMany({
+        where: { checkInDate: dateRange, matches: { none: {} } },
+        include: { flag: flagSelect },
+        orderBy: [{ checkInDate: 'asc' }, { id: 'asc' }]
+    });
+    return rows.map(b => row('booking', b.id, b.checkInDate, b.grossAmount ?? b.amount, `Ref ${b.referenceNumber} · Auszahlung ${b.payoutDate.toLocaleDateString('de-DE')}`, b.flag));
+}
+
+function row(source: UnmatchedSource, id: number, date: Date, amount: number, description: string, flag: UnmatchedPaymentRow['flag']): UnmatchedPaymentRow {
+    return { source, id, date, month: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`, amount, description, flag };
+}
+
+// Unmatched payments of one source, optionally one month, with their totals
+export async function listUnmatchedPayments(filter: UnmatchedFilter) {
+    const status = filter.status || 'open';
+    const text = filter.text?.trim().toLowerCase();
+    const payments = (await loadUnmatched(filter.source, filter.month))
+        .filter(p => status === 'all' || (status === 'flagged') === (p.flag !== null))
+        .filter(p => !text || p.description.toLowerCase().includes(text));
+    return {
+        payments,
+        totals: { count: payments.length, amount: sum(payments.map(p => p.amount)) }
+    };
+}
+
+// Open and flagged payments per source and month, newest month first
+export async function summarizeUnmatchedPayments() {
+    const summary: { source: UnmatchedSource; month: string; open: number; openAmount: number; flagged: number; flaggedAmount: number }[] = [];
+    for (const source of UNMATCHED_SOURCES) {
+        const byMonth = new Map<string, UnmatchedPaymentRow[]>();
+        for (const p of await loadUnmatched(source)) {
+            byMonth.set(p.month, [...(byMonth.get(p.month) || []), p]);
+        }
+        for (const [month, payments] of byMonth) {
+            const open = payments.filter(p => p.flag === null);
+            const flagged = payments.filter(p => p.flag !== null);
+            summary.push({ source, month, open: open.length, openAmount: sum(open.map(p => p.amount)), flagged: flagged.length, flaggedAmount: sum(flagged.map(p => p.amount)) });
+        }
+    }
+    return summary.sort((a, b) => b.month.localeCompare(a.month) || UNMATCHED_SOURCES.indexOf(a.source) - UNMATCHED_SOURCES.indexOf(b.source));
+}
+
+// Flag a payment (or change its flag); suggestions of earlier runs to match it are dropped.
+// Returns null if the payment does not exist.
+export async function flagPayment(source: UnmatchedSource, id: number, flag: PaymentFlagType, note: string | null, user: string | null) {
+    if (!await paymentExists(source, id)) return null;
+    const payment = source === 'bank' ? { bankTransactionId: id } : source === 'card' ? { cardPaymentId: id } : { bookingPaymentId: id };
+    const [saved] = await prisma.$transaction([
+        prisma.paymentFlag.upsert({
+            where: payment,
+            create: { ...payment, flag, note, createdBy: user },
+            update: { flag, note, createdBy: user }
+        }),
+        prisma.matchSuggestion.deleteMany({ where: payment })
+    ]);
+    return saved;
+}
+
+// Returns false if the payment was not flagged
+export async function unflagPayment(source: UnmatchedSource, id: number): Promise<boolean> {
+    const { count } = await prisma.paymentFlag.deleteMany({ where: { [FLAG_KEYS[source]]: id } });
+    return count > 0;
+}
+
+async function paymentExists(source: UnmatchedSource, id: number): Promise<boolean> {
+    if (source === 'bank') return (await prisma.bankTransaction.count({ where: { id } })) > 0;
+    if (source === 'card') return (await prisma.cardPayment.count({ where: { id } })) > 0;
+    return (await prisma.bookingPayment.count({ where: { id } })) > 0;
+}
+
+function sum(amounts: number[]): number {
+    return Math.round(amounts.reduce((total, a) => total + a, 0) * 100) / 100;
+}